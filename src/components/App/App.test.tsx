@@ -1,5 +1,6 @@
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { defaultRegistryClient } from 'src/utils/registryClient';
 
 import { setupLocalStorageMock } from '../../test/mocks/localStorage';
 import { applyThemeDetection, setupThemeMocks } from '../../test/setup';
@@ -28,7 +29,7 @@ describe('App component', () => {
     expect(input).toHaveAttribute('placeholder', 'Enter npm organization name');
 
     const instructions = screen.getByText(
-      /Names must be 1-214 characters, lowercase, and can contain hyphens/,
+      /Names must be 1-211 characters, lowercase, and can contain hyphens, dots and underscores/,
     );
     expect(instructions).toBeInTheDocument();
   });
@@ -55,6 +56,28 @@ describe('App component', () => {
     const label = screen.getByLabelText('NPM Organization Name');
     expect(label).toBeInTheDocument();
   });
+
+  it('shows the registry banner while the registry is unreachable', () => {
+    const retryAt = Date.now() + 30000;
+    const getState = vi
+      .spyOn(defaultRegistryClient.circuitBreaker, 'getState')
+      .mockReturnValue({ status: 'open', failures: 5, retryAt });
+
+    render(<App />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'The npm registry is unreachable.',
+    );
+    getState.mockRestore();
+  });
+
+  it('hides the registry banner while the registry is reachable', () => {
+    render(<App />);
+
+    expect(
+      screen.queryByText('The npm registry is unreachable.'),
+    ).not.toBeInTheDocument();
+  });
 });
 
 describe('App Dark Mode', () => {
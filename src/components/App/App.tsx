@@ -1,4 +1,5 @@
 import { OrgNameChecker } from '../OrgNameChecker';
+import { RegistryStatusBanner } from '../RegistryStatusBanner';
 
 export default function App() {
   return (
@@ -13,6 +14,8 @@ export default function App() {
           </p>
         </div>
 
+        <RegistryStatusBanner />
+
         <div className="rounded-lg bg-white p-6 shadow-md dark:bg-gray-800">
           <OrgNameChecker autoFocus />
         </div>
@@ -23,7 +26,8 @@ export default function App() {
             scope
           </p>
           <p className="mt-1">
-            Names must be 1-214 characters, lowercase, and can contain hyphens
+            Names must be 1-211 characters, lowercase, and can contain hyphens,
+            dots and underscores
           </p>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 
 import { AvailabilityIndicator } from './AvailabilityIndicator';
 
@@ -20,6 +20,48 @@ describe('AvailabilityIndicator', () => {
     expect(screen.getByRole('status')).toBeInTheDocument();
   });
 
+  it('renders the rate limit wait while checking', () => {
+    render(
+      <AvailabilityIndicator
+        isAvailable={null}
+        isChecking={true}
+        isWaitingForRateLimit={true}
+      />,
+    );
+
+    expect(screen.getByText('Waiting for rate limit...')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveAttribute('aria-busy', 'true');
+  });
+
+  it('renders the offline state while the check waits for the connection', () => {
+    render(
+      <AvailabilityIndicator
+        isAvailable={null}
+        isChecking={false}
+        isWaitingForConnection={true}
+      />,
+    );
+
+    expect(screen.getByText('Offline')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent(
+      "This name will be checked when you're back online.",
+    );
+  });
+
+  it('renders a cached result rather than the offline state', () => {
+    render(
+      <AvailabilityIndicator
+        isAvailable={true}
+        isChecking={false}
+        isWaitingForConnection={true}
+        cachedAt={new Date(0)}
+      />,
+    );
+
+    expect(screen.getByText('Available')).toBeInTheDocument();
+    expect(screen.queryByText('Offline')).not.toBeInTheDocument();
+  });
+
   it('renders available state with checkmark', () => {
     render(<AvailabilityIndicator isAvailable={true} isChecking={false} />);
 
@@ -94,4 +136,341 @@ describe('AvailabilityIndicator', () => {
     expect(status).toBeInTheDocument();
     expect(status).toHaveTextContent('Available');
   });
+
+  it('shows a cached note when the result came from cache', () => {
+    const cachedAt = new Date('2026-01-01T00:00:00Z');
+    const { rerender } = render(
+      <AvailabilityIndicator
+        isAvailable={true}
+        isChecking={false}
+        cachedAt={cachedAt}
+      />,
+    );
+
+    expect(screen.getByText('(cached)')).toHaveAttribute(
+      'title',
+      'Checked at 2026-01-01T00:00:00.000Z',
+    );
+
+    rerender(
+      <AvailabilityIndicator
+        isAvailable={false}
+        isChecking={false}
+        cachedAt={cachedAt}
+      />,
+    );
+
+    expect(screen.getByText('(cached)')).toBeInTheDocument();
+  });
+
+  it.each([
+    ['available', true],
+    ['likely-available', true],
+    ['unknown', null],
+    ['taken', false],
+  ] as const)(
+    'keeps the %s result visible while a refresh waits for the connection',
+    (status, isAvailable) => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={isAvailable}
+          status={status}
+          isChecking={false}
+          isWaitingForConnection
+          cachedAt={new Date(0)}
+        />,
+      );
+
+      expect(screen.getByText('(cached)')).toBeInTheDocument();
+      expect(
+        screen.getByText(/Refreshes when you're back online/),
+      ).toBeInTheDocument();
+      expect(screen.queryByText('Offline')).not.toBeInTheDocument();
+    },
+  );
+
+  it('does not show a cached note for fresh results', () => {
+    render(<AvailabilityIndicator isAvailable={true} isChecking={false} />);
+
+    expect(screen.queryByText('(cached)')).not.toBeInTheDocument();
+  });
+
+  describe('conflict details', () => {
+    const evidence = {
+      owner: '@foo',
+      url: 'https://www.npmjs.com/search?q=scope%3Afoo',
+      packages: [
+        { name: '@foo/bar', url: 'https://www.npmjs.com/package/@foo/bar' },
+        { name: '@foo/baz', url: 'https://www.npmjs.com/package/@foo/baz' },
+      ],
+      total: 12,
+    };
+
+    it('says which scope holds the name and how many packages it has', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="scope"
+          evidence={evidence}
+        />,
+      );
+
+      expect(screen.getByText(/Taken:/)).toHaveTextContent(
+        'Taken: scope @foo has 12 packages',
+      );
+      expect(screen.getByRole('link', { name: 'scope @foo' })).toHaveAttribute(
+        'href',
+        evidence.url,
+      );
+    });
+
+    it('links to the matching packages', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="scope"
+          evidence={evidence}
+        />,
+      );
+
+      const list = screen.getByRole('list', { name: 'Matching packages' });
+      const links = within(list).getAllByRole('link');
+
+      expect(links.map((link) => link.textContent)).toEqual([
+        '@foo/bar',
+        '@foo/baz',
+      ]);
+      expect(links[0]).toHaveAttribute(
+        'href',
+        'https://www.npmjs.com/package/@foo/bar',
+      );
+      expect(links[0]).toHaveAttribute('target', '_blank');
+    });
+
+    it('uses the singular for a user with one package', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="user"
+          evidence={{
+            owner: 'foo',
+            url: 'https://www.npmjs.com/~foo',
+            packages: [
+              { name: 'bar', url: 'https://www.npmjs.com/package/bar' },
+            ],
+            total: 1,
+          }}
+        />,
+      );
+
+      expect(screen.getByText(/Taken:/)).toHaveTextContent(
+        'Taken: user foo has 1 package',
+      );
+    });
+
+    it('explains a scope reserved by placeholder packages', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="scope"
+          conflictSubtype="security-holding"
+          evidence={{
+            ...evidence,
+            packages: [
+              { ...evidence.packages[0], state: 'security-holding' },
+              { ...evidence.packages[1], state: 'unpublished' },
+            ],
+            total: 2,
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText(/replaced the packages with security placeholders/),
+      ).toBeInTheDocument();
+
+      const list = screen.getByRole('list', { name: 'Matching packages' });
+      expect(
+        within(list)
+          .getAllByRole('listitem')
+          .map((item) => item.textContent),
+      ).toEqual(['@foo/bar (security holding)', '@foo/baz (unpublished)']);
+    });
+
+    it('explains a scope whose packages were all unpublished', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="scope"
+          conflictSubtype="unpublished"
+          evidence={evidence}
+        />,
+      );
+
+      expect(
+        screen.getByText(/Every package was unpublished/),
+      ).toBeInTheDocument();
+    });
+
+    it('says which near-identical variant holds the name', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="scope"
+          variant="foo_bar"
+          evidence={{ ...evidence, owner: '@foo_bar', total: 2 }}
+        />,
+      );
+
+      expect(
+        screen.getByText(/Taken as a near-identical variant:/),
+      ).toHaveTextContent(
+        'Taken as a near-identical variant: scope @foo_bar has 2 packages',
+      );
+    });
+
+    it('shows no details without evidence', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={false}
+          isChecking={false}
+          conflict="user"
+        />,
+      );
+
+      expect(screen.queryByText(/Taken:/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('degraded states', () => {
+    it('renders the likely available state with the breakdown', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={true}
+          status="likely-available"
+          checks={[
+            { check: 'user', outcome: 'passed', method: 'author-search' },
+            { check: 'scope', outcome: 'passed' },
+          ]}
+          isChecking={false}
+        />,
+      );
+
+      expect(screen.getByText('Likely available')).toBeInTheDocument();
+      expect(screen.queryByText('Available')).not.toBeInTheDocument();
+      expect(
+        screen.getByText(/can't confirm that no user holds this name/),
+      ).toBeInTheDocument();
+
+      const breakdown = screen.getByRole('list', { name: 'Check breakdown' });
+      expect(within(breakdown).getAllByRole('listitem')).toHaveLength(2);
+      expect(breakdown).toHaveTextContent(
+        'User lookup: no conflict via author search',
+      );
+    });
+
+    it('renders the unknown state with the failed check and its error', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={null}
+          status="unknown"
+          checks={[
+            { check: 'user', outcome: 'passed' },
+            {
+              check: 'scope',
+              outcome: 'failed',
+              error: {
+                type: 'TIMEOUT_ERROR',
+                message: 'Request timed out',
+                timestamp: new Date(),
+              },
+            },
+          ]}
+          isChecking={false}
+        />,
+      );
+
+      expect(screen.getByText('Unknown')).toBeInTheDocument();
+      expect(screen.getByText('⚠️')).toBeInTheDocument();
+      expect(
+        screen.getByText('Scope lookup: failed (Request timed out)'),
+      ).toBeInTheDocument();
+    });
+
+    it('renders the unknown state with an uncertain check', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={null}
+          status="unknown"
+          checks={[
+            { check: 'user', outcome: 'passed' },
+            { check: 'scope', outcome: 'uncertain' },
+          ]}
+          isChecking={false}
+        />,
+      );
+
+      expect(screen.getByText('Unknown')).toBeInTheDocument();
+      expect(
+        screen.getByText(/Some checks failed or disagree/),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText('Scope lookup: lookups disagree'),
+      ).toBeInTheDocument();
+    });
+
+    it('lists skipped checks and conflicts', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={null}
+          status="unknown"
+          checks={[
+            { check: 'user', outcome: 'conflict' },
+            { check: 'scope', outcome: 'skipped' },
+            { check: 'variants', outcome: 'skipped' },
+          ]}
+          isChecking={false}
+        />,
+      );
+
+      expect(
+        screen.getByText('User lookup: conflict found'),
+      ).toBeInTheDocument();
+      expect(screen.getByText('Scope lookup: skipped')).toBeInTheDocument();
+      expect(screen.getByText('Variant lookup: skipped')).toBeInTheDocument();
+    });
+
+    it('shows no breakdown without checks', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={null}
+          status="unknown"
+          isChecking={false}
+        />,
+      );
+
+      expect(screen.getByText('Unknown')).toBeInTheDocument();
+      expect(
+        screen.queryByRole('list', { name: 'Check breakdown' }),
+      ).not.toBeInTheDocument();
+    });
+
+    it('prefers the status over isAvailable', () => {
+      render(
+        <AvailabilityIndicator
+          isAvailable={true}
+          status="taken"
+          isChecking={false}
+        />,
+      );
+
+      expect(screen.getByText('Unavailable')).toBeInTheDocument();
+    });
+  });
 });
@@ -1,13 +1,154 @@
+import type {
+  AvailabilityStatus,
+  CheckName,
+  CheckOutcome,
+  CheckResult,
+  ConflictEvidence,
+  ConflictSubtype,
+  ConflictType,
+  PackageState,
+  UserLookupMethod,
+} from 'src/types';
+
 import type { AvailabilityIndicatorProps } from './AvailabilityIndicator.types';
 
+const linkClassName =
+  'text-blue-600 underline hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300';
+
+const subtypeNotes: Record<ConflictSubtype, string> = {
+  unpublished:
+    'Every package was unpublished, but npm keeps the scope reserved.',
+  'security-holding':
+    'npm replaced the packages with security placeholders; the scope stays reserved.',
+};
+
+const packageStateLabels: Record<Exclude<PackageState, 'published'>, string> = {
+  unpublished: 'unpublished',
+  'security-holding': 'security holding',
+};
+
+/**
+ * Describes who holds a taken name, e.g. "Taken: scope \@foo has 12 packages",
+ * followed by links to the matching packages. A name held by a punctuation
+ * variant reads "Taken as a near-identical variant: scope \@f_oo ...".
+ *
+ * @param conflict - Kind of owner holding the name
+ * @param evidence - Packages proving the conflict
+ * @param subtype - Placeholder packages holding the scope, if any
+ * @param variant - Near-identical name holding the conflict, if any
+ * @returns Conflict description with package links
+ */
+function ConflictDetails({
+  conflict,
+  evidence,
+  subtype,
+  variant,
+}: {
+  conflict: ConflictType;
+  evidence: ConflictEvidence;
+  subtype: ConflictSubtype | null;
+  variant: string | null;
+}) {
+  const packageCount = `${evidence.total.toString()} ${evidence.total === 1 ? 'package' : 'packages'}`;
+
+  return (
+    <div className="text-sm text-gray-700 dark:text-gray-300">
+      <p>
+        {variant ? 'Taken as a near-identical variant: ' : 'Taken: '}
+        <a
+          href={evidence.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={linkClassName}
+        >
+          {`${conflict} ${evidence.owner}`}
+        </a>
+        {` has ${packageCount}`}
+      </p>
+      {subtype && <p>{subtypeNotes[subtype]}</p>}
+
+      <ul aria-label="Matching packages" className="flex flex-wrap gap-x-3">
+        {evidence.packages.map((pkg) => (
+          <li key={pkg.name}>
+            <a
+              href={pkg.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={linkClassName}
+            >
+              {pkg.name}
+            </a>
+            {pkg.state &&
+              pkg.state !== 'published' &&
+              ` (${packageStateLabels[pkg.state]})`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const checkLabels: Record<CheckName, string> = {
+  user: 'User lookup',
+  org: 'Org lookup',
+  scope: 'Scope lookup',
+  variants: 'Variant lookup',
+};
+
+const outcomeLabels: Record<CheckOutcome, string> = {
+  passed: 'no conflict',
+  conflict: 'conflict found',
+  uncertain: 'lookups disagree',
+  failed: 'failed',
+  skipped: 'skipped',
+};
+
+const methodLabels: Record<UserLookupMethod, string> = {
+  'user-document': 'user document',
+  'profile-page': 'profile page',
+  'author-search': 'author search',
+};
+
+/**
+ * Lists the outcome of each registry check, e.g. "Scope lookup: failed", and
+ * the method that decided the user lookup.
+ *
+ * @param checks - Outcome of each registry check
+ * @returns Per-check breakdown
+ */
+function CheckBreakdown({ checks }: { checks: CheckResult[] }) {
+  return (
+    <ul
+      aria-label="Check breakdown"
+      className="text-xs text-gray-600 dark:text-gray-400"
+    >
+      {checks.map(({ check, outcome, method, error }) => (
+        <li key={check}>
+          {`${checkLabels[check]}: ${outcomeLabels[outcome]}`}
+          {method && ` via ${methodLabels[method]}`}
+          {error && ` (${error.message})`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * Visual indicator component for npm organization name availability status.
  *
  * This component provides clear visual feedback about availability status:
  * - ✅ Green checkmark for available names
+ * - ✅ "Likely available" when only the author search backs the result
+ * - ⚠️ "Unknown" when a check failed or was uncertain and none found a conflict
  * - ❌ Red X for unavailable names
- * - 🔄 Loading spinner during availability checks
- * - No display when status is unknown (null) and not checking
+ * - 🔄 Loading spinner during availability checks, noting when requests wait
+ *   for the rate limit
+ * - "(cached)" note when the result was served from cache
+ * - Who holds a taken name, e.g. "Taken: scope \@foo has 12 packages", with
+ *   links to the owner and the matching packages
+ * - Per-check breakdown for the likely available and unknown states
+ * - Offline state when the check waits for the connection to come back
+ * - No display when nothing was checked yet and not checking
  *
  * Features:
  * - Fully accessible with ARIA live regions for screen readers
@@ -25,18 +166,77 @@ import type { AvailabilityIndicatorProps } from './AvailabilityIndicator.types';
  * ```
  *
  * @param isAvailable - Availability status (true=available, false=unavailable, null=unknown)
+ * @param status - Overall availability status, taking precedence over isAvailable
+ * @param checks - Outcome of each registry check
  * @param isChecking - Whether an availability check is currently in progress
+ * @param isWaitingForRateLimit - Whether the check in progress waits for the rate limit
+ * @param isWaitingForConnection - Whether the check waits for the browser to come back online
+ * @param conflict - Kind of owner holding the name (user, scope or org)
+ * @param evidence - Packages proving the conflict
+ * @param conflictSubtype - Placeholder packages holding a scope without live packages
+ * @param variant - Near-identical name holding the conflict (e.g. "my_org" for "my-org")
+ * @param cachedAt - When the result was originally checked, if it came from cache
  * @param className - Additional CSS class names for custom styling
  *
  * @returns Visual status indicator or empty fragment when no status to display
  */
 export function AvailabilityIndicator({
   isAvailable,
+  status = null,
+  checks = [],
   isChecking,
+  isWaitingForRateLimit = false,
+  isWaitingForConnection = false,
+  conflict = null,
+  evidence = null,
+  conflictSubtype = null,
+  variant = null,
+  cachedAt = null,
   className = '',
 }: AvailabilityIndicatorProps) {
+  const cachedNote = cachedAt && (
+    <span
+      className="text-xs text-gray-500 dark:text-gray-400"
+      title={`Checked at ${cachedAt.toISOString()}`}
+    >
+      (cached)
+    </span>
+  );
+
+  // A refresh requested while offline keeps the shown result until it runs
+  const waitingNote = isWaitingForConnection && (
+    <span className="text-xs text-gray-500 dark:text-gray-400">
+      📡 Refreshes when you&apos;re back online
+    </span>
+  );
+
+  const state: AvailabilityStatus | null =
+    status ??
+    (isAvailable === null ? null : isAvailable ? 'available' : 'taken');
+  const breakdown = checks.length > 0 && <CheckBreakdown checks={checks} />;
+
+  // Show offline state: the check runs once the connection comes back
+  if (state === null && !isChecking && isWaitingForConnection) {
+    return (
+      <div
+        role="status"
+        aria-live="polite"
+        className={`flex flex-col gap-1 ${className}`}
+      >
+        <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+          <span aria-hidden="true">📡</span>
+          <span className="font-medium">Offline</span>
+        </div>
+
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          This name will be checked when you&apos;re back online.
+        </p>
+      </div>
+    );
+  }
+
   // Don't render anything if we haven't checked yet and aren't currently checking
-  if (isAvailable === null && !isChecking) {
+  if (state === null && !isChecking) {
     return <></>;
   }
 
@@ -53,13 +253,63 @@ export function AvailabilityIndicator({
           className="h-4 w-4 animate-spin rounded-full border-2 border-blue-600 border-t-transparent dark:border-blue-400"
           aria-hidden="true"
         />
-        <span className="font-medium">Checking...</span>
+        <span className="font-medium">
+          {isWaitingForRateLimit ? 'Waiting for rate limit...' : 'Checking...'}
+        </span>
+      </div>
+    );
+  }
+
+  // Show likely available state: nothing found, but not proven either
+  if (state === 'likely-available') {
+    return (
+      <div
+        role="status"
+        aria-live="polite"
+        className={`flex flex-col gap-1 ${className}`}
+      >
+        <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
+          <span aria-hidden="true">✅</span>
+          <span className="font-medium">Likely available</span>
+          {cachedNote}
+          {waitingNote}
+        </div>
+
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          No conflict found, but npm can&apos;t confirm that no user holds this
+          name.
+        </p>
+        {breakdown}
+      </div>
+    );
+  }
+
+  // Show unknown state: some checks failed and none found a conflict
+  if (state === 'unknown') {
+    return (
+      <div
+        role="status"
+        aria-live="polite"
+        className={`flex flex-col gap-1 ${className}`}
+      >
+        <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+          <span aria-hidden="true">⚠️</span>
+          <span className="font-medium">Unknown</span>
+          {cachedNote}
+          {waitingNote}
+        </div>
+
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Some checks failed or disagree, so availability can&apos;t be
+          confirmed.
+        </p>
+        {breakdown}
       </div>
     );
   }
 
   // Show available state
-  if (isAvailable) {
+  if (state === 'available') {
     return (
       <div
         role="status"
@@ -68,19 +318,34 @@ export function AvailabilityIndicator({
       >
         <span aria-hidden="true">✅</span>
         <span className="font-medium">Available</span>
+        {cachedNote}
+        {waitingNote}
       </div>
     );
   }
 
-  // Show unavailable state
+  // Show unavailable state with the conflict details when known
   return (
     <div
       role="status"
       aria-live="polite"
-      className={`flex items-center gap-2 text-red-600 dark:text-red-400 ${className}`}
+      className={`flex flex-col gap-1 ${className}`}
     >
-      <span aria-hidden="true">❌</span>
-      <span className="font-medium">Unavailable</span>
+      <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+        <span aria-hidden="true">❌</span>
+        <span className="font-medium">Unavailable</span>
+        {cachedNote}
+        {waitingNote}
+      </div>
+
+      {conflict && evidence && (
+        <ConflictDetails
+          conflict={conflict}
+          evidence={evidence}
+          subtype={conflictSubtype}
+          variant={variant}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,34 @@
+import type {
+  AvailabilityStatus,
+  CheckResult,
+  ConflictEvidence,
+  ConflictSubtype,
+  ConflictType,
+} from 'src/types';
+
 export interface AvailabilityIndicatorProps {
   /** Whether the name is available (null = unknown/not checked) */
   isAvailable: boolean | null;
+  /** Overall availability status, taking precedence over isAvailable */
+  status?: AvailabilityStatus | null;
+  /** Outcome of each registry check */
+  checks?: CheckResult[];
   /** Whether an availability check is in progress */
   isChecking: boolean;
+  /** Whether the check in progress waits for the request scheduler's rate limit */
+  isWaitingForRateLimit?: boolean;
+  /** Whether the check waits for the browser to come back online */
+  isWaitingForConnection?: boolean;
+  /** Kind of owner holding the name (null = unknown) */
+  conflict?: ConflictType | null;
+  /** Packages proving the conflict */
+  evidence?: ConflictEvidence | null;
+  /** Placeholder packages holding a scope without live packages (null = none) */
+  conflictSubtype?: ConflictSubtype | null;
+  /** Near-identical name holding the conflict (null = the exact name) */
+  variant?: string | null;
+  /** When the result was originally checked, if it came from cache */
+  cachedAt?: Date | null;
   /** Additional CSS class names */
   className?: string;
 }
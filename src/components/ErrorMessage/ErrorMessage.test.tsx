@@ -82,6 +82,53 @@ describe('ErrorMessage', () => {
     expect(screen.getByText(/2023-01-01/)).toBeInTheDocument();
   });
 
+  it('shows the endpoint, CORS proxy and attempts in technical details', () => {
+    const apiError: ApiError = {
+      type: 'NETWORK_ERROR' as ApiErrorType,
+      message: 'Network error occurred',
+      endpoint: 'user-search',
+      proxy: 'corsmirror',
+      attempts: 3,
+      timestamp: new Date('2023-01-01T00:00:00Z'),
+    };
+    render(<ErrorMessage apiError={apiError} showTechnicalDetails />);
+
+    expect(screen.getByText('Endpoint: user-search')).toBeInTheDocument();
+    expect(screen.getByText('Proxy: corsmirror')).toBeInTheDocument();
+    expect(screen.getByText('Attempts: 3')).toBeInTheDocument();
+  });
+
+  it('shows the start of an invalid response body in technical details', () => {
+    const apiError: ApiError = {
+      type: 'INVALID_RESPONSE' as ApiErrorType,
+      message: 'Invalid response from user-search: body is not JSON',
+      endpoint: 'user-search',
+      responseSnippet: '<!DOCTYPE html><title>502 Bad Gateway</title>',
+      timestamp: new Date('2023-01-01T00:00:00Z'),
+    };
+    render(<ErrorMessage apiError={apiError} showTechnicalDetails />);
+
+    expect(
+      screen.getByText(
+        'Response: <!DOCTYPE html><title>502 Bad Gateway</title>',
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it('omits the endpoint, proxy and attempts from technical details when not provided', () => {
+    const apiError: ApiError = {
+      type: 'NETWORK_ERROR' as ApiErrorType,
+      message: 'Network error occurred',
+      timestamp: new Date('2023-01-01T00:00:00Z'),
+    };
+    render(<ErrorMessage apiError={apiError} showTechnicalDetails />);
+
+    expect(screen.queryByText(/Endpoint:/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Proxy:/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Attempts:/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Response:/)).not.toBeInTheDocument();
+  });
+
   it('hides technical details when disabled', () => {
     const apiError: ApiError = {
       type: 'NETWORK_ERROR' as ApiErrorType,
@@ -117,6 +164,8 @@ describe('ErrorMessage', () => {
       'NETWORK_ERROR',
       'TIMEOUT_ERROR',
       'SERVER_ERROR',
+      'RATE_LIMITED',
+      'PROXY_ERROR',
     ];
 
     recoverableErrors.forEach((errorType) => {
@@ -141,7 +190,12 @@ describe('ErrorMessage', () => {
   });
 
   it('does not show retry button for non-recoverable errors', () => {
-    const nonRecoverableErrors = ['CORS_ERROR', 'UNKNOWN_ERROR'];
+    const nonRecoverableErrors = [
+      'CORS_ERROR',
+      'NOT_FOUND',
+      'INVALID_RESPONSE',
+      'UNKNOWN_ERROR',
+    ];
 
     nonRecoverableErrors.forEach((errorType) => {
       const { unmount } = render(
@@ -191,4 +245,34 @@ describe('ErrorMessage', () => {
     const alert = screen.getByRole('alert');
     expect(alert).toHaveClass('text-red-600'); // Error color for contrast
   });
+
+  it('renders validation warnings in a polite status region', () => {
+    render(
+      <ErrorMessage
+        validationWarnings={['Underscores are discouraged', 'Long name']}
+      />,
+    );
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+    const status = screen.getByRole('status');
+    expect(status).toHaveAttribute('aria-live', 'polite');
+    expect(status).toHaveClass('text-amber-700');
+    expect(status).toHaveTextContent('Naming Advice');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+  });
+
+  it('renders validation warnings alongside errors', () => {
+    render(
+      <ErrorMessage
+        validationErrors={['Invalid characters']}
+        validationWarnings={['Underscores are discouraged']}
+      />,
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid characters');
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Underscores are discouraged',
+    );
+  });
 });
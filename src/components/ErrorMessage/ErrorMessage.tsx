@@ -5,6 +5,8 @@ import type { ErrorMessageProps } from './ErrorMessage.types';
  *
  * This component handles both user input validation errors and API-related errors:
  * - Validation errors: Real-time feedback on input format issues
+ * - Validation warnings: Naming advice that doesn't block the name, shown
+ *   separately in a softer style
  * - API errors: Network, server, or npm registry problems
  * - Retry functionality for recoverable errors
  * - Technical details for debugging (optional)
@@ -12,6 +14,7 @@ import type { ErrorMessageProps } from './ErrorMessage.types';
  * Display Priority:
  * 1. Validation errors (shown first, multiple errors supported)
  * 2. API errors (shown only if no validation errors)
+ * 3. Validation warnings (always shown below, in a polite status region)
  *
  * Accessibility Features:
  * - ARIA live region for screen reader announcements
@@ -23,6 +26,7 @@ import type { ErrorMessageProps } from './ErrorMessage.types';
  * ```tsx
  * <ErrorMessage
  *   validationErrors={['Name too short', 'Invalid characters']}
+ *   validationWarnings={['Names over 40 characters are hard to type and read']}
  *   apiError={networkError}
  *   showTechnicalDetails={true}
  *   onRetry={() => retryCheck()}
@@ -30,20 +34,26 @@ import type { ErrorMessageProps } from './ErrorMessage.types';
  * ```
  *
  * @param validationErrors - Array of validation error message strings
+ * @param validationWarnings - Array of validation warning message strings
  * @param apiError - API error object with type, message, and metadata
  * @param showTechnicalDetails - Whether to show technical error details (default: false)
  * @param onRetry - Optional callback for retry action on recoverable errors
  *
- * @returns Error display component or null if no errors present
+ * @returns Error display component or null if no errors or warnings present
  */
 export function ErrorMessage({
   validationErrors = [],
+  validationWarnings = [],
   apiError,
   showTechnicalDetails = false,
   onRetry,
 }: ErrorMessageProps) {
-  // Don't render anything if there are no errors
-  if (validationErrors.length === 0 && !apiError) {
+  // Don't render anything if there are no errors or warnings
+  if (
+    validationErrors.length === 0 &&
+    validationWarnings.length === 0 &&
+    !apiError
+  ) {
     return null;
   }
 
@@ -52,68 +62,112 @@ export function ErrorMessage({
   const currentError = showValidationErrors ? null : apiError;
 
   // Determine if retry should be shown
-  const recoverableErrors = ['NETWORK_ERROR', 'TIMEOUT_ERROR', 'SERVER_ERROR'];
+  const recoverableErrors = [
+    'NETWORK_ERROR',
+    'TIMEOUT_ERROR',
+    'SERVER_ERROR',
+    'RATE_LIMITED',
+    'PROXY_ERROR',
+  ];
   const showRetry =
     currentError && recoverableErrors.includes(currentError.type) && onRetry;
 
   return (
-    <div
-      role="alert"
-      aria-live="assertive"
-      className="animate-in fade-in text-red-600 duration-200 dark:text-red-400"
-    >
-      {showValidationErrors ? (
-        <div className="space-y-2">
+    <>
+      {(showValidationErrors || currentError) && (
+        <div
+          role="alert"
+          aria-live="assertive"
+          className="animate-in fade-in text-red-600 duration-200 dark:text-red-400"
+        >
+          {showValidationErrors ? (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <span className="text-lg" aria-hidden="true">
+                  ⚠️
+                </span>
+                <h3 className="font-medium">Validation Errors</h3>
+              </div>
+              <ul className="ml-6 list-inside list-disc space-y-1">
+                {validationErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            currentError && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <span className="text-lg" aria-hidden="true">
+                    ❌
+                  </span>
+                  <span className="font-medium">Error</span>
+                </div>
+                <div>{currentError.message}</div>
+
+                {showTechnicalDetails && (
+                  <details className="rounded-md border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-900/20">
+                    <summary className="cursor-pointer font-mono text-xs text-red-700 hover:text-red-900 dark:text-red-300 dark:hover:text-red-100">
+                      Technical Details
+                    </summary>
+                    <div className="mt-2 space-y-1 font-mono text-xs text-red-600 dark:text-red-400">
+                      <div>Type: {currentError.type}</div>
+                      {currentError.statusCode && (
+                        <div>Status Code: {currentError.statusCode}</div>
+                      )}
+                      {currentError.endpoint && (
+                        <div>Endpoint: {currentError.endpoint}</div>
+                      )}
+                      {currentError.proxy && (
+                        <div>Proxy: {currentError.proxy}</div>
+                      )}
+                      {currentError.attempts && (
+                        <div>Attempts: {currentError.attempts}</div>
+                      )}
+                      {currentError.responseSnippet && (
+                        <div>Response: {currentError.responseSnippet}</div>
+                      )}
+                      <div>
+                        Timestamp: {currentError.timestamp.toISOString()}
+                      </div>
+                    </div>
+                  </details>
+                )}
+
+                {showRetry && (
+                  <button
+                    type="button"
+                    onClick={onRetry}
+                    className="rounded-md bg-red-100 px-3 py-1.5 text-xs font-medium text-red-700 transition-colors hover:bg-red-200 focus:ring-2 focus:ring-red-500 focus:ring-offset-1 focus:outline-none dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50 dark:focus:ring-red-400"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {validationWarnings.length > 0 && (
+        <div
+          role="status"
+          aria-live="polite"
+          className="animate-in fade-in space-y-2 text-amber-700 duration-200 dark:text-amber-400"
+        >
           <div className="flex items-center space-x-2">
             <span className="text-lg" aria-hidden="true">
-              ⚠️
+              💡
             </span>
-            <h3 className="font-medium">Validation Errors</h3>
+            <h3 className="font-medium">Naming Advice</h3>
           </div>
           <ul className="ml-6 list-inside list-disc space-y-1">
-            {validationErrors.map((error) => (
-              <li key={error}>{error}</li>
+            {validationWarnings.map((warning) => (
+              <li key={warning}>{warning}</li>
             ))}
           </ul>
         </div>
-      ) : (
-        currentError && (
-          <div className="space-y-3">
-            <div className="flex items-center space-x-2">
-              <span className="text-lg" aria-hidden="true">
-                ❌
-              </span>
-              <span className="font-medium">Error</span>
-            </div>
-            <div>{currentError.message}</div>
-
-            {showTechnicalDetails && (
-              <details className="rounded-md border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-900/20">
-                <summary className="cursor-pointer font-mono text-xs text-red-700 hover:text-red-900 dark:text-red-300 dark:hover:text-red-100">
-                  Technical Details
-                </summary>
-                <div className="mt-2 space-y-1 font-mono text-xs text-red-600 dark:text-red-400">
-                  <div>Type: {currentError.type}</div>
-                  {currentError.statusCode && (
-                    <div>Status Code: {currentError.statusCode}</div>
-                  )}
-                  <div>Timestamp: {currentError.timestamp.toISOString()}</div>
-                </div>
-              </details>
-            )}
-
-            {showRetry && (
-              <button
-                type="button"
-                onClick={onRetry}
-                className="rounded-md bg-red-100 px-3 py-1.5 text-xs font-medium text-red-700 transition-colors hover:bg-red-200 focus:ring-2 focus:ring-red-500 focus:ring-offset-1 focus:outline-none dark:bg-red-900/30 dark:text-red-300 dark:hover:bg-red-900/50 dark:focus:ring-red-400"
-              >
-                Retry
-              </button>
-            )}
-          </div>
-        )
       )}
-    </div>
+    </>
   );
 }
@@ -3,6 +3,8 @@ import type { ApiError } from 'src/types';
 export interface ErrorMessageProps {
   /** Array of validation error messages */
   validationErrors?: string[];
+  /** Array of validation warning messages (naming advice that doesn't block the name) */
+  validationWarnings?: string[];
   /** API error object if present */
   apiError?: ApiError;
   /** Whether to show technical details */
@@ -1,5 +1,6 @@
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { createPolicyRules } from 'src/utils/namingPolicy';
 
 import { OrgNameChecker } from './OrgNameChecker';
 
@@ -9,6 +10,8 @@ vi.mock('src/hooks/useOrgNameValidator', () => ({
     value: '',
     isValid: false,
     validationErrors: [],
+    validationWarnings: [],
+    suggestion: null,
     isDirty: false,
     setValue: vi.fn(),
     reset: vi.fn(),
@@ -18,11 +21,22 @@ vi.mock('src/hooks/useOrgNameValidator', () => ({
 vi.mock('src/hooks/useAvailabilityChecker', () => ({
   useAvailabilityChecker: vi.fn(() => ({
     isAvailable: null,
+    status: null,
+    checks: [],
     isChecking: false,
+    isWaitingForRateLimit: false,
+    isOffline: false,
+    isWaitingForConnection: false,
     apiError: null,
     lastChecked: null,
     orgUrl: null,
+    conflict: null,
+    evidence: null,
+    conflictSubtype: null,
+    variant: null,
+    cachedAt: null,
     checkAvailability: vi.fn(),
+    refresh: vi.fn(),
     reset: vi.fn(),
   })),
 }));
@@ -37,6 +51,30 @@ describe('OrgNameChecker', () => {
     expect(input).toHaveAttribute('placeholder', 'Enter npm organization name');
   });
 
+  it('validates the name against the given rules', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const validationRules = createPolicyRules({ maxLength: 20 });
+
+    render(<OrgNameChecker validationRules={validationRules} />);
+
+    expect(useOrgNameValidator).toHaveBeenCalledWith({
+      rules: validationRules,
+    });
+  });
+
+  it('does not check punctuation variants by default', async () => {
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    render(<OrgNameChecker />);
+
+    expect(useAvailabilityChecker).toHaveBeenLastCalledWith({
+      debounceMs: 300,
+      checkVariants: false,
+    });
+  });
+
   it('does not auto-focus when autoFocus prop is false', () => {
     render(<OrgNameChecker autoFocus={false} />);
 
@@ -78,6 +116,8 @@ describe('OrgNameChecker', () => {
       value: 'test-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -85,11 +125,22 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: true,
+      status: 'available',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       orgUrl: 'https://www.npmjs.com/org/test-org',
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
     });
 
@@ -114,6 +165,8 @@ describe('OrgNameChecker', () => {
           message: 'must start with a letter',
         },
       ],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -140,6 +193,8 @@ describe('OrgNameChecker', () => {
           message: 'must start with a letter',
         },
       ],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -150,6 +205,42 @@ describe('OrgNameChecker', () => {
     expect(screen.getByText('must start with a letter')).toBeInTheDocument();
   });
 
+  it('offers a corrected name for invalid input', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { ValidationErrorType } = await import('src/types');
+
+    const mockSetValue = vi.fn();
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'My Org',
+      isValid: false,
+      validationErrors: [
+        {
+          type: ValidationErrorType.INVALID_CHARACTERS,
+          message: 'can only contain URL-safe characters',
+        },
+      ],
+      validationWarnings: [],
+      suggestion: 'my-org',
+      isDirty: true,
+      setValue: mockSetValue,
+      reset: vi.fn(),
+    });
+
+    const user = userEvent.setup();
+    render(<OrgNameChecker />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Did you mean my-org?' }),
+    );
+
+    expect(mockSetValue).toHaveBeenCalledWith('my-org');
+    expect(
+      screen.getByRole('textbox', { name: 'Organization name' }),
+    ).toHaveFocus();
+  });
+
   it('shows loading state during availability check', async () => {
     const { useOrgNameValidator } =
       await import('src/hooks/useOrgNameValidator');
@@ -160,6 +251,8 @@ describe('OrgNameChecker', () => {
       value: 'valid-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -167,12 +260,23 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: null,
+      status: null,
+      checks: [],
       isChecking: true,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: null,
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
     });
 
     render(<OrgNameChecker />);
@@ -181,6 +285,146 @@ describe('OrgNameChecker', () => {
     expect(screen.getByRole('status')).toBeInTheDocument();
   });
 
+  it('shows which punctuation variant holds the name', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'my-org',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: false,
+      status: 'taken',
+      checks: [{ check: 'variants', outcome: 'conflict' }],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: new Date(),
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+      orgUrl: null,
+      conflict: 'user',
+      evidence: {
+        owner: 'myorg',
+        url: 'https://www.npmjs.com/~myorg',
+        packages: [],
+        total: 0,
+      },
+      conflictSubtype: null,
+      variant: 'myorg',
+      cachedAt: null,
+    });
+
+    render(<OrgNameChecker checkVariants />);
+
+    expect(useAvailabilityChecker).toHaveBeenCalledWith({
+      debounceMs: 300,
+      checkVariants: true,
+    });
+    expect(
+      screen.getByText(/Taken as a near-identical variant:/),
+    ).toHaveTextContent('Taken as a near-identical variant: user myorg');
+  });
+
+  it('shows when the availability check waits for the rate limit', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'valid-org',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: null,
+      status: null,
+      checks: [],
+      isChecking: true,
+      isWaitingForRateLimit: true,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: null,
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+      orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByText('Waiting for rate limit...')).toBeInTheDocument();
+  });
+
+  it('displays the offline state while the check waits for the connection', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'valid-org',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: null,
+      status: null,
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: true,
+      isWaitingForConnection: true,
+      apiError: null,
+      lastChecked: null,
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+      orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByText('Offline')).toBeInTheDocument();
+  });
+
   it('displays available status for available names', async () => {
     const { useOrgNameValidator } =
       await import('src/hooks/useOrgNameValidator');
@@ -191,6 +435,8 @@ describe('OrgNameChecker', () => {
       value: 'available-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -198,12 +444,23 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: true,
+      status: 'available',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
     });
 
     render(<OrgNameChecker />);
@@ -222,6 +479,8 @@ describe('OrgNameChecker', () => {
       value: 'react',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -229,12 +488,23 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: false,
+      status: 'taken',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
     });
 
     render(<OrgNameChecker />);
@@ -253,6 +523,8 @@ describe('OrgNameChecker', () => {
       value: 'available-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -260,11 +532,22 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: true,
+      status: 'available',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       orgUrl: 'https://www.npmjs.com/org/available-org',
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
     });
 
@@ -286,6 +569,8 @@ describe('OrgNameChecker', () => {
       value: 'taken-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -293,11 +578,22 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: false,
+      status: 'taken',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       orgUrl: 'https://www.npmjs.com/org/taken-org',
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
     });
 
@@ -335,6 +631,8 @@ describe('OrgNameChecker', () => {
             message: 'must start with a letter',
           },
         ],
+        validationWarnings: [],
+        suggestion: null,
         isDirty: true,
         setValue: vi.fn(),
         reset: vi.fn(),
@@ -343,6 +641,8 @@ describe('OrgNameChecker', () => {
         value: 'valid-org',
         isValid: true,
         validationErrors: [],
+        validationWarnings: [],
+        suggestion: null,
         isDirty: true,
         setValue: vi.fn(),
         reset: vi.fn(),
@@ -374,6 +674,8 @@ describe('OrgNameChecker', () => {
       value: 'test-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -381,7 +683,12 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: null,
+      status: null,
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: {
         type: 'NETWORK_ERROR',
         message: 'Network error',
@@ -389,7 +696,13 @@ describe('OrgNameChecker', () => {
       },
       lastChecked: null,
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
       checkAvailability: mockCheckAvailability,
+      refresh: vi.fn(),
       reset: vi.fn(),
     });
 
@@ -402,6 +715,112 @@ describe('OrgNameChecker', () => {
     expect(mockCheckAvailability).toHaveBeenCalledWith('test-org');
   });
 
+  it('shows naming advice and still checks availability', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { ValidationErrorType } = await import('src/types');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    const mockCheckAvailability = vi.fn();
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'my_org',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [
+        {
+          type: ValidationErrorType.UNDERSCORE,
+          message: 'npm discourages underscores in names',
+        },
+      ],
+      suggestion: null,
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: null,
+      status: null,
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: null,
+      orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+      checkAvailability: mockCheckAvailability,
+      refresh: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'npm discourages underscores in names',
+    );
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(
+      screen.getByRole('textbox', { name: 'Organization name' }),
+    ).toHaveAttribute('aria-invalid', 'false');
+    expect(mockCheckAvailability).toHaveBeenCalledWith('my_org');
+  });
+
+  it('checks the trimmed name and offers it as a correction', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    const mockCheckAvailability = vi.fn();
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: ' acme ',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [],
+      suggestion: 'acme',
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: null,
+      status: null,
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: null,
+      orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+      checkAvailability: mockCheckAvailability,
+      refresh: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(mockCheckAvailability).toHaveBeenCalledWith('acme');
+    expect(
+      screen.getByRole('button', { name: 'Did you mean acme?' }),
+    ).toBeInTheDocument();
+  });
+
   it('does not call checkAvailability when retry button is clicked with empty input', async () => {
     const { useOrgNameValidator } =
       await import('src/hooks/useOrgNameValidator');
@@ -415,6 +834,8 @@ describe('OrgNameChecker', () => {
       value: '', // Empty input
       isValid: false,
       validationErrors: [], // No validation errors for empty input initially
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -422,7 +843,12 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: null,
+      status: null,
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: {
         type: 'NETWORK_ERROR',
         message: 'Network error',
@@ -430,7 +856,13 @@ describe('OrgNameChecker', () => {
       },
       lastChecked: null,
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
       checkAvailability: mockCheckAvailability,
+      refresh: vi.fn(),
       reset: vi.fn(),
     });
 
@@ -454,6 +886,8 @@ describe('OrgNameChecker', () => {
       value: 'test-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -461,12 +895,23 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: true,
+      status: 'available',
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: new Date(),
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
     });
 
     // Render without providing callback props
@@ -483,6 +928,8 @@ describe('OrgNameChecker', () => {
       value: 'test-org',
       isValid: true,
       validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
       isDirty: true,
       setValue: vi.fn(),
       reset: vi.fn(),
@@ -490,12 +937,23 @@ describe('OrgNameChecker', () => {
 
     vi.mocked(useAvailabilityChecker).mockReturnValue({
       isAvailable: null,
+      status: null,
+      checks: [],
       isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
       apiError: null,
       lastChecked: null,
       checkAvailability: vi.fn(),
+      refresh: vi.fn(),
       reset: vi.fn(),
       orgUrl: null,
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
     });
 
     render(<OrgNameChecker />);
@@ -505,4 +963,170 @@ describe('OrgNameChecker', () => {
       screen.getByRole('textbox', { name: 'Organization name' }),
     ).toBeInTheDocument();
   });
+
+  it('offers a refresh for results served from cache', async () => {
+    const { useOrgNameValidator } =
+      await import('src/hooks/useOrgNameValidator');
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+    const mockRefresh = vi.fn();
+
+    vi.mocked(useOrgNameValidator).mockReturnValue({
+      value: 'cached-org',
+      isValid: true,
+      validationErrors: [],
+      validationWarnings: [],
+      suggestion: null,
+      isDirty: true,
+      setValue: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: false,
+      status: 'taken',
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: new Date(),
+      orgUrl: 'https://www.npmjs.com/org/cached-org',
+      conflict: 'user',
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: new Date('2026-01-01T00:00:00Z'),
+      checkAvailability: vi.fn(),
+      refresh: mockRefresh,
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByText('(cached)')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not offer a refresh for fresh results', async () => {
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: true,
+      status: 'available',
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: new Date(),
+      orgUrl: 'https://www.npmjs.com/org/fresh-org',
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(
+      screen.queryByRole('button', { name: 'Refresh' }),
+    ).not.toBeInTheDocument();
+  });
+
+  it('says who holds a taken name with links to the packages', async () => {
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: false,
+      status: 'taken',
+      checks: [],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: new Date(),
+      orgUrl: 'https://www.npmjs.com/org/foo',
+      conflict: 'scope',
+      evidence: {
+        owner: '@foo',
+        url: 'https://www.npmjs.com/search?q=scope%3Afoo',
+        packages: [
+          { name: '@foo/bar', url: 'https://www.npmjs.com/package/@foo/bar' },
+        ],
+        total: 12,
+      },
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByText(/Taken:/)).toHaveTextContent(
+      'Taken: scope @foo has 12 packages',
+    );
+    expect(screen.getByRole('link', { name: '@foo/bar' })).toHaveAttribute(
+      'href',
+      'https://www.npmjs.com/package/@foo/bar',
+    );
+  });
+
+  it('shows which checks failed when availability is unknown', async () => {
+    const { useAvailabilityChecker } =
+      await import('src/hooks/useAvailabilityChecker');
+
+    vi.mocked(useAvailabilityChecker).mockReturnValue({
+      isAvailable: null,
+      status: 'unknown',
+      checks: [
+        { check: 'user', outcome: 'passed' },
+        {
+          check: 'scope',
+          outcome: 'failed',
+          error: {
+            type: 'NETWORK_ERROR',
+            message: 'Network error',
+            timestamp: new Date(),
+          },
+        },
+      ],
+      isChecking: false,
+      isWaitingForRateLimit: false,
+      isOffline: false,
+      isWaitingForConnection: false,
+      apiError: null,
+      lastChecked: new Date(),
+      orgUrl: 'https://www.npmjs.com/org/foo',
+      conflict: null,
+      evidence: null,
+      conflictSubtype: null,
+      variant: null,
+      cachedAt: null,
+      checkAvailability: vi.fn(),
+      refresh: vi.fn(),
+      reset: vi.fn(),
+    });
+
+    render(<OrgNameChecker />);
+
+    expect(screen.getByText('Unknown')).toBeInTheDocument();
+    expect(
+      screen.getByText('Scope lookup: failed (Network error)'),
+    ).toBeInTheDocument();
+  });
 });
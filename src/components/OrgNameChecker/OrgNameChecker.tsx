@@ -11,8 +11,12 @@ import type { OrgNameCheckerProps } from './OrgNameChecker.types';
  *
  * This component provides a complete interface for:
  * - Real-time input validation with immediate feedback
+ * - Naming advice (warnings) that doesn't block the availability check
+ * - A one-click "Did you mean" correction (e.g. `my-org` for `My Org`)
  * - Organization name availability checking via npm registry API
- * - Visual status indicators (available/unavailable/checking)
+ * - Visual status indicators (available/likely available/unknown/unavailable/checking)
+ * - Who holds a taken name, with links to the matching packages
+ * - Optionally, near-identical punctuation variants (e.g. my_org for my-org) that are taken
  * - Comprehensive error handling and display
  * - Full accessibility support (keyboard navigation, screen readers)
  *
@@ -30,6 +34,8 @@ import type { OrgNameCheckerProps } from './OrgNameChecker.types';
  * @param onValidationError - Optional callback fired when validation errors occur
  * @param placeholder - Placeholder text for the input field (default: "Enter npm organization name")
  * @param autoFocus - Whether the input should be auto-focused on mount (default: false)
+ * @param validationRules - Rules the name is validated against (default: npm's naming rules)
+ * @param checkVariants - Whether to also look up the name's punctuation variants, at extra registry requests per check (default: false)
  *
  * @returns A complete form interface with input, validation, and availability feedback
  */
@@ -38,6 +44,8 @@ export function OrgNameChecker({
   onValidationError,
   placeholder = 'Enter npm organization name',
   autoFocus = false,
+  validationRules,
+  checkVariants = false,
 }: OrgNameCheckerProps) {
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -45,11 +53,28 @@ export function OrgNameChecker({
     value: orgName,
     isValid,
     validationErrors,
+    validationWarnings,
+    suggestion,
     setValue: setOrgName,
-  } = useOrgNameValidator();
+  } = useOrgNameValidator({ rules: validationRules });
 
-  const { isAvailable, isChecking, apiError, orgUrl, checkAvailability } =
-    useAvailabilityChecker({ debounceMs: 300 });
+  const {
+    isAvailable,
+    status,
+    checks,
+    isChecking,
+    isWaitingForRateLimit,
+    isWaitingForConnection,
+    apiError,
+    orgUrl,
+    conflict,
+    evidence,
+    conflictSubtype,
+    variant,
+    cachedAt,
+    checkAvailability,
+    refresh,
+  } = useAvailabilityChecker({ debounceMs: 300, checkVariants });
 
   // Handle auto-focus
   useEffect(() => {
@@ -73,12 +98,15 @@ export function OrgNameChecker({
     setOrgName(value);
   };
 
+  // Validation ignores surrounding whitespace, so the check must as well
+  const trimmedName = orgName.trim();
+
   // Check organization availability only if validation passes
   useEffect(() => {
-    if (orgName && isValid) {
-      checkAvailability(orgName);
+    if (trimmedName && isValid) {
+      checkAvailability(trimmedName);
     }
-  }, [orgName, isValid, checkAvailability]);
+  }, [trimmedName, isValid, checkAvailability]);
 
   const errorId = validationErrors.length > 0 ? 'validation-errors' : undefined;
   const hasError = validationErrors.length > 0;
@@ -107,23 +135,65 @@ export function OrgNameChecker({
         />
       </div>
 
+      {/* Corrected Name Suggestion */}
+      {suggestion && (
+        <button
+          type="button"
+          onClick={() => {
+            setOrgName(suggestion);
+            inputRef.current?.focus();
+          }}
+          className="rounded-md px-2 py-1 text-sm text-gray-700 transition-colors hover:bg-blue-50 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:text-gray-300 dark:hover:bg-blue-900/30"
+        >
+          {'Did you mean '}
+          <code className="font-mono font-medium text-blue-600 dark:text-blue-400">
+            {suggestion}
+          </code>
+          ?
+        </button>
+      )}
+
       {/* Organization Validation Errors */}
       <ErrorMessage
         validationErrors={validationErrors.map((error) => error.message)}
+        validationWarnings={validationWarnings.map(
+          (warning) => warning.message,
+        )}
         apiError={apiError ?? undefined}
         showTechnicalDetails
         onRetry={() => {
-          if (orgName && isValid) {
-            checkAvailability(orgName);
+          if (trimmedName && isValid) {
+            checkAvailability(trimmedName);
           }
         }}
       />
 
       {/* Organization Availability Status */}
-      <AvailabilityIndicator
-        isAvailable={isAvailable}
-        isChecking={isChecking}
-      />
+      <div className="flex items-center gap-3">
+        <AvailabilityIndicator
+          isAvailable={isAvailable}
+          status={status}
+          checks={checks}
+          isChecking={isChecking}
+          isWaitingForRateLimit={isWaitingForRateLimit}
+          isWaitingForConnection={isWaitingForConnection}
+          conflict={conflict}
+          evidence={evidence}
+          conflictSubtype={conflictSubtype}
+          variant={variant}
+          cachedAt={cachedAt}
+        />
+
+        {cachedAt && !isChecking && (
+          <button
+            type="button"
+            onClick={refresh}
+            className="rounded-md px-2 py-1 text-xs font-medium text-blue-600 transition-colors hover:bg-blue-50 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:text-blue-400 dark:hover:bg-blue-900/30"
+          >
+            Refresh
+          </button>
+        )}
+      </div>
 
       {/* Organization URL Link */}
       {orgUrl && (
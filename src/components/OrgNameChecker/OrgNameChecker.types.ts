@@ -1,3 +1,5 @@
+import type { ValidationRule } from 'src/types';
+
 export interface OrgNameCheckerProps {
   /** Callback fired when availability status changes */
   onAvailabilityChange?: (isAvailable: boolean | null) => void;
@@ -7,4 +9,12 @@ export interface OrgNameCheckerProps {
   placeholder?: string;
   /** Whether the input should be auto-focused */
   autoFocus?: boolean;
+  /** Rules the name is validated against, e.g. npm's rules plus a team policy */
+  validationRules?: readonly ValidationRule[];
+  /**
+   * Whether to also look up the name's punctuation variants (costs extra
+   * requests). Only swaps or drops the separators in the name, so `my-org`
+   * finds `myorg` but `myorg` finds nothing.
+   */
+  checkVariants?: boolean;
 }
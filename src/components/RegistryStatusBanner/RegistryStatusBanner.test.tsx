@@ -0,0 +1,73 @@
+import { act, render, screen } from '@testing-library/react';
+import { createCircuitBreaker } from 'src/utils/circuitBreaker';
+
+import { RegistryStatusBanner } from './RegistryStatusBanner';
+
+describe('RegistryStatusBanner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const openCircuit = async () => {
+    const circuitBreaker = createCircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 30000,
+    });
+    await act(() =>
+      circuitBreaker
+        .run(() => Promise.reject(new Error('Unreachable')))
+        .catch(() => undefined),
+    );
+    return circuitBreaker;
+  };
+
+  it('renders nothing while the registry is reachable', () => {
+    render(<RegistryStatusBanner circuitBreaker={createCircuitBreaker()} />);
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('renders the next retry time while the circuit is open', async () => {
+    const circuitBreaker = await openCircuit();
+
+    render(
+      <RegistryStatusBanner
+        circuitBreaker={circuitBreaker}
+        className="custom-class"
+      />,
+    );
+
+    const alert = screen.getByRole('alert');
+    expect(alert).toHaveTextContent('The npm registry is unreachable.');
+    expect(alert).toHaveTextContent(
+      `Next retry at ${new Date(30000).toLocaleTimeString()}`,
+    );
+    expect(alert).toHaveClass('custom-class');
+    expect(
+      screen.getByText(new Date(30000).toLocaleTimeString()),
+    ).toHaveAttribute('dateTime', '1970-01-01T00:00:30.000Z');
+  });
+
+  it('updates when the cooldown ends and the registry recovers', async () => {
+    const circuitBreaker = await openCircuit();
+    render(<RegistryStatusBanner circuitBreaker={circuitBreaker} />);
+
+    await act(() => vi.advanceTimersByTimeAsync(30000));
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'The next check will retry the registry.',
+    );
+
+    await act(() => circuitBreaker.run(() => Promise.resolve()));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('follows the default registry client', () => {
+    render(<RegistryStatusBanner />);
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,64 @@
+import { useSyncExternalStore } from 'react';
+import { defaultRegistryClient } from 'src/utils/registryClient';
+
+import type { RegistryStatusBannerProps } from './RegistryStatusBanner.types';
+
+/**
+ * App-level banner shown while the registry circuit breaker is not closed.
+ *
+ * States:
+ * - Open: the registry is unreachable; shows when the next retry happens
+ * - Half-open: the cooldown is over; the next check retries the registry
+ * - Closed: nothing is rendered
+ *
+ * @example
+ * ```tsx
+ * <RegistryStatusBanner circuitBreaker={client.circuitBreaker} />
+ * ```
+ *
+ * @param circuitBreaker - Circuit breaker to report on
+ * @param className - Additional CSS class names for custom styling
+ *
+ * @returns Banner or empty fragment while the registry is reachable
+ */
+export function RegistryStatusBanner({
+  circuitBreaker = defaultRegistryClient.circuitBreaker,
+  className = '',
+}: RegistryStatusBannerProps) {
+  const state = useSyncExternalStore(
+    circuitBreaker.subscribe,
+    circuitBreaker.getState,
+  );
+
+  if (state.status === 'closed') {
+    return <></>;
+  }
+
+  const retryAt = new Date(state.retryAt);
+
+  return (
+    <div
+      role="alert"
+      aria-live="assertive"
+      className={`flex items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 p-4 text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300 ${className}`}
+    >
+      <span aria-hidden="true">⚠️</span>
+      <div>
+        <p className="font-medium">The npm registry is unreachable.</p>
+        <p className="text-sm">
+          {state.status === 'open' ? (
+            <>
+              {'Checks are paused. Next retry at '}
+              <time dateTime={retryAt.toISOString()}>
+                {retryAt.toLocaleTimeString()}
+              </time>
+              .
+            </>
+          ) : (
+            'The next check will retry the registry.'
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
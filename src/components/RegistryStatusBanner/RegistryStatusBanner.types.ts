@@ -0,0 +1,8 @@
+import type { CircuitBreaker } from 'src/utils/circuitBreaker';
+
+export interface RegistryStatusBannerProps {
+  /** Circuit breaker to report on (default: the default registry client's) */
+  circuitBreaker?: CircuitBreaker;
+  /** Additional CSS class names */
+  className?: string;
+}
@@ -0,0 +1,2 @@
+export { RegistryStatusBanner } from './RegistryStatusBanner';
+export type { RegistryStatusBannerProps } from './RegistryStatusBanner.types';
@@ -1,7 +1,18 @@
 import { act, renderHook } from '@testing-library/react';
 import { ApiErrorType } from 'src/types';
+import {
+  createAvailabilityCache,
+  defaultAvailabilityCache,
+} from 'src/utils/availabilityCache';
+import { OfflineError } from 'src/utils/errors';
 import type { NameAvailabilityResult } from 'src/utils/npmRegistry';
 import { checkNameAvailability, createApiError } from 'src/utils/npmRegistry';
+import {
+  createRegistryClient,
+  defaultRegistryClient,
+  DIRECT_CONNECTION,
+} from 'src/utils/registryClient';
+import { createRequestScheduler } from 'src/utils/requestScheduler';
 
 import { useAvailabilityChecker } from './useAvailabilityChecker';
 
@@ -34,7 +45,11 @@ describe('useAvailabilityChecker', () => {
   it('should check availability for valid organization name', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/test-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -59,13 +74,20 @@ describe('useAvailabilityChecker', () => {
     expect(result.current.orgUrl).toBe('https://www.npmjs.com/org/test-org');
     expect(result.current.apiError).toBeNull();
     expect(result.current.lastChecked).toBeInstanceOf(Date);
-    expect(mockCheckNameAvailability).toHaveBeenCalledWith('test-org');
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ client: defaultRegistryClient }),
+    );
   });
 
   it('should handle taken organization name', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'taken',
       isAvailable: false,
+      conflict: 'user',
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/taken-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -121,7 +143,11 @@ describe('useAvailabilityChecker', () => {
   it('should debounce availability checks', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/test-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -147,7 +173,10 @@ describe('useAvailabilityChecker', () => {
       await vi.runAllTimersAsync();
     });
 
-    expect(mockCheckNameAvailability).toHaveBeenCalledWith('test-org');
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ client: defaultRegistryClient }),
+    );
     expect(result.current.isChecking).toBe(false);
     expect(result.current.isAvailable).toBe(true);
     expect(result.current.orgUrl).toBe('https://www.npmjs.com/org/test-org');
@@ -156,7 +185,11 @@ describe('useAvailabilityChecker', () => {
   it('should cancel previous debounced check when new check is called', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/second-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -184,7 +217,10 @@ describe('useAvailabilityChecker', () => {
 
     // Should only check the second org name
     expect(mockCheckNameAvailability).toHaveBeenCalledTimes(1);
-    expect(mockCheckNameAvailability).toHaveBeenCalledWith('second-org');
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'second-org',
+      expect.objectContaining({ client: defaultRegistryClient }),
+    );
   });
 
   it('should not check availability for empty string', async () => {
@@ -230,7 +266,11 @@ describe('useAvailabilityChecker', () => {
   it('should reset state correctly', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/test-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -265,7 +305,11 @@ describe('useAvailabilityChecker', () => {
   it('should handle multiple rapid calls correctly', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/org3',
     };
     mockCheckNameAvailability.mockResolvedValue(mockResult);
@@ -290,7 +334,10 @@ describe('useAvailabilityChecker', () => {
 
     // Should only check the last one
     expect(mockCheckNameAvailability).toHaveBeenCalledTimes(1);
-    expect(mockCheckNameAvailability).toHaveBeenCalledWith('org3');
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'org3',
+      expect.objectContaining({ client: defaultRegistryClient }),
+    );
   });
 
   it('should clear previous error when new check succeeds', async () => {
@@ -319,7 +366,11 @@ describe('useAvailabilityChecker', () => {
 
     // Second call succeeds
     const mockSuccessResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/test-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockSuccessResult);
@@ -340,7 +391,11 @@ describe('useAvailabilityChecker', () => {
   it('should use default debounce time when not specified', async () => {
     const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
     const mockResult: NameAvailabilityResult = {
+      status: 'likely-available',
       isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
       orgUrl: 'https://www.npmjs.com/org/test-org',
     };
     mockCheckNameAvailability.mockResolvedValueOnce(mockResult);
@@ -360,7 +415,10 @@ describe('useAvailabilityChecker', () => {
       await vi.runAllTimersAsync();
     });
 
-    expect(mockCheckNameAvailability).toHaveBeenCalledWith('test-org');
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ client: defaultRegistryClient }),
+    );
   });
 
   it('should handle error in performCheck function correctly', async () => {
@@ -395,4 +453,923 @@ describe('useAvailabilityChecker', () => {
     expect(result.current.lastChecked).toBeNull();
     expect(mockCreateApiError).toHaveBeenCalledWith(testError);
   });
+
+  it('should check availability against a custom registry client', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const client = createRegistryClient({
+      registryUrl: 'http://localhost:4873',
+      replicateUrl: 'http://localhost:4873',
+      websiteUrl: 'http://localhost:4873',
+      proxies: [DIRECT_CONNECTION],
+    });
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'likely-available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'http://localhost:4873/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0, client }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ client }),
+    );
+    expect(result.current.orgUrl).toBe('http://localhost:4873/org/test-org');
+  });
+
+  it('should flag a check held back by the rate limit', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const scheduler = createRequestScheduler();
+    const client = createRegistryClient({ scheduler });
+    mockCheckNameAvailability.mockImplementationOnce(
+      () => new Promise(() => undefined),
+    );
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0, client }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ priority: 'interactive' }),
+    );
+    expect(result.current.isWaitingForRateLimit).toBe(false);
+
+    act(() => {
+      scheduler.backOff('https://registry.npmjs.com', 1000);
+      void scheduler.schedule('https://registry.npmjs.com/-/v1/search', () =>
+        Promise.resolve(),
+      );
+    });
+
+    expect(result.current.isWaitingForRateLimit).toBe(true);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(result.current.isWaitingForRateLimit).toBe(false);
+    expect(result.current.isChecking).toBe(true);
+  });
+
+  it('should expose the conflict and its evidence', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const evidence = {
+      owner: '@foo',
+      url: 'https://www.npmjs.com/search?q=scope%3Afoo',
+      packages: [
+        { name: '@foo/bar', url: 'https://www.npmjs.com/package/@foo/bar' },
+      ],
+      total: 12,
+    };
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'scope',
+      evidence,
+      checks: [
+        { check: 'user', outcome: 'passed' },
+        { check: 'scope', outcome: 'conflict' },
+      ],
+      orgUrl: 'https://www.npmjs.com/org/foo',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0 }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('foo');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(result.current.conflict).toBe('scope');
+    expect(result.current.evidence).toEqual(evidence);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.conflict).toBeNull();
+    expect(result.current.evidence).toBeNull();
+  });
+
+  it('should expose the conflict sub-type of a reserved scope', async () => {
+    vi.mocked(checkNameAvailability).mockResolvedValueOnce({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'scope',
+      evidence: {
+        owner: '@foo',
+        url: 'https://www.npmjs.com/search?q=scope%3Afoo',
+        packages: [
+          {
+            name: '@foo/bar',
+            url: 'https://www.npmjs.com/package/@foo/bar',
+            state: 'unpublished',
+          },
+        ],
+        total: 1,
+      },
+      conflictSubtype: 'unpublished',
+      checks: [{ check: 'scope', outcome: 'conflict' }],
+      orgUrl: 'https://www.npmjs.com/org/foo',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0 }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('foo');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(result.current.conflictSubtype).toBe('unpublished');
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.conflictSubtype).toBeNull();
+  });
+
+  it('should check variants when asked and expose the held variant', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'scope',
+      evidence: {
+        owner: '@my_org',
+        url: 'https://www.npmjs.com/search?q=scope%3Amy_org',
+        packages: [],
+        total: 1,
+      },
+      variant: 'my_org',
+      checks: [{ check: 'variants', outcome: 'conflict' }],
+      orgUrl: 'https://www.npmjs.com/org/my-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0, checkVariants: true }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('my-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'my-org',
+      expect.objectContaining({ checkVariants: true }),
+    );
+    expect(result.current.variant).toBe('my_org');
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.variant).toBeNull();
+  });
+
+  it('should expose the status and the per-check breakdown', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const checks: NameAvailabilityResult['checks'] = [
+      { check: 'user', outcome: 'passed' },
+      {
+        check: 'scope',
+        outcome: 'failed',
+        error: {
+          type: ApiErrorType.NETWORK_ERROR,
+          message: 'Network error',
+          timestamp: new Date(),
+        },
+      },
+    ];
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'unknown',
+      isAvailable: null,
+      conflict: null,
+      evidence: null,
+      checks,
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0 }),
+    );
+
+    expect(result.current.status).toBeNull();
+    expect(result.current.checks).toEqual([]);
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(result.current.status).toBe('unknown');
+    expect(result.current.isAvailable).toBeNull();
+    expect(result.current.checks).toEqual(checks);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.status).toBeNull();
+    expect(result.current.checks).toEqual([]);
+  });
+
+  it('should pass the check strategy to the availability check', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'likely-available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0, strategy: 'parallel' }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ strategy: 'parallel' }),
+    );
+  });
+
+  it('should use the shared availability cache by default', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'likely-available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0 }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith('test-org', {
+      client: defaultRegistryClient,
+      retry: undefined,
+      strategy: undefined,
+      scopeLookup: undefined,
+      priority: 'interactive',
+      cache: defaultAvailabilityCache,
+      forceRefresh: false,
+      offline: false,
+      signal: expect.any(AbortSignal) as AbortSignal,
+    });
+    expect(result.current.cachedAt).toBeNull();
+  });
+
+  it('should disable caching when cache is null', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'likely-available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0, cache: null }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ cache: undefined }),
+    );
+  });
+
+  it('should expose when a result came from cache', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const cachedAt = new Date('2026-01-01T00:00:00Z');
+    mockCheckNameAvailability.mockResolvedValueOnce({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'user',
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+      cachedAt,
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 0 }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(result.current.cachedAt).toBe(cachedAt);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.cachedAt).toBeNull();
+  });
+
+  it('should force refresh the last name bypassing the cache', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    const cache = createAvailabilityCache({ store: null });
+    mockCheckNameAvailability
+      .mockResolvedValueOnce({
+        status: 'taken',
+        isAvailable: false,
+        conflict: 'user',
+        evidence: null,
+        checks: [],
+        orgUrl: 'https://www.npmjs.com/org/test-org',
+        cachedAt: new Date('2026-01-01T00:00:00Z'),
+      })
+      .mockResolvedValueOnce({
+        status: 'likely-available',
+        isAvailable: true,
+        conflict: null,
+        evidence: null,
+        checks: [],
+        orgUrl: 'https://www.npmjs.com/org/test-org',
+      });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 300, cache }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    act(() => {
+      result.current.refresh();
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenLastCalledWith(
+      'test-org',
+      expect.objectContaining({ cache, forceRefresh: true }),
+    );
+    expect(result.current.isAvailable).toBe(true);
+    expect(result.current.cachedAt).toBeNull();
+  });
+
+  it('should cancel a pending debounced check on refresh', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+    mockCheckNameAvailability.mockResolvedValue({
+      status: 'likely-available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    });
+
+    const { result } = renderHook(() =>
+      useAvailabilityChecker({ debounceMs: 300 }),
+    );
+
+    act(() => {
+      result.current.checkAvailability('test-org');
+      result.current.refresh();
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).toHaveBeenCalledTimes(1);
+    expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+      'test-org',
+      expect.objectContaining({ forceRefresh: true }),
+    );
+  });
+
+  it('should not refresh before any name was checked', async () => {
+    const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+
+    const { result } = renderHook(() => useAvailabilityChecker());
+
+    act(() => {
+      result.current.refresh();
+    });
+
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(mockCheckNameAvailability).not.toHaveBeenCalled();
+  });
+
+  describe('cancellation', () => {
+    const createDeferred = () => {
+      let resolve!: (result: NameAvailabilityResult) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<NameAvailabilityResult>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    const getSignal = (call: number) =>
+      vi.mocked(checkNameAvailability).mock.calls[call][1]?.signal;
+
+    it('should drop the result of a superseded check', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      const slow = createDeferred();
+      mockCheckNameAvailability
+        .mockReturnValueOnce(slow.promise)
+        .mockResolvedValueOnce({
+          status: 'taken',
+          isAvailable: false,
+          conflict: 'user',
+          evidence: null,
+          checks: [],
+          orgUrl: 'https://www.npmjs.com/org/react',
+        });
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('reac');
+        result.current.checkAvailability('react');
+      });
+
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(getSignal(0)?.aborted).toBe(true);
+      expect(getSignal(1)?.aborted).toBe(false);
+
+      await act(async () => {
+        slow.resolve({
+          status: 'likely-available',
+          isAvailable: true,
+          conflict: null,
+          evidence: null,
+          checks: [],
+          orgUrl: 'https://www.npmjs.com/org/reac',
+        });
+        await vi.runAllTimersAsync();
+      });
+
+      expect(result.current.isAvailable).toBe(false);
+      expect(result.current.orgUrl).toBe('https://www.npmjs.com/org/react');
+      expect(result.current.isChecking).toBe(false);
+    });
+
+    it('should ignore errors of a superseded check', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      const slow = createDeferred();
+      mockCheckNameAvailability
+        .mockReturnValueOnce(slow.promise)
+        .mockResolvedValueOnce({
+          status: 'likely-available',
+          isAvailable: true,
+          conflict: null,
+          evidence: null,
+          checks: [],
+          orgUrl: 'https://www.npmjs.com/org/react',
+        });
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('reac');
+        result.current.checkAvailability('react');
+      });
+
+      await act(async () => {
+        slow.reject(new DOMException('Aborted', 'AbortError'));
+        await vi.runAllTimersAsync();
+      });
+
+      expect(createApiError).not.toHaveBeenCalled();
+      expect(result.current.apiError).toBeNull();
+      expect(result.current.isAvailable).toBe(true);
+    });
+
+    it('should stop checking when new input supersedes a pending check', () => {
+      vi.mocked(checkNameAvailability).mockReturnValueOnce(
+        createDeferred().promise,
+      );
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 300 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('reac');
+        vi.advanceTimersByTime(300);
+      });
+
+      expect(result.current.isChecking).toBe(true);
+
+      act(() => {
+        result.current.checkAvailability('react');
+      });
+
+      expect(getSignal(0)?.aborted).toBe(true);
+      expect(result.current.isChecking).toBe(false);
+    });
+
+    it('should abort the pending check on refresh', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability
+        .mockReturnValueOnce(createDeferred().promise)
+        .mockResolvedValueOnce({
+          status: 'likely-available',
+          isAvailable: true,
+          conflict: null,
+          evidence: null,
+          checks: [],
+          orgUrl: 'https://www.npmjs.com/org/test-org',
+        });
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+        result.current.refresh();
+      });
+
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(getSignal(0)?.aborted).toBe(true);
+      expect(result.current.isAvailable).toBe(true);
+    });
+
+    it('should abort the pending check on reset', () => {
+      vi.mocked(checkNameAvailability).mockReturnValueOnce(
+        createDeferred().promise,
+      );
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+        result.current.reset();
+      });
+
+      expect(getSignal(0)?.aborted).toBe(true);
+      expect(result.current.isChecking).toBe(false);
+    });
+
+    it('should abort the pending check on unmount', () => {
+      vi.mocked(checkNameAvailability).mockReturnValueOnce(
+        createDeferred().promise,
+      );
+
+      const { result, unmount } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+
+      unmount();
+
+      expect(getSignal(0)?.aborted).toBe(true);
+    });
+
+    it('should cancel the pending debounced check on unmount', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+
+      const { result, unmount } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 300 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+
+      unmount();
+
+      await vi.runAllTimersAsync();
+
+      expect(mockCheckNameAvailability).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offline', () => {
+    const availableResult: NameAvailabilityResult = {
+      status: 'available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [],
+      orgUrl: 'https://www.npmjs.com/org/test-org',
+    };
+
+    const setOnline = (isOnline: boolean) => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(isOnline);
+      window.dispatchEvent(new Event(isOnline ? 'online' : 'offline'));
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should follow the browser connectivity', () => {
+      const { result } = renderHook(() => useAvailabilityChecker());
+
+      expect(result.current.isOffline).toBe(false);
+
+      act(() => {
+        setOnline(false);
+      });
+      expect(result.current.isOffline).toBe(true);
+
+      act(() => {
+        setOnline(true);
+      });
+      expect(result.current.isOffline).toBe(false);
+    });
+
+    it('should serve cached results while offline', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability.mockResolvedValueOnce({
+        ...availableResult,
+        cachedAt: new Date(0),
+      });
+      setOnline(false);
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(mockCheckNameAvailability).toHaveBeenCalledWith(
+        'test-org',
+        expect.objectContaining({ offline: true }),
+      );
+      expect(result.current.isAvailable).toBe(true);
+      expect(result.current.cachedAt).toEqual(new Date(0));
+      expect(result.current.isWaitingForConnection).toBe(false);
+    });
+
+    it('should queue the latest uncached name and check it when back online', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability
+        .mockRejectedValueOnce(new OfflineError('first-org'))
+        .mockRejectedValueOnce(new OfflineError('test-org'))
+        .mockResolvedValueOnce(availableResult);
+      setOnline(false);
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('first-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(result.current.isWaitingForConnection).toBe(true);
+      expect(result.current.apiError).toBeNull();
+      expect(result.current.isAvailable).toBeNull();
+
+      act(() => {
+        setOnline(true);
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(mockCheckNameAvailability).toHaveBeenCalledTimes(3);
+      expect(mockCheckNameAvailability).toHaveBeenLastCalledWith(
+        'test-org',
+        expect.objectContaining({ offline: false, forceRefresh: false }),
+      );
+      expect(result.current.isWaitingForConnection).toBe(false);
+      expect(result.current.isAvailable).toBe(true);
+    });
+
+    it('should queue a check whose request failed after going offline', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability.mockImplementationOnce(() => {
+        setOnline(false);
+        return Promise.reject(new TypeError('Failed to fetch'));
+      });
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(result.current.isWaitingForConnection).toBe(true);
+      expect(result.current.apiError).toBeNull();
+      expect(createApiError).not.toHaveBeenCalled();
+    });
+
+    it('should keep the shown result when refreshing while offline', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability
+        .mockResolvedValueOnce({ ...availableResult, cachedAt: new Date(0) })
+        .mockResolvedValueOnce(availableResult);
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+      act(() => {
+        setOnline(false);
+      });
+      act(() => {
+        result.current.refresh();
+      });
+
+      expect(mockCheckNameAvailability).toHaveBeenCalledTimes(1);
+      expect(result.current.isWaitingForConnection).toBe(true);
+      expect(result.current.isAvailable).toBe(true);
+      expect(result.current.cachedAt).toEqual(new Date(0));
+
+      act(() => {
+        setOnline(true);
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(mockCheckNameAvailability).toHaveBeenLastCalledWith(
+        'test-org',
+        expect.objectContaining({ forceRefresh: true, offline: false }),
+      );
+      expect(result.current.isWaitingForConnection).toBe(false);
+      expect(result.current.cachedAt).toBeNull();
+    });
+
+    it('should keep the shown result when a refresh fails after going offline', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability
+        .mockResolvedValueOnce(availableResult)
+        .mockImplementationOnce(() => {
+          setOnline(false);
+          return Promise.reject(new TypeError('Failed to fetch'));
+        });
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+      act(() => {
+        result.current.refresh();
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+
+      expect(result.current.isWaitingForConnection).toBe(true);
+      expect(result.current.isAvailable).toBe(true);
+      expect(result.current.apiError).toBeNull();
+      expect(result.current.isChecking).toBe(false);
+    });
+
+    it('should drop the queued check on reset', async () => {
+      const mockCheckNameAvailability = vi.mocked(checkNameAvailability);
+      mockCheckNameAvailability.mockRejectedValueOnce(
+        new OfflineError('test-org'),
+      );
+      setOnline(false);
+
+      const { result } = renderHook(() =>
+        useAvailabilityChecker({ debounceMs: 0 }),
+      );
+
+      act(() => {
+        result.current.checkAvailability('test-org');
+      });
+      await act(async () => {
+        await vi.runAllTimersAsync();
+      });
+      act(() => {
+        result.current.reset();
+      });
+      act(() => {
+        setOnline(true);
+      });
+
+      expect(result.current.isWaitingForConnection).toBe(false);
+      expect(mockCheckNameAvailability).toHaveBeenCalledTimes(1);
+    });
+  });
 });
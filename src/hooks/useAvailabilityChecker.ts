@@ -1,31 +1,112 @@
-import { useCallback, useRef, useState } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 import { DEFAULT_DEBOUNCE_MS } from 'src/constants';
-import type { ApiError } from 'src/types';
-import type { NameAvailabilityResult } from 'src/utils/npmRegistry';
+import type {
+  ApiError,
+  AvailabilityStatus,
+  CheckResult,
+  ConflictEvidence,
+  ConflictSubtype,
+  ConflictType,
+} from 'src/types';
+import type { AvailabilityCache } from 'src/utils/availabilityCache';
+import { defaultAvailabilityCache } from 'src/utils/availabilityCache';
+import { OfflineError } from 'src/utils/errors';
+import type {
+  CheckStrategy,
+  NameAvailabilityResult,
+  ScopeLookup,
+} from 'src/utils/npmRegistry';
 import { checkNameAvailability, createApiError } from 'src/utils/npmRegistry';
+import type { RegistryClient } from 'src/utils/registryClient';
+import { defaultRegistryClient } from 'src/utils/registryClient';
+import type { RequestPriority } from 'src/utils/requestScheduler';
+import type { RetryOptions } from 'src/utils/retry';
 
 interface UseAvailabilityCheckerOptions {
   /** Debounce delay in milliseconds for availability checks (default: 300) */
   debounceMs?: number;
+  /** Registry client used for availability checks (default: public npm registry) */
+  client?: RegistryClient;
+  /** Backoff settings for retrying transient registry failures */
+  retry?: RetryOptions;
+  /** How the user, org and scope checks are scheduled (default: sequential) */
+  strategy?: CheckStrategy;
+  /** How the scope check lists the packages of a scope (default: replicate) */
+  scopeLookup?: ScopeLookup;
+  /**
+   * Whether to also check the punctuation variants of the name (default: false).
+   * Only swaps or drops the separators in the name, so `my-org` finds `myorg`
+   * but `myorg` finds nothing.
+   */
+  checkVariants?: boolean;
+  /** Scheduler lane of the registry requests (default: interactive) */
+  priority?: RequestPriority;
+  /** Cache for availability results (default: shared memory + persistent cache, null = disabled) */
+  cache?: AvailabilityCache | null;
 }
 
 interface UseAvailabilityCheckerReturn {
-  /** Whether the organization name is available (null = not checked yet) */
+  /** Whether the organization name is available (null = not checked yet or unknown) */
   isAvailable: boolean | null;
+  /** Overall availability status (null = not checked yet) */
+  status: AvailabilityStatus | null;
+  /** Outcome of each registry check of the last result */
+  checks: CheckResult[];
   /** Whether an availability check is currently in progress */
   isChecking: boolean;
+  /** Whether the check in progress waits for the request scheduler's rate limit */
+  isWaitingForRateLimit: boolean;
+  /** Whether the browser is offline */
+  isOffline: boolean;
+  /** Whether the last name (or a refresh) is checked once back online */
+  isWaitingForConnection: boolean;
   /** API error from last check (null = no error) */
   apiError: ApiError | null;
   /** Timestamp of the last successful availability check */
   lastChecked: Date | null;
   /** URL to the potential npm organization page */
   orgUrl: string | null;
+  /** Kind of owner holding the name (null = available or not checked) */
+  conflict: ConflictType | null;
+  /** Packages proving the conflict (null = no conflict) */
+  evidence: ConflictEvidence | null;
+  /** Placeholder packages holding a scope without live packages (null = none) */
+  conflictSubtype: ConflictSubtype | null;
+  /** Near-identical name holding the conflict (null = the exact name or no conflict) */
+  variant: string | null;
+  /** When the shown result was originally checked, if it came from cache */
+  cachedAt: Date | null;
   /** Function to trigger availability check for an organization name */
   checkAvailability: (orgName: string) => void;
+  /** Function to re-check the last organization name, bypassing the cache */
+  refresh: () => void;
   /** Function to reset the hook to initial state */
   reset: () => void;
 }
 
+interface QueuedCheck {
+  orgName: string;
+  forceRefresh: boolean;
+}
+
+// Browser connectivity, kept in sync with the online and offline events
+const subscribeToConnectivity = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+const getIsOnline = () => navigator.onLine;
+
 /**
  * React hook for checking npm organization name availability with debouncing.
  *
@@ -34,14 +115,23 @@ interface UseAvailabilityCheckerReturn {
  *
  * Key Features:
  * - Debounced API calls (300ms default) to prevent excessive requests
- * - Automatic cancellation of pending requests on new input
+ * - Automatic cancellation of pending requests on new input and unmount
+ * - Results of superseded checks are dropped, so they never overwrite newer ones
  * - Comprehensive error handling for network issues, timeouts, and server errors
+ * - Partial results when only some registry checks fail (status "unknown")
+ * - Transient registry failures retried with exponential backoff
  * - Loading state management for UI feedback
- * - Timestamp tracking for cache invalidation
+ * - Conflict reason (user, scope or org) with the packages proving it
+ * - Cached results (memory + IndexedDB/localStorage) with a force refresh path
+ * - Requests sent in the interactive scheduler lane, ahead of background work,
+ *   with a "waiting for rate limit" flag while the scheduler holds them back
+ * - Offline detection via navigator.onLine: cached results are still served,
+ *   and the latest uncached name is checked once the connection comes back.
+ *   A refresh while offline keeps the shown result and runs once back online
  *
  * API Integration:
- * - Uses corsmirror.com as CORS proxy for npm registry access
- * - Makes HTTP HEAD requests to npmjs.com/org/\{name\}
+ * - Sends requests through the given registry client (public npm registry by default)
+ * - Uses corsmirror.com as CORS proxy for npm registry access by default
  * - Handles various error scenarios gracefully
  *
  * Performance Optimizations:
@@ -55,52 +145,172 @@ interface UseAvailabilityCheckerReturn {
 export function useAvailabilityChecker(
   options: UseAvailabilityCheckerOptions = {},
 ): UseAvailabilityCheckerReturn {
-  const { debounceMs = DEFAULT_DEBOUNCE_MS } = options;
+  const {
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    client = defaultRegistryClient,
+    retry,
+    strategy,
+    scopeLookup,
+    checkVariants,
+    priority = 'interactive',
+    cache = defaultAvailabilityCache,
+  } = options;
 
   const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
+  const [status, setStatus] = useState<AvailabilityStatus | null>(null);
+  const [checks, setChecks] = useState<CheckResult[]>([]);
   const [isChecking, setIsChecking] = useState(false);
   const [apiError, setApiError] = useState<ApiError | null>(null);
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
   const [orgUrl, setOrgUrl] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<ConflictType | null>(null);
+  const [evidence, setEvidence] = useState<ConflictEvidence | null>(null);
+  const [conflictSubtype, setConflictSubtype] =
+    useState<ConflictSubtype | null>(null);
+  const [variant, setVariant] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [isWaitingForConnection, setIsWaitingForConnection] = useState(false);
+  const schedulerState = useSyncExternalStore(
+    client.scheduler.subscribe,
+    client.scheduler.getState,
+  );
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, getIsOnline);
 
-  // Use refs to track the latest timeout and debounced value
+  // Use refs to track the latest timeout, debounced value and pending check
   const timeoutRef = useRef<number | null>(null);
   const debouncedNameRef = useRef<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const queuedCheckRef = useRef<QueuedCheck | null>(null);
 
-  const performCheck = useCallback(async (orgName: string) => {
-    /* v8 ignore start */
-    if (!orgName.trim()) {
-      return;
+  const clearPendingTimeout = useCallback(() => {
+    if (timeoutRef.current !== null) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
     }
-    /* v8 ignore end */
-
-    setIsChecking(true);
-    setApiError(null);
+  }, []);
 
-    try {
-      const result: NameAvailabilityResult =
-        await checkNameAvailability(orgName);
-      setIsAvailable(result.isAvailable);
-      setOrgUrl(result.orgUrl);
-      setLastChecked(new Date());
-      setApiError(null);
-    } catch (error) {
-      const apiErr = createApiError(error as Error);
-      setApiError(apiErr);
-      setIsAvailable(null);
-      setOrgUrl(null);
-      setLastChecked(null);
-    } finally {
+  const abortPendingCheck = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
       setIsChecking(false);
     }
   }, []);
 
+  // Cancel pending timeouts and requests on unmount
+  useEffect(
+    () => () => {
+      clearPendingTimeout();
+      abortControllerRef.current?.abort();
+    },
+    [clearPendingTimeout],
+  );
+
+  const performCheck = useCallback(
+    async (orgName: string, forceRefresh = false) => {
+      /* v8 ignore start */
+      if (!orgName.trim()) {
+        return;
+      }
+      /* v8 ignore end */
+
+      // Supersede the previous check so its result can never land later
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsChecking(true);
+      setIsWaitingForConnection(false);
+      setApiError(null);
+
+      try {
+        const result: NameAvailabilityResult = await checkNameAvailability(
+          orgName,
+          {
+            client,
+            retry,
+            strategy,
+            scopeLookup,
+            checkVariants,
+            priority,
+            cache: cache ?? undefined,
+            forceRefresh,
+            offline: !getIsOnline(),
+            signal: controller.signal,
+          },
+        );
+
+        // Drop results of superseded checks
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        setIsAvailable(result.isAvailable);
+        setStatus(result.status);
+        setChecks(result.checks);
+        setOrgUrl(result.orgUrl);
+        setConflict(result.conflict);
+        setEvidence(result.evidence);
+        setConflictSubtype(result.conflictSubtype ?? null);
+        setVariant(result.variant ?? null);
+        setCachedAt(result.cachedAt ?? null);
+        setLastChecked(new Date());
+        setApiError(null);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        // Queue the name instead of reporting an error while offline
+        const isOffline = error instanceof OfflineError || !getIsOnline();
+        if (isOffline) {
+          queuedCheckRef.current = { orgName, forceRefresh };
+          setIsWaitingForConnection(true);
+
+          // A refresh keeps the result it was meant to update
+          if (forceRefresh) {
+            return;
+          }
+        }
+
+        setApiError(isOffline ? null : createApiError(error as Error));
+        setIsAvailable(null);
+        setStatus(null);
+        setChecks([]);
+        setOrgUrl(null);
+        setConflict(null);
+        setEvidence(null);
+        setConflictSubtype(null);
+        setVariant(null);
+        setCachedAt(null);
+        setLastChecked(null);
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsChecking(false);
+        }
+      }
+    },
+    [client, retry, strategy, scopeLookup, checkVariants, priority, cache],
+  );
+
+  // Check the queued name once the connection comes back
+  useEffect(() => {
+    const queued = queuedCheckRef.current;
+
+    if (isOnline && queued) {
+      queuedCheckRef.current = null;
+      void performCheck(queued.orgName, queued.forceRefresh);
+    }
+  }, [isOnline, performCheck]);
+
   const checkAvailabilityDebounced = useCallback(
     (orgName: string) => {
-      // Clear existing timeout
-      if (timeoutRef.current !== null) {
-        clearTimeout(timeoutRef.current);
-      }
+      // Clear existing timeout and cancel the check for the previous name
+      clearPendingTimeout();
+      abortPendingCheck();
+      queuedCheckRef.current = null;
+      setIsWaitingForConnection(false);
 
       // Store the debounced name
       debouncedNameRef.current = orgName;
@@ -121,30 +331,66 @@ export function useAvailabilityChecker(
         void performCheck(debouncedNameRef.current);
       }, debounceMs);
     },
-    [debounceMs, performCheck],
+    [debounceMs, performCheck, clearPendingTimeout, abortPendingCheck],
   );
 
-  const reset = useCallback(() => {
-    if (timeoutRef.current !== null) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
+  const refresh = useCallback(() => {
+    clearPendingTimeout();
+    const orgName = debouncedNameRef.current;
+
+    if (!orgName.trim()) {
+      return;
     }
 
+    // Keep the shown result and refresh it once the connection comes back
+    if (!getIsOnline()) {
+      queuedCheckRef.current = { orgName, forceRefresh: true };
+      setIsWaitingForConnection(true);
+      return;
+    }
+
+    void performCheck(orgName, true);
+  }, [performCheck, clearPendingTimeout]);
+
+  const reset = useCallback(() => {
+    clearPendingTimeout();
+    abortPendingCheck();
+
     setIsAvailable(null);
+    setStatus(null);
+    setChecks([]);
     setIsChecking(false);
     setApiError(null);
     setLastChecked(null);
     setOrgUrl(null);
+    setConflict(null);
+    setEvidence(null);
+    setConflictSubtype(null);
+    setVariant(null);
+    setCachedAt(null);
+    setIsWaitingForConnection(false);
     debouncedNameRef.current = '';
-  }, []);
+    queuedCheckRef.current = null;
+  }, [clearPendingTimeout, abortPendingCheck]);
 
   return {
     isAvailable,
+    status,
+    checks,
     isChecking,
+    isWaitingForRateLimit: isChecking && schedulerState.rateLimited,
+    isOffline: !isOnline,
+    isWaitingForConnection,
     apiError,
     lastChecked,
     orgUrl,
+    conflict,
+    evidence,
+    conflictSubtype,
+    variant,
+    cachedAt,
     checkAvailability: checkAvailabilityDebounced,
+    refresh,
     reset,
   };
 }
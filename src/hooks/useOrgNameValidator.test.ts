@@ -1,5 +1,7 @@
 import { act, renderHook } from '@testing-library/react';
 import { ValidationErrorType } from 'src/types';
+import { createPolicyRules } from 'src/utils/namingPolicy';
+import { npmNamingRules } from 'src/utils/validation';
 
 import { useOrgNameValidator } from './useOrgNameValidator';
 
@@ -60,11 +62,11 @@ describe('useOrgNameValidator', () => {
     ).toBe(true);
   });
 
-  it('should validate name starting with number', () => {
+  it('should validate name starting with a dot', () => {
     const { result } = renderHook(() => useOrgNameValidator());
 
     act(() => {
-      result.current.setValue('1org');
+      result.current.setValue('.org');
     });
 
     expect(result.current.isValid).toBe(false);
@@ -75,11 +77,11 @@ describe('useOrgNameValidator', () => {
     ).toBe(true);
   });
 
-  it('should validate name starting with hyphen', () => {
+  it('should validate name starting with an underscore', () => {
     const { result } = renderHook(() => useOrgNameValidator());
 
     act(() => {
-      result.current.setValue('-org');
+      result.current.setValue('_org');
     });
 
     expect(result.current.isValid).toBe(false);
@@ -90,34 +92,30 @@ describe('useOrgNameValidator', () => {
     ).toBe(true);
   });
 
-  it('should validate name ending with hyphen', () => {
+  it('should validate name with URL-unsafe characters', () => {
     const { result } = renderHook(() => useOrgNameValidator());
 
     act(() => {
-      result.current.setValue('org-');
+      result.current.setValue('my/org');
     });
 
     expect(result.current.isValid).toBe(false);
     expect(
       result.current.validationErrors.some(
-        (error) => error.type === ValidationErrorType.INVALID_END,
+        (error) => error.type === ValidationErrorType.INVALID_CHARACTERS,
       ),
     ).toBe(true);
   });
 
-  it('should validate name with consecutive hyphens', () => {
+  it('should accept names npm allows with leading digits and repeated hyphens', () => {
     const { result } = renderHook(() => useOrgNameValidator());
 
     act(() => {
-      result.current.setValue('org--name');
+      result.current.setValue('1org--name');
     });
 
-    expect(result.current.isValid).toBe(false);
-    expect(
-      result.current.validationErrors.some(
-        (error) => error.type === ValidationErrorType.CONSECUTIVE_HYPHENS,
-      ),
-    ).toBe(true);
+    expect(result.current.isValid).toBe(true);
+    expect(result.current.validationErrors).toHaveLength(0);
   });
 
   it('should validate name with uppercase letters', () => {
@@ -155,7 +153,7 @@ describe('useOrgNameValidator', () => {
 
     // Set invalid name first
     act(() => {
-      result.current.setValue('1org');
+      result.current.setValue('.org');
     });
 
     expect(result.current.isValid).toBe(false);
@@ -170,6 +168,98 @@ describe('useOrgNameValidator', () => {
     expect(result.current.validationErrors).toHaveLength(0);
   });
 
+  it('should report naming advice without blocking the name', () => {
+    const { result } = renderHook(() => useOrgNameValidator());
+
+    expect(result.current.validationWarnings).toEqual([]);
+
+    act(() => {
+      result.current.setValue('my_org');
+    });
+
+    expect(result.current.isValid).toBe(true);
+    expect(result.current.validationErrors).toHaveLength(0);
+    expect(result.current.validationWarnings).toEqual([
+      expect.objectContaining({ type: ValidationErrorType.UNDERSCORE }),
+    ]);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.validationWarnings).toEqual([]);
+  });
+
+  it('should validate against the given rules', () => {
+    const rules = [
+      ...npmNamingRules,
+      ...createPolicyRules({ requiredPrefixes: ['acme-'] }),
+    ];
+    const { result } = renderHook(() => useOrgNameValidator({ rules }));
+
+    act(() => {
+      result.current.setValue('my-org');
+    });
+
+    expect(result.current.isValid).toBe(false);
+    expect(result.current.validationErrors).toEqual([
+      expect.objectContaining({
+        type: ValidationErrorType.MISSING_PREFIX,
+        ruleId: 'policy/required-prefix',
+      }),
+    ]);
+
+    act(() => {
+      result.current.setValue('acme-org');
+    });
+
+    expect(result.current.isValid).toBe(true);
+  });
+
+  it('should suggest a corrected name while the value differs from it', () => {
+    const { result } = renderHook(() => useOrgNameValidator());
+
+    expect(result.current.suggestion).toBeNull();
+
+    act(() => {
+      result.current.setValue('My Org');
+    });
+
+    expect(result.current.isValid).toBe(false);
+    expect(result.current.suggestion).toBe('my-org');
+
+    act(() => {
+      result.current.setValue(' acme ');
+    });
+
+    expect(result.current.isValid).toBe(true);
+    expect(result.current.suggestion).toBe('acme');
+
+    act(() => {
+      result.current.setValue('my-org');
+    });
+
+    expect(result.current.suggestion).toBeNull();
+  });
+
+  it('should not suggest a correction that is still invalid', () => {
+    const rules = [
+      ...npmNamingRules,
+      ...createPolicyRules({ requiredPrefixes: ['acme-'] }),
+    ];
+    const { result } = renderHook(() => useOrgNameValidator({ rules }));
+
+    act(() => {
+      result.current.setValue('My Org');
+    });
+    expect(result.current.suggestion).toBeNull();
+
+    act(() => {
+      result.current.setValue('@Acme-Org');
+    });
+    expect(result.current.suggestion).toBe('acme-org');
+  });
+
   it('should handle whitespace correctly', () => {
     const { result } = renderHook(() => useOrgNameValidator());
 
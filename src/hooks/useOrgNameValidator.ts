@@ -1,6 +1,15 @@
 import { useCallback, useState } from 'react';
-import type { ValidationError } from 'src/types';
-import { validateOrganizationName } from 'src/utils/validation';
+import type { ValidationError, ValidationRule } from 'src/types';
+import {
+  normalizeOrganizationName,
+  npmNamingRules,
+  validateOrganizationName,
+} from 'src/utils/validation';
+
+interface UseOrgNameValidatorOptions {
+  /** Rules the name is validated against (default: npm's naming rules) */
+  rules?: readonly ValidationRule[];
+}
 
 interface UseOrgNameValidatorReturn {
   /** Current input value */
@@ -9,6 +18,10 @@ interface UseOrgNameValidatorReturn {
   isValid: boolean;
   /** Array of validation errors (empty if valid) */
   validationErrors: ValidationError[];
+  /** Naming advice that doesn't block the name (e.g. underscores) */
+  validationWarnings: ValidationError[];
+  /** Corrected name that passes validation, offered while the value differs from it */
+  suggestion: string | null;
   /** Whether the user has interacted with the input */
   isDirty: boolean;
   /** Function to update the input value and validate */
@@ -24,16 +37,22 @@ interface UseOrgNameValidatorReturn {
  * npm's official naming rules and best practices:
  *
  * Validation Rules:
- * - Length: 1-214 characters
- * - Pattern: Must start with letter, contain only lowercase letters, numbers, and hyphens
- * - No consecutive hyphens allowed
- * - Must end with letter or number (not hyphen)
- * - Reserved words are blocked (npm, node, package, module, etc.)
+ * - Length: 1-211 characters, so `@name/x` fits npm's 214-character limit
+ * - Cannot start with a dot or an underscore
+ * - Only URL-safe characters; no capital letters or `~'!()*` (legacy rules)
+ * - Reserved words are blocked (npm, node, node_modules, etc.)
+ * - Warnings (long names, underscores, confusable characters, Node.js core
+ *   module names) are reported separately and don't affect `isValid`
+ *
+ * Pass `rules` to validate against team naming policies as well, e.g.
+ * `[...npmNamingRules, ...createPolicyRules(policy)]`.
  *
  * Features:
  * - Real-time validation as user types
  * - Dirty state tracking (errors only shown after user interaction)
  * - Multiple error support (shows all applicable validation issues)
+ * - Non-blocking warnings for naming advice
+ * - A corrected name (e.g. `my-org` for `My Org` or `acme` for ` acme `)
  * - Reset functionality for form clearing
  *
  * @example
@@ -60,9 +79,14 @@ interface UseOrgNameValidatorReturn {
  * ))}
  * ```
  *
+ * @param options - Configuration options for the hook
  * @returns Object containing validation state and control functions
  */
-export function useOrgNameValidator(): UseOrgNameValidatorReturn {
+export function useOrgNameValidator(
+  options: UseOrgNameValidatorOptions = {},
+): UseOrgNameValidatorReturn {
+  const { rules = npmNamingRules } = options;
+
   const [value, setValueState] = useState('');
   const [isDirty, setIsDirty] = useState(false);
 
@@ -76,15 +100,26 @@ export function useOrgNameValidator(): UseOrgNameValidatorReturn {
     setIsDirty(false);
   }, []);
 
-  const validationResult = validateOrganizationName(value);
+  const validationResult = validateOrganizationName(value, rules);
 
-  // Only show validation errors if the field has been touched
+  // Only show validation errors and warnings if the field has been touched
   const validationErrors = isDirty ? validationResult.errors : [];
+  const validationWarnings = isDirty ? validationResult.warnings : [];
+
+  // Only suggest a correction that changes the value and passes every rule
+  const correctedName = normalizeOrganizationName(value);
+  const suggestion =
+    correctedName !== value &&
+    validateOrganizationName(correctedName, rules).isValid
+      ? correctedName
+      : null;
 
   return {
     value,
     isValid: isDirty ? validationResult.isValid : false,
     validationErrors,
+    validationWarnings,
+    suggestion,
     isDirty,
     setValue,
     reset,
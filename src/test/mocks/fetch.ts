@@ -0,0 +1,28 @@
+/**
+ * fetch mock utilities for testing
+ * Provides a local stand-in registry that answers requests without network access
+ */
+
+type FakeFetchHandler = (
+  url: URL,
+  init?: RequestInit,
+) => Response | Promise<Response>;
+
+/**
+ * Create a JSON response with the given body and status
+ */
+export const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+
+/**
+ * Create a fetch mock that routes every request to the given handler
+ */
+export const createFakeFetch = (handler: FakeFetchHandler) =>
+  vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    return Promise.resolve(handler(url, init));
+  });
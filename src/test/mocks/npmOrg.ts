@@ -0,0 +1,31 @@
+/**
+ * npm org endpoint fixtures for testing
+ * Response bodies follow the shapes returned by registry.npmjs.com
+ */
+
+import { jsonResponse } from './fetch';
+
+/**
+ * `GET /-/org/<org>/package` for an org with packages
+ */
+export const orgPackagesFixture = {
+  '@my-org/core': 'read-write',
+  '@my-org/cli': 'read-write',
+  '@my-org/docs': 'read-only',
+};
+
+/**
+ * `GET /-/org/<org>/package` for an org that has not published anything yet
+ */
+export const emptyOrgPackagesFixture = {};
+
+/**
+ * `GET /-/org/<name>/package` for a name that is not an org (free or a user)
+ */
+export const orgNotFoundFixture = { error: 'Scope not found' };
+
+/**
+ * Create the 404 response sent for names that are not an org
+ */
+export const orgNotFoundResponse = () =>
+  jsonResponse(orgNotFoundFixture, { status: 404, statusText: 'Not Found' });
@@ -0,0 +1,37 @@
+/**
+ * npm user lookup fixtures for testing
+ * Response bodies follow the shapes returned by registry.npmjs.com and www.npmjs.com
+ */
+
+import { jsonResponse } from './fetch';
+
+/**
+ * `GET /-/user/org.couchdb.user:<name>` for an existing user
+ */
+export const userDocumentFixture = (name: string) => ({
+  _id: `org.couchdb.user:${name}`,
+  name,
+  type: 'user',
+  roles: [],
+});
+
+/**
+ * `GET /-/user/org.couchdb.user:<name>` for a name without a user
+ */
+export const userNotFoundFixture = { error: 'not_found', reason: 'missing' };
+
+/**
+ * Create the 404 response sent for user documents and profile pages of
+ * names without a user
+ */
+export const userNotFoundResponse = () =>
+  jsonResponse(userNotFoundFixture, { status: 404, statusText: 'Not Found' });
+
+/**
+ * Create the `GET /~<name>` profile page response for an existing user
+ */
+export const profilePageResponse = (name: string) =>
+  new Response(`<!doctype html><title>${name} | npm</title>`, {
+    status: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
@@ -6,11 +6,15 @@ export const ValidationErrorType = {
   TOO_SHORT: 'TOO_SHORT',
   TOO_LONG: 'TOO_LONG',
   INVALID_START: 'INVALID_START',
-  INVALID_END: 'INVALID_END',
   INVALID_CHARACTERS: 'INVALID_CHARACTERS',
-  CONSECUTIVE_HYPHENS: 'CONSECUTIVE_HYPHENS',
   RESERVED_WORD: 'RESERVED_WORD',
   EMPTY: 'EMPTY',
+  BANNED_WORD: 'BANNED_WORD',
+  MISSING_PREFIX: 'MISSING_PREFIX',
+  LONG_NAME: 'LONG_NAME',
+  UNDERSCORE: 'UNDERSCORE',
+  CONFUSABLE_CHARACTERS: 'CONFUSABLE_CHARACTERS',
+  CORE_MODULE_NAME: 'CORE_MODULE_NAME',
 } as const;
 
 export type ValidationErrorType =
@@ -21,6 +25,11 @@ export const ApiErrorType = {
   CORS_ERROR: 'CORS_ERROR',
   TIMEOUT_ERROR: 'TIMEOUT_ERROR',
   SERVER_ERROR: 'SERVER_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
+  NOT_FOUND: 'NOT_FOUND',
+  PROXY_ERROR: 'PROXY_ERROR',
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
 
@@ -30,6 +39,29 @@ export interface ValidationError {
   type: ValidationErrorType;
   message: string;
   field?: string;
+  /** Rule npm added later: older names breaking only such rules can still exist */
+  legacy?: boolean;
+  /** Id of the validation rule that failed */
+  ruleId?: string;
+}
+
+/** Effect of a failed rule: errors make the name invalid, warnings only inform */
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationRule {
+  /** Unique rule id, e.g. "npm/url-safe" or "policy/banned-word" */
+  id: string;
+  severity: ValidationSeverity;
+  /** Error type reported when a name fails the rule */
+  type: ValidationErrorType;
+  /** Returns whether the trimmed name passes the rule */
+  check: (name: string) => boolean;
+  /** Message reported when a name fails the rule, optionally built from the name */
+  message: string | ((name: string) => string);
+  /** Whether the rule also checks empty names (default: false) */
+  checksEmpty?: boolean;
+  /** Rule npm added later (see ValidationError.legacy) */
+  legacy?: boolean;
 }
 
 export interface ValidationResult {
@@ -42,7 +74,101 @@ export interface ApiError {
   type: ApiErrorType;
   message: string;
   statusCode?: number;
+  /** Registry endpoint that failed (e.g. "user-search") */
+  endpoint?: string;
+  /** Delay requested by the registry before retrying, in milliseconds */
+  retryAfterMs?: number;
+  /** Name of the CORS proxy the failed request went through */
+  proxy?: string;
+  /** Number of attempts made before giving up */
+  attempts?: number;
+  /** Start of the unexpected response body (invalid responses only) */
+  responseSnippet?: string;
   timestamp: Date;
+  /** Original error the ApiError was created from */
+  cause?: unknown;
+}
+
+/**
+ * Overall availability of a name:
+ * - available: every check proved the name is free
+ * - likely-available: no conflict found, but a check is only a heuristic
+ * - taken: a check found a conflicting owner
+ * - unknown: no conflict found, but a check failed
+ */
+export type AvailabilityStatus =
+  | 'available'
+  | 'likely-available'
+  | 'taken'
+  | 'unknown';
+
+/** Registry lookup contributing to the availability result */
+export type CheckName = 'user' | 'org' | 'scope' | 'variants';
+
+/**
+ * Outcome of a single registry lookup (uncertain = cross-validated lookups
+ * disagree, e.g. while the replicate lags behind a publish)
+ */
+export type CheckOutcome =
+  | 'passed'
+  | 'conflict'
+  | 'uncertain'
+  | 'failed'
+  | 'skipped';
+
+/** Registry lookup that decided whether a user exists */
+export type UserLookupMethod =
+  | 'user-document'
+  | 'profile-page'
+  | 'author-search';
+
+export interface CheckResult {
+  check: CheckName;
+  outcome: CheckOutcome;
+  /** Lookup that decided the user check (set only for the user check) */
+  method?: UserLookupMethod;
+  /** Why the lookup failed (set only when failed) */
+  error?: ApiError;
+}
+
+/**
+ * Kind of owner already holding a name:
+ * - user: an npm user publishing packages under that name
+ * - org: an npm organization, with or without public packages
+ * - scope: packages published under a scope that is not an org (a user scope)
+ */
+export type ConflictType = 'user' | 'scope' | 'org';
+
+/**
+ * Placeholder packages holding a scope without live packages:
+ * - unpublished: every package was unpublished (or has vanished), but npm
+ *   keeps the name reserved
+ * - security-holding: npm replaced the packages with "security holding"
+ *   placeholders, e.g. after removing malware
+ */
+export type ConflictSubtype = 'unpublished' | 'security-holding';
+
+/** State of a package according to its package document */
+export type PackageState = 'published' | 'unpublished' | 'security-holding';
+
+export interface PackageLink {
+  /** Package name */
+  name: string;
+  /** npm website page of the package */
+  url: string;
+  /** State of the package (set only when its package document was fetched) */
+  state?: PackageState;
+}
+
+export interface ConflictEvidence {
+  /** Owner holding the name as displayed (e.g. "\@foo" for a scope) */
+  owner: string;
+  /** npm website page listing the owner's packages */
+  url: string;
+  /** Matching packages returned by the registry (at most 10) */
+  packages: PackageLink[];
+  /** Total number of matching packages */
+  total: number;
 }
 
 export interface AvailabilityIndicatorProps {
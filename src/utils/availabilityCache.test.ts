@@ -0,0 +1,311 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { setupLocalStorageMock } from 'src/test/mocks/localStorage';
+
+import type { CacheEntry, CacheStore } from './availabilityCache';
+import {
+  createAvailabilityCache,
+  createDefaultStore,
+  createIndexedDbStore,
+  createLocalStorageStore,
+} from './availabilityCache';
+import type { NameAvailabilityResult } from './npmRegistry';
+
+const MINUTE_MS = 60 * 1000;
+
+const available: NameAvailabilityResult = {
+  status: 'available',
+  isAvailable: true,
+  conflict: null,
+  evidence: null,
+  checks: [],
+  orgUrl: 'https://www.npmjs.com/org/free-org',
+};
+
+const taken: NameAvailabilityResult = {
+  status: 'taken',
+  isAvailable: false,
+  conflict: 'user',
+  evidence: null,
+  checks: [],
+  orgUrl: 'https://www.npmjs.com/org/taken-org',
+};
+
+const createEntry = (storedAt: number): CacheEntry => ({
+  result: available,
+  storedAt,
+  expiresAt: storedAt + MINUTE_MS,
+});
+
+const createMemoryStore = (): CacheStore & {
+  entries: Map<string, unknown>;
+} => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    entries,
+    get: (key) => Promise.resolve(entries.get(key)),
+    set: (key, entry) => {
+      entries.set(key, entry);
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      entries.delete(key);
+      return Promise.resolve();
+    },
+  };
+};
+
+const createFailingStore = (): CacheStore => ({
+  get: () => Promise.reject(new Error('Storage unavailable')),
+  set: () => Promise.reject(new Error('QuotaExceededError')),
+  delete: () => Promise.reject(new Error('Storage unavailable')),
+});
+
+describe('createAvailabilityCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+  });
+
+  it('should return stored results until they expire', async () => {
+    const cache = createAvailabilityCache({ store: null, now: clock });
+
+    await cache.set('key', available);
+    now += 5 * MINUTE_MS - 1;
+
+    await expect(cache.get('key')).resolves.toEqual({
+      result: available,
+      storedAt: Date.parse('2026-01-01T00:00:00Z'),
+      expiresAt: Date.parse('2026-01-01T00:05:00Z'),
+    });
+
+    now += 1;
+
+    await expect(cache.get('key')).resolves.toBeUndefined();
+  });
+
+  it('should keep taken results longer than available ones', async () => {
+    const cache = createAvailabilityCache({ store: null, now: clock });
+
+    await cache.set('free', available);
+    await cache.set('taken', taken);
+    now += 60 * MINUTE_MS;
+
+    await expect(cache.get('free')).resolves.toBeUndefined();
+    await expect(cache.get('taken')).resolves.toMatchObject({ result: taken });
+
+    now += 23 * 60 * MINUTE_MS;
+
+    await expect(cache.get('taken')).resolves.toBeUndefined();
+  });
+
+  it('should use a custom time to live per outcome', async () => {
+    const cache = createAvailabilityCache({
+      store: null,
+      now: clock,
+      ttlMs: { taken: MINUTE_MS },
+    });
+
+    await cache.set('taken', taken);
+    now += MINUTE_MS;
+
+    await expect(cache.get('taken')).resolves.toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const cache = createAvailabilityCache({
+      store: null,
+      now: clock,
+      maxEntries: 2,
+    });
+
+    await cache.set('a', available);
+    await cache.set('b', available);
+    await cache.get('a');
+    await cache.set('c', available);
+
+    await expect(cache.get('a')).resolves.toBeDefined();
+    await expect(cache.get('b')).resolves.toBeUndefined();
+    await expect(cache.get('c')).resolves.toBeDefined();
+  });
+
+  it('should read through to the persistent tier', async () => {
+    const store = createMemoryStore();
+    await store.set('key', createEntry(now));
+    const cache = createAvailabilityCache({ store, now: clock });
+
+    await expect(cache.get('key')).resolves.toMatchObject({
+      result: available,
+    });
+  });
+
+  it('should write to the persistent tier', async () => {
+    const store = createMemoryStore();
+    const cache = createAvailabilityCache({ store, now: clock });
+
+    await cache.set('key', taken);
+
+    expect(store.entries.get('key')).toMatchObject({ result: taken });
+  });
+
+  it('should delete expired entries from both tiers', async () => {
+    const store = createMemoryStore();
+    await store.set('key', createEntry(now - 2 * MINUTE_MS));
+    const cache = createAvailabilityCache({ store, now: clock });
+
+    await expect(cache.get('key')).resolves.toBeUndefined();
+    expect(store.entries.has('key')).toBe(false);
+  });
+
+  it('should treat persistent tier failures as cache misses', async () => {
+    const cache = createAvailabilityCache({
+      store: createFailingStore(),
+      now: clock,
+    });
+
+    await expect(cache.get('missing')).resolves.toBeUndefined();
+    await expect(cache.set('key', available)).resolves.toBeUndefined();
+    await expect(cache.get('key')).resolves.toMatchObject({
+      result: available,
+    });
+    await expect(cache.delete('key')).resolves.toBeUndefined();
+    await expect(cache.get('key')).resolves.toBeUndefined();
+  });
+});
+
+describe('createLocalStorageStore', () => {
+  beforeEach(() => {
+    setupLocalStorageMock();
+  });
+
+  it('should store entries as JSON under a prefixed key', async () => {
+    const store = createLocalStorageStore();
+    const entry = createEntry(0);
+
+    await store.set('key', entry);
+
+    expect(localStorage.getItem('npm-org-checker:availability:key')).toBe(
+      JSON.stringify(entry),
+    );
+    await expect(store.get('key')).resolves.toEqual(entry);
+  });
+
+  it('should round-trip failed checks with their error timestamp', async () => {
+    const store = createLocalStorageStore();
+    const timestamp = new Date(1_000);
+    const entry: CacheEntry = {
+      ...createEntry(0),
+      result: {
+        ...taken,
+        checks: [
+          {
+            check: 'user',
+            outcome: 'failed',
+            error: {
+              type: 'TIMEOUT_ERROR',
+              message: 'Request timed out',
+              attempts: 3,
+              timestamp,
+              cause: new Error('Request timed out'),
+            },
+          },
+          { check: 'scope', outcome: 'conflict' },
+        ],
+      },
+    };
+
+    await store.set('key', entry);
+    const stored = await store.get('key');
+
+    expect(stored?.result.checks).toEqual([
+      {
+        check: 'user',
+        outcome: 'failed',
+        error: {
+          type: 'TIMEOUT_ERROR',
+          message: 'Request timed out',
+          attempts: 3,
+          timestamp,
+        },
+      },
+      { check: 'scope', outcome: 'conflict' },
+    ]);
+    expect(stored?.result.checks[0].error?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should return undefined for missing entries', async () => {
+    await expect(createLocalStorageStore().get('missing')).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should delete entries', async () => {
+    const store = createLocalStorageStore('test:');
+    await store.set('key', createEntry(0));
+
+    await store.delete('key');
+
+    expect(localStorage.getItem('test:key')).toBeNull();
+  });
+});
+
+describe('createIndexedDbStore', () => {
+  it('should store, read and delete entries', async () => {
+    const store = createIndexedDbStore(new IDBFactory());
+    const entry = createEntry(0);
+
+    await expect(store.get('key')).resolves.toBeUndefined();
+
+    await store.set('key', entry);
+    await expect(store.get('key')).resolves.toEqual(entry);
+
+    await store.delete('key');
+    await expect(store.get('key')).resolves.toBeUndefined();
+  });
+
+  it('should persist entries across store instances', async () => {
+    const factory = new IDBFactory();
+    await createIndexedDbStore(factory).set('key', createEntry(0));
+
+    await expect(createIndexedDbStore(factory).get('key')).resolves.toEqual(
+      createEntry(0),
+    );
+  });
+});
+
+describe('createDefaultStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should prefer IndexedDB when available', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    const store = createDefaultStore();
+
+    await store?.set('key', createEntry(0));
+
+    await expect(
+      createIndexedDbStore(indexedDB).get('key'),
+    ).resolves.toBeDefined();
+  });
+
+  it('should fall back to localStorage', async () => {
+    setupLocalStorageMock();
+    vi.stubGlobal('indexedDB', undefined);
+    const store = createDefaultStore();
+
+    await store?.set('key', createEntry(0));
+
+    expect(localStorage.getItem('npm-org-checker:availability:key')).not.toBe(
+      null,
+    );
+  });
+
+  it('should return null without any storage', () => {
+    vi.stubGlobal('indexedDB', undefined);
+    vi.stubGlobal('localStorage', undefined);
+
+    expect(createDefaultStore()).toBeNull();
+  });
+});
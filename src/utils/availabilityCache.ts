@@ -0,0 +1,324 @@
+import type { AvailabilityStatus } from 'src/types';
+
+import type { NameAvailabilityResult } from './npmRegistry';
+
+const DB_NAME = 'npm-org-checker';
+const STORE_NAME = 'availability';
+const STORAGE_KEY_PREFIX = 'npm-org-checker:availability:';
+const DEFAULT_MAX_ENTRIES = 100;
+const MINUTE_MS = 60 * 1000;
+
+/** Cacheable status of an availability check, used to pick its time to live */
+export type CacheOutcome = Exclude<AvailabilityStatus, 'unknown'>;
+
+export interface CacheEntry {
+  /** Cached availability result */
+  result: NameAvailabilityResult;
+  /** When the result was stored (epoch milliseconds) */
+  storedAt: number;
+  /** When the result expires (epoch milliseconds) */
+  expiresAt: number;
+}
+
+/** Persistent tier of the availability cache */
+export interface CacheStore {
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+export interface AvailabilityCacheOptions {
+  /** Maximum number of results kept in memory (default: 100) */
+  maxEntries?: number;
+  /** Time to live per outcome in milliseconds (default: available 5 min, likely-available 5 min, taken 24 h) */
+  ttlMs?: Partial<Record<CacheOutcome, number>>;
+  /** Persistent tier (default: IndexedDB, else localStorage; null = memory only) */
+  store?: CacheStore | null;
+  /** Clock used for expiry (default: Date.now) */
+  now?: () => number;
+}
+
+export interface AvailabilityCache {
+  /** Returns the unexpired entry for a key, if any */
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  /** Stores a result with the time to live of its outcome (unknown results are skipped) */
+  set: (key: string, result: NameAvailabilityResult) => Promise<void>;
+  /** Removes the entry for a key from both tiers */
+  delete: (key: string) => Promise<void>;
+}
+
+/**
+ * Creates a persistent cache tier backed by IndexedDB.
+ *
+ * @param factory - IndexedDB factory (default: window.indexedDB)
+ * @param dbName - Database name (default: "npm-org-checker")
+ * @returns CacheStore that keeps entries in an IndexedDB object store
+ */
+export function createIndexedDbStore(
+  factory: IDBFactory = indexedDB,
+  dbName = DB_NAME,
+): CacheStore {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = factory.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      /* v8 ignore start */
+      request.onerror = () => {
+        reject(request.error ?? new Error('Failed to open IndexedDB'));
+      };
+      /* v8 ignore end */
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      /* v8 ignore start */
+      request.onerror = () => {
+        reject(request.error ?? new Error('IndexedDB request failed'));
+      };
+      /* v8 ignore end */
+    });
+  };
+
+  return {
+    get: (key) =>
+      run('readonly', (store) => store.get(key) as IDBRequest<CacheEntry>),
+    set: async (key, entry) => {
+      await run('readwrite', (store) => store.put(entry, key));
+    },
+    delete: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Converts an entry into a shape that survives a JSON round trip.
+ *
+ * Check errors drop their `cause`, which does not serialize (an Error
+ * becomes `{}`); their timestamp is written as an ISO date string.
+ *
+ * @param entry - Cache entry to store
+ * @returns JSON-safe copy of the entry
+ */
+function toJsonEntry(entry: CacheEntry): CacheEntry {
+  return {
+    ...entry,
+    result: {
+      ...entry.result,
+      checks: entry.result.checks.map((check) =>
+        check.error
+          ? { ...check, error: { ...check.error, cause: undefined } }
+          : check,
+      ),
+    },
+  };
+}
+
+/**
+ * Revives the dates of an entry read back from JSON.
+ *
+ * @param entry - Parsed cache entry
+ * @returns Entry whose check errors carry Date timestamps again
+ */
+function fromJsonEntry(entry: CacheEntry): CacheEntry {
+  return {
+    ...entry,
+    result: {
+      ...entry.result,
+      checks: entry.result.checks.map((check) =>
+        check.error
+          ? {
+              ...check,
+              error: {
+                ...check.error,
+                timestamp: new Date(check.error.timestamp),
+              },
+            }
+          : check,
+      ),
+    },
+  };
+}
+
+/**
+ * Creates a persistent cache tier backed by localStorage.
+ *
+ * Entries are stored as JSON; check error timestamps are revived as dates
+ * on read, while their original `cause` is not kept.
+ *
+ * @param prefix - Prefix for storage keys
+ * @returns CacheStore that keeps entries as JSON in localStorage
+ */
+export function createLocalStorageStore(
+  prefix = STORAGE_KEY_PREFIX,
+): CacheStore {
+  return {
+    get: (key) => {
+      const value = localStorage.getItem(`${prefix}${key}`);
+      return Promise.resolve(
+        value === null
+          ? undefined
+          : fromJsonEntry(JSON.parse(value) as CacheEntry),
+      );
+    },
+    set: (key, entry) => {
+      localStorage.setItem(
+        `${prefix}${key}`,
+        JSON.stringify(toJsonEntry(entry)),
+      );
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      localStorage.removeItem(`${prefix}${key}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Picks the best available persistent tier for the current environment.
+ *
+ * @returns IndexedDB store, localStorage store, or null when neither exists
+ */
+export function createDefaultStore(): CacheStore | null {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbStore();
+  }
+
+  if (typeof localStorage !== 'undefined') {
+    return createLocalStorageStore();
+  }
+
+  return null;
+}
+
+/**
+ * Creates a two-tier TTL cache for availability results.
+ *
+ * Tiers:
+ * - Memory: LRU map limited to `maxEntries`, checked first
+ * - Persistent: IndexedDB or localStorage, survives page reloads
+ *
+ * Taken names rarely become available again, so they are kept longer than
+ * available names, which can be claimed by someone else at any time.
+ * Unknown results (a check failed) are never cached, so the next check
+ * retries the registry.
+ * Storage failures (quota, private browsing) are treated as cache misses.
+ *
+ * @example
+ * ```typescript
+ * const cache = createAvailabilityCache({ ttlMs: { available: 60_000 } });
+ * const result = await checkNameAvailability('my-org', { cache });
+ * ```
+ *
+ * @param options - Capacity, time to live, persistent tier and clock
+ * @returns AvailabilityCache
+ */
+export function createAvailabilityCache(
+  options: AvailabilityCacheOptions = {},
+): AvailabilityCache {
+  const {
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    store = createDefaultStore(),
+    now = Date.now,
+  } = options;
+  const ttlMs: Record<CacheOutcome, number> = {
+    available: 5 * MINUTE_MS,
+    'likely-available': 5 * MINUTE_MS,
+    taken: 24 * 60 * MINUTE_MS,
+    ...options.ttlMs,
+  };
+  const memory = new Map<string, CacheEntry>();
+
+  const remember = (key: string, entry: CacheEntry) => {
+    // Re-insert so the key becomes the most recently used
+    memory.delete(key);
+    memory.set(key, entry);
+
+    if (memory.size > maxEntries) {
+      const [oldestKey] = memory.keys();
+      memory.delete(oldestKey);
+    }
+  };
+
+  const readStore = async (key: string) => {
+    try {
+      return await store?.get(key);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const cache: AvailabilityCache = {
+    async get(key) {
+      const entry = memory.get(key) ?? (await readStore(key));
+
+      if (!entry) {
+        return undefined;
+      }
+
+      if (entry.expiresAt <= now()) {
+        await cache.delete(key);
+        return undefined;
+      }
+
+      remember(key, entry);
+      return entry;
+    },
+
+    async set(key, result) {
+      if (result.status === 'unknown') {
+        return;
+      }
+
+      const storedAt = now();
+      const entry = {
+        result,
+        storedAt,
+        expiresAt: storedAt + ttlMs[result.status],
+      };
+
+      remember(key, entry);
+
+      try {
+        await store?.set(key, entry);
+      } catch {
+        // Keep the in-memory entry when the persistent tier is unavailable
+      }
+    },
+
+    async delete(key) {
+      memory.delete(key);
+
+      try {
+        await store?.delete(key);
+      } catch {
+        // Nothing to remove when the persistent tier is unavailable
+      }
+    },
+  };
+
+  return cache;
+}
+
+/** Shared cache used by the availability checker hook */
+export const defaultAvailabilityCache = createAvailabilityCache();
@@ -0,0 +1,177 @@
+import { createCircuitBreaker } from './circuitBreaker';
+import { CircuitOpenError } from './errors';
+
+const fail = () => Promise.reject(new Error('Unreachable'));
+const succeed = () => Promise.resolve('ok');
+
+describe('createCircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const openBreaker = async (failureThreshold = 2) => {
+    const breaker = createCircuitBreaker({
+      failureThreshold,
+      cooldownMs: 1000,
+    });
+    for (let i = 0; i < failureThreshold; i++) {
+      await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    }
+    return breaker;
+  };
+
+  it('should pass requests through while closed', async () => {
+    const breaker = createCircuitBreaker();
+
+    await expect(breaker.run(succeed)).resolves.toBe('ok');
+    expect(breaker.getState()).toEqual({
+      status: 'closed',
+      failures: 0,
+      retryAt: null,
+    });
+  });
+
+  it('should open after the failure threshold', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3 });
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    expect(breaker.getState()).toMatchObject({ status: 'closed', failures: 2 });
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    expect(breaker.getState()).toEqual({
+      status: 'open',
+      failures: 3,
+      retryAt: 30000,
+    });
+  });
+
+  it('should fail fast without running the operation while open', async () => {
+    const breaker = await openBreaker();
+    const operation = vi.fn(succeed);
+
+    const error = await breaker.run(operation).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({
+      retryAt: 1000,
+      message: 'Registry unreachable, next retry at 1970-01-01T00:00:01.000Z',
+    });
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should become half-open after the cooldown', async () => {
+    const breaker = await openBreaker();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(breaker.getState().status).toBe('open');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(breaker.getState()).toEqual({
+      status: 'half-open',
+      failures: 2,
+      retryAt: 1000,
+    });
+  });
+
+  it('should close when the probe succeeds', async () => {
+    const breaker = await openBreaker();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(breaker.run(succeed)).resolves.toBe('ok');
+    expect(breaker.getState()).toEqual({
+      status: 'closed',
+      failures: 0,
+      retryAt: null,
+    });
+  });
+
+  it('should reopen for another cooldown when the probe fails', async () => {
+    const breaker = await openBreaker();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    expect(breaker.getState()).toMatchObject({ status: 'open', retryAt: 2000 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(breaker.getState().status).toBe('half-open');
+  });
+
+  it('should let only one probe through at a time', async () => {
+    const breaker = await openBreaker();
+    await vi.advanceTimersByTimeAsync(1000);
+    let finishProbe: () => void = () => undefined;
+    const probe = breaker.run(
+      () =>
+        new Promise<void>((resolve) => {
+          finishProbe = resolve;
+        }),
+    );
+
+    await expect(breaker.run(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe();
+    await probe;
+    await expect(breaker.run(succeed)).resolves.toBe('ok');
+  });
+
+  it('should treat errors that are not failures as successes', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2 });
+    const isFailure = (error: unknown) =>
+      !(error instanceof Error && error.message === 'Not found');
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    await expect(
+      breaker.run(() => Promise.reject(new Error('Not found')), isFailure),
+    ).rejects.toThrow('Not found');
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+
+    expect(breaker.getState()).toMatchObject({ status: 'closed', failures: 1 });
+  });
+
+  it('should ignore failures of requests started before the circuit opened', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    let failStale: () => void = () => undefined;
+    const stale = breaker.run(
+      () =>
+        new Promise<void>((_, reject) => {
+          failStale = () => {
+            reject(new Error('Stale'));
+          };
+        }),
+    );
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    await vi.advanceTimersByTimeAsync(10000);
+    failStale();
+
+    await expect(stale).rejects.toThrow('Stale');
+    expect(breaker.getState()).toMatchObject({
+      status: 'open',
+      retryAt: 30000,
+    });
+  });
+
+  it('should notify subscribers when the state changes', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    const listener = vi.fn();
+    const unsubscribe = breaker.subscribe(listener);
+    const state = breaker.getState();
+
+    await breaker.run(succeed);
+    expect(listener).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe(state);
+
+    await expect(breaker.run(fail)).rejects.toThrow('Unreachable');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,187 @@
+import { CircuitOpenError } from './errors';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * State of a circuit breaker:
+ * - closed: requests pass through
+ * - open: requests fail fast until the cooldown ends
+ * - half-open: the next request probes whether the target recovered
+ */
+export type CircuitStatus = 'closed' | 'open' | 'half-open';
+
+/** Snapshot of a circuit breaker */
+export type CircuitState =
+  | {
+      status: 'closed';
+      /** Consecutive failures counted so far */
+      failures: number;
+      retryAt: null;
+    }
+  | {
+      status: Exclude<CircuitStatus, 'closed'>;
+      /** Consecutive failures that opened the circuit */
+      failures: number;
+      /** When the circuit lets a probe through (epoch milliseconds) */
+      retryAt: number;
+    };
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a probe (default: 30 s) */
+  cooldownMs?: number;
+  /** Clock used for the cooldown (default: Date.now) */
+  now?: () => number;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Runs an operation unless the circuit is open.
+   *
+   * @param operation - Operation to run
+   * @param isFailure - Whether an error counts towards opening the circuit
+   * (default: every error)
+   * @returns Promise that settles with the operation
+   * @throws CircuitOpenError without running the operation while open
+   */
+  run: <T>(
+    operation: () => Promise<T>,
+    isFailure?: (error: unknown) => boolean,
+  ) => Promise<T>;
+  /** Returns the current state (stable until the state changes) */
+  getState: () => CircuitState;
+  /**
+   * Calls the listener whenever the state changes.
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Creates a circuit breaker that stops sending requests to a failing target.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens: every
+ * request fails fast with CircuitOpenError instead of waiting for its own
+ * timeout. Once `cooldownMs` has passed the circuit is half-open and lets
+ * one probe through. A successful probe (or an error that does not count as
+ * a failure) closes the circuit; a failed one opens it for another cooldown.
+ *
+ * @example
+ * ```typescript
+ * const breaker = createCircuitBreaker({ failureThreshold: 3 });
+ * const client = createRegistryClient({ circuitBreaker: breaker });
+ *
+ * breaker.subscribe(() => {
+ *   console.log('Registry circuit is', breaker.getState().status);
+ * });
+ * ```
+ *
+ * @param options - Failure threshold, cooldown and clock
+ * @returns CircuitBreaker
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = {},
+): CircuitBreaker {
+  const {
+    failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+    cooldownMs = DEFAULT_COOLDOWN_MS,
+    now = Date.now,
+  } = options;
+
+  const listeners = new Set<() => void>();
+  let state: CircuitState = { status: 'closed', failures: 0, retryAt: null };
+  let probing = false;
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const setState = (next: CircuitState) => {
+    state = next;
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const open = () => {
+    const retryAt = now() + cooldownMs;
+    setState({ status: 'open', failures: state.failures, retryAt });
+
+    clearTimeout(timerId);
+    timerId = setTimeout(() => {
+      setState({ status: 'half-open', failures: state.failures, retryAt });
+    }, cooldownMs);
+  };
+
+  const onSuccess = () => {
+    if (state.status !== 'closed' || state.failures > 0) {
+      clearTimeout(timerId);
+      setState({ status: 'closed', failures: 0, retryAt: null });
+    }
+  };
+
+  const onFailure = (isProbe: boolean) => {
+    if (isProbe) {
+      open();
+      return;
+    }
+
+    // Requests started before the circuit opened don't extend the cooldown
+    if (state.status !== 'closed') {
+      return;
+    }
+
+    const failures = state.failures + 1;
+
+    if (failures >= failureThreshold) {
+      state = { ...state, failures };
+      open();
+      return;
+    }
+
+    setState({ ...state, failures });
+  };
+
+  return {
+    async run<T>(
+      operation: () => Promise<T>,
+      isFailure: (error: unknown) => boolean = () => true,
+    ) {
+      // Let exactly one probe through once the cooldown has ended
+      const isProbe =
+        state.status !== 'closed' && !probing && now() >= state.retryAt;
+
+      if (state.status !== 'closed' && !isProbe) {
+        throw new CircuitOpenError(state.retryAt);
+      }
+
+      probing ||= isProbe;
+
+      try {
+        const result = await operation();
+        onSuccess();
+        return result;
+      } catch (error) {
+        if (isFailure(error)) {
+          onFailure(isProbe);
+        } else {
+          onSuccess();
+        }
+        throw error;
+      } finally {
+        if (isProbe) {
+          probing = false;
+        }
+      }
+    },
+
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
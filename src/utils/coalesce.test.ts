@@ -0,0 +1,173 @@
+import { createRequestCoalescer } from './coalesce';
+
+describe('createRequestCoalescer', () => {
+  it('should share one pending run between concurrent callers', async () => {
+    const coalescer = createRequestCoalescer();
+    const operation = vi.fn(() => Promise.resolve('result'));
+
+    const first = coalescer.run('key', operation);
+    const second = coalescer.run('key', operation);
+
+    expect(second).toBe(first);
+    expect(coalescer.size).toBe(1);
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      'result',
+      'result',
+    ]);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run different keys separately', async () => {
+    const coalescer = createRequestCoalescer();
+    const operation = vi.fn(() => Promise.resolve(true));
+
+    await Promise.all([
+      coalescer.run('a', operation),
+      coalescer.run('b', operation),
+    ]);
+
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release the key once the run settles', async () => {
+    const coalescer = createRequestCoalescer();
+    const operation = vi.fn(() => Promise.resolve(true));
+
+    await coalescer.run('key', operation);
+    expect(coalescer.size).toBe(0);
+
+    await coalescer.run('key', operation);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share and then release failures', async () => {
+    const coalescer = createRequestCoalescer();
+    const error = new Error('Network error');
+    const operation = vi.fn(() => Promise.reject(error));
+
+    const results = await Promise.allSettled([
+      coalescer.run('key', operation),
+      coalescer.run('key', operation),
+    ]);
+
+    expect(results).toEqual([
+      { status: 'rejected', reason: error },
+      { status: 'rejected', reason: error },
+    ]);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(coalescer.size).toBe(0);
+  });
+
+  describe('cancellation', () => {
+    const createPendingOperation = () => {
+      let resolve!: (value: string) => void;
+      let runSignal!: AbortSignal;
+      const operation = vi.fn(
+        (signal: AbortSignal) =>
+          new Promise<string>((res, reject) => {
+            resolve = res;
+            runSignal = signal;
+            signal.addEventListener('abort', () => {
+              reject(signal.reason as Error);
+            });
+          }),
+      );
+      return {
+        operation,
+        resolve: (value: string) => {
+          resolve(value);
+        },
+        getSignal: () => runSignal,
+      };
+    };
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const coalescer = createRequestCoalescer();
+      const operation = vi.fn(() => Promise.resolve(true));
+
+      await expect(
+        coalescer.run('key', operation, AbortSignal.abort()),
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('should keep the run alive while another caller waits', async () => {
+      const coalescer = createRequestCoalescer();
+      const pending = createPendingOperation();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const aborted = coalescer.run('key', pending.operation, first.signal);
+      const waiting = coalescer.run('key', pending.operation, second.signal);
+
+      first.abort();
+
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      expect(pending.getSignal().aborted).toBe(false);
+
+      pending.resolve('result');
+
+      await expect(waiting).resolves.toBe('result');
+      expect(pending.operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the run once every caller has aborted', async () => {
+      const coalescer = createRequestCoalescer();
+      const pending = createPendingOperation();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const results = Promise.allSettled([
+        coalescer.run('key', pending.operation, first.signal),
+        coalescer.run('key', pending.operation, second.signal),
+      ]);
+
+      first.abort();
+      second.abort();
+
+      await results;
+      expect(pending.getSignal().aborted).toBe(true);
+      expect(coalescer.size).toBe(0);
+    });
+
+    it('should never abort a run joined by a caller without a signal', async () => {
+      const coalescer = createRequestCoalescer();
+      const pending = createPendingOperation();
+      const controller = new AbortController();
+
+      const aborted = coalescer.run(
+        'key',
+        pending.operation,
+        controller.signal,
+      );
+      const waiting = coalescer.run('key', pending.operation);
+
+      controller.abort();
+
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      expect(pending.getSignal().aborted).toBe(false);
+
+      pending.resolve('result');
+
+      await expect(waiting).resolves.toBe('result');
+    });
+
+    it('should start a new run after the previous one was aborted', async () => {
+      const coalescer = createRequestCoalescer();
+      const pending = createPendingOperation();
+      const controller = new AbortController();
+
+      const aborted = coalescer.run(
+        'key',
+        pending.operation,
+        controller.signal,
+      );
+      controller.abort();
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+      await expect(
+        coalescer.run('key', () => Promise.resolve('fresh')),
+      ).resolves.toBe('fresh');
+    });
+  });
+});
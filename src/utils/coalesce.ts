@@ -0,0 +1,123 @@
+export interface RequestCoalescer {
+  /**
+   * Runs the operation, or joins the pending run with the same key.
+   *
+   * @param key - Identity of the request
+   * @param operation - Operation started when no run with the key is pending,
+   * called with a signal that is aborted once every caller has aborted
+   * @param signal - Signal that stops this caller from waiting for the run
+   * @returns Promise that settles with the shared run
+   * @throws The abort reason when `signal` is aborted first
+   */
+  run: <T>(
+    key: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ) => Promise<T>;
+  /** Number of runs still pending */
+  readonly size: number;
+}
+
+interface PendingRun {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting that can abort */
+  waiters: number;
+  /** Whether a caller without a signal waits, so the run is never aborted */
+  pinned: boolean;
+}
+
+/**
+ * Creates a coalescer that shares one in-flight promise per key.
+ *
+ * Concurrent callers with the same key receive the result of the same run,
+ * so the operation runs only once. The key is released as soon as the run
+ * settles, so later callers start a new run instead of reusing a stale
+ * result (caching is left to the availability cache).
+ *
+ * A caller that aborts stops waiting without affecting the others. The run
+ * itself is aborted only when every caller has aborted.
+ *
+ * @example
+ * ```typescript
+ * const coalescer = createRequestCoalescer();
+ * const [a, b] = await Promise.all([
+ *   coalescer.run('user-search my-org', (signal) =>
+ *     checkUserExists('my-org', { signal }),
+ *   ),
+ *   coalescer.run('user-search my-org', (signal) =>
+ *     checkUserExists('my-org', { signal }),
+ *   ),
+ * ]); // one request sent
+ * ```
+ *
+ * @returns RequestCoalescer
+ */
+export function createRequestCoalescer(): RequestCoalescer {
+  const pending = new Map<string, PendingRun>();
+
+  const start = (
+    key: string,
+    operation: (signal: AbortSignal) => Promise<unknown>,
+  ) => {
+    const controller = new AbortController();
+    const run: PendingRun = {
+      controller,
+      waiters: 0,
+      pinned: false,
+      promise: operation(controller.signal).finally(() => {
+        if (pending.get(key) === run) {
+          pending.delete(key);
+        }
+      }),
+    };
+    pending.set(key, run);
+    return run;
+  };
+
+  return {
+    run<T>(
+      key: string,
+      operation: (signal: AbortSignal) => Promise<T>,
+      signal?: AbortSignal,
+    ) {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason as Error);
+      }
+
+      const run = pending.get(key) ?? start(key, operation);
+      const promise = run.promise as Promise<T>;
+
+      if (!signal) {
+        run.pinned = true;
+        return promise;
+      }
+
+      run.waiters++;
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          run.waiters--;
+
+          // Nobody is waiting for the result anymore
+          if (!run.pinned && run.waiters === 0 && pending.get(key) === run) {
+            pending.delete(key);
+            run.controller.abort(signal.reason);
+          }
+
+          reject(signal.reason as Error);
+        };
+
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        void promise.then(resolve, reject).finally(() => {
+          signal.removeEventListener('abort', onAbort);
+        });
+      });
+    },
+
+    get size() {
+      return pending.size;
+    },
+  };
+}
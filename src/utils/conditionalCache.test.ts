@@ -0,0 +1,90 @@
+import { jsonResponse } from 'src/test/mocks/fetch';
+
+import { createConditionalCache } from './conditionalCache';
+
+const URL_A = 'https://registry.npmjs.com/-/v1/search?text=a';
+const URL_B = 'https://registry.npmjs.com/-/v1/search?text=b';
+
+const etagResponse = (body: unknown, etag = '"v1"') =>
+  jsonResponse(body, {
+    headers: { 'Content-Type': 'application/json', ETag: etag },
+  });
+
+describe('createConditionalCache', () => {
+  it('should return no headers for unknown URLs', () => {
+    const cache = createConditionalCache();
+
+    expect(cache.getHeaders(URL_A)).toBeNull();
+    expect(cache.restore(URL_A)).toBeUndefined();
+  });
+
+  it('should send the stored ETag and Last-Modified back', async () => {
+    const cache = createConditionalCache();
+
+    await cache.remember(URL_A, etagResponse({}));
+    await cache.remember(
+      URL_B,
+      new Response('{}', {
+        headers: { 'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT' },
+      }),
+    );
+
+    expect(cache.getHeaders(URL_A)).toEqual({ 'If-None-Match': '"v1"' });
+    expect(cache.getHeaders(URL_B)).toEqual({
+      'If-Modified-Since': 'Wed, 21 Oct 2015 07:28:00 GMT',
+    });
+  });
+
+  it('should restore the stored body and headers', async () => {
+    const cache = createConditionalCache();
+    const response = etagResponse({ total: 1 });
+
+    await cache.remember(URL_A, response);
+    const restored = cache.restore(URL_A);
+
+    await expect(response.json()).resolves.toEqual({ total: 1 });
+    expect(restored?.status).toBe(200);
+    expect(restored?.headers.get('Content-Type')).toBe('application/json');
+    expect(restored?.headers.get('ETag')).toBe('"v1"');
+    await expect(restored?.json()).resolves.toEqual({ total: 1 });
+  });
+
+  it('should forget a URL whose response has no validators', async () => {
+    const cache = createConditionalCache();
+
+    await cache.remember(URL_A, etagResponse({}));
+    await cache.remember(URL_A, jsonResponse({}));
+
+    expect(cache.getHeaders(URL_A)).toBeNull();
+  });
+
+  it('should skip responses whose body cannot be read', async () => {
+    const cache = createConditionalCache();
+    const body = new ReadableStream({
+      start(controller) {
+        controller.error(new Error('Connection reset'));
+      },
+    });
+
+    await cache.remember(
+      URL_A,
+      new Response(body, { headers: { ETag: '"v1"' } }),
+    );
+
+    expect(cache.getHeaders(URL_A)).toBeNull();
+  });
+
+  it('should evict the least recently used URL', async () => {
+    const cache = createConditionalCache({ maxEntries: 2 });
+    const URL_C = 'https://registry.npmjs.com/-/v1/search?text=c';
+
+    await cache.remember(URL_A, etagResponse({}));
+    await cache.remember(URL_B, etagResponse({}));
+    cache.restore(URL_A);
+    await cache.remember(URL_C, etagResponse({}));
+
+    expect(cache.getHeaders(URL_A)).not.toBeNull();
+    expect(cache.getHeaders(URL_B)).toBeNull();
+    expect(cache.getHeaders(URL_C)).not.toBeNull();
+  });
+});
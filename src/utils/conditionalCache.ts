@@ -0,0 +1,143 @@
+const DEFAULT_MAX_ENTRIES = 100;
+
+// Response headers kept with the body and replayed on a 304
+const STORED_HEADERS = ['Content-Type', 'ETag', 'Last-Modified'];
+
+interface StoredResponse {
+  /** Response body as text */
+  body: string;
+  /** Stored response headers (Content-Type and validators) */
+  headers: Record<string, string>;
+}
+
+export interface ConditionalCacheOptions {
+  /** Maximum number of URLs whose response is kept (default: 100) */
+  maxEntries?: number;
+}
+
+export interface ConditionalCache {
+  /**
+   * Returns the conditional request headers for a URL.
+   *
+   * @param url - Registry URL about to be requested
+   * @returns If-None-Match and If-Modified-Since headers, or null when nothing is stored
+   */
+  getHeaders: (url: string) => Record<string, string> | null;
+  /**
+   * Stores the body and validators of a successful response.
+   *
+   * Responses without an ETag or Last-Modified header are not stored.
+   *
+   * @param url - Registry URL the response belongs to
+   * @param response - Successful response; its body is read from a clone
+   */
+  remember: (url: string, response: Response) => Promise<void>;
+  /**
+   * Rebuilds the stored response after a 304 Not Modified answer.
+   *
+   * @param url - Registry URL that was not modified
+   * @returns 200 response with the stored body, or undefined when nothing is stored
+   */
+  restore: (url: string) => Response | undefined;
+}
+
+/**
+ * Creates a cache of response validators for conditional registry requests.
+ *
+ * On direct connections, the registry client sends the stored ETag as
+ * If-None-Match and the stored Last-Modified date as If-Modified-Since.
+ * When the registry answers 304 Not Modified, the stored body is served
+ * instead of downloading the full search or `_all_docs` payload again. The
+ * least recently used URL is evicted once `maxEntries` is exceeded.
+ *
+ * @example
+ * ```typescript
+ * const client = createRegistryClient({
+ *   proxies: [DIRECT_CONNECTION],
+ *   conditionalCache: createConditionalCache({ maxEntries: 20 }),
+ * });
+ * ```
+ *
+ * @param options - Capacity
+ * @returns ConditionalCache
+ */
+export function createConditionalCache(
+  options: ConditionalCacheOptions = {},
+): ConditionalCache {
+  const { maxEntries = DEFAULT_MAX_ENTRIES } = options;
+  const entries = new Map<string, StoredResponse>();
+
+  const touch = (url: string) => {
+    const entry = entries.get(url);
+
+    // Re-insert so the URL becomes the most recently used
+    if (entry) {
+      entries.delete(url);
+      entries.set(url, entry);
+    }
+
+    return entry;
+  };
+
+  return {
+    getHeaders(url) {
+      const entry = entries.get(url);
+
+      if (!entry) {
+        return null;
+      }
+
+      const headers: Record<string, string> = {};
+      if (entry.headers.ETag) {
+        headers['If-None-Match'] = entry.headers.ETag;
+      }
+      if (entry.headers['Last-Modified']) {
+        headers['If-Modified-Since'] = entry.headers['Last-Modified'];
+      }
+      return headers;
+    },
+
+    async remember(url, response) {
+      if (
+        !response.headers.has('ETag') &&
+        !response.headers.has('Last-Modified')
+      ) {
+        entries.delete(url);
+        return;
+      }
+
+      let body: string;
+      try {
+        body = await response.clone().text();
+      } catch {
+        // The caller reading the original body sees the same failure
+        return;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const name of STORED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) {
+          headers[name] = value;
+        }
+      }
+
+      entries.delete(url);
+      entries.set(url, { body, headers });
+
+      if (entries.size > maxEntries) {
+        const [oldestUrl] = entries.keys();
+        entries.delete(oldestUrl);
+      }
+    },
+
+    restore(url) {
+      const entry = touch(url);
+
+      return (
+        entry &&
+        new Response(entry.body, { status: 200, headers: entry.headers })
+      );
+    },
+  };
+}
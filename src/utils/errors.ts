@@ -0,0 +1,144 @@
+/**
+ * Error classes thrown by the registry client and registry checks
+ */
+
+/** Registry endpoints queried by the availability checks */
+export type RegistryEndpoint =
+  | 'user-document'
+  | 'user-profile'
+  | 'user-search'
+  | 'org-packages'
+  | 'scope-replicate'
+  | 'scope-search'
+  | 'packument';
+
+interface RegistryHttpErrorOptions {
+  status: number;
+  statusText: string;
+  url: string;
+  endpoint: RegistryEndpoint;
+  retryAfterMs: number | null;
+  proxy?: string;
+}
+
+/**
+ * Error for a registry response with a non-2xx HTTP status.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await checkUserExists('some-user');
+ * } catch (error) {
+ *   if (error instanceof RegistryHttpError && error.status === 429) {
+ *     console.log('Retry after', error.retryAfterMs, 'ms');
+ *   }
+ * }
+ * ```
+ */
+export class RegistryHttpError extends Error {
+  /** HTTP status code of the response */
+  readonly status: number;
+  /** Registry URL that was requested (before proxying) */
+  readonly url: string;
+  /** Registry endpoint that was requested */
+  readonly endpoint: RegistryEndpoint;
+  /** Delay requested by the Retry-After header in milliseconds (null = absent) */
+  readonly retryAfterMs: number | null;
+  /** Name of the CORS proxy the request went through */
+  readonly proxy?: string;
+
+  constructor(options: RegistryHttpErrorOptions) {
+    super(`HTTP ${options.status.toString()}: ${options.statusText}`);
+    this.name = 'RegistryHttpError';
+    this.status = options.status;
+    this.url = options.url;
+    this.endpoint = options.endpoint;
+    this.retryAfterMs = options.retryAfterMs;
+    this.proxy = options.proxy;
+  }
+}
+
+/**
+ * Error for a request that could not reach the registry through a CORS proxy.
+ *
+ * The original network error is kept as `cause`.
+ */
+export class ProxyError extends Error {
+  /** Name of the CORS proxy that failed */
+  readonly proxy: string;
+
+  constructor(proxy: string, cause: Error) {
+    super(`CORS proxy "${proxy}" failed: ${cause.message}`, { cause });
+    this.name = 'ProxyError';
+    this.proxy = proxy;
+  }
+}
+
+const MAX_SNIPPET_LENGTH = 200;
+
+interface InvalidResponseErrorOptions {
+  url: string;
+  endpoint: RegistryEndpoint;
+  reason: string;
+  body: string;
+}
+
+/**
+ * Error for a successful response whose body is not the expected registry JSON,
+ * e.g. an HTML error page or a wrapped payload returned by a CORS proxy.
+ *
+ * The start of the body is kept as `snippet` for the technical details.
+ */
+export class InvalidResponseError extends Error {
+  /** Registry URL that was requested (before proxying) */
+  readonly url: string;
+  /** Registry endpoint that was requested */
+  readonly endpoint: RegistryEndpoint;
+  /** Start of the response body with whitespace collapsed */
+  readonly snippet: string;
+
+  constructor(options: InvalidResponseErrorOptions) {
+    super(`Invalid response from ${options.endpoint}: ${options.reason}`);
+    this.name = 'InvalidResponseError';
+    this.url = options.url;
+    this.endpoint = options.endpoint;
+
+    const body = options.body.replace(/\s+/g, ' ').trim();
+    this.snippet =
+      body.length > MAX_SNIPPET_LENGTH
+        ? `${body.slice(0, MAX_SNIPPET_LENGTH)}…`
+        : body;
+  }
+}
+
+/**
+ * Error for a request that was not sent because the circuit breaker is open
+ * after repeated registry or proxy failures.
+ */
+export class CircuitOpenError extends Error {
+  /** When the circuit lets the next request through (epoch milliseconds) */
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super(
+      `Registry unreachable, next retry at ${new Date(retryAt).toISOString()}`,
+    );
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Error for an availability check that could not be answered while offline
+ * because no cached result exists for the name.
+ */
+export class OfflineError extends Error {
+  /** Name that was checked */
+  readonly checkedName: string;
+
+  constructor(checkedName: string) {
+    super(`No cached result for "${checkedName}" while offline`);
+    this.name = 'OfflineError';
+    this.checkedName = checkedName;
+  }
+}
@@ -0,0 +1,19 @@
+import { getPunctuationVariants } from './nameVariants';
+
+describe('getPunctuationVariants', () => {
+  it.each([
+    ['my-org', ['myorg', 'my_org', 'my.org']],
+    ['my_org', ['myorg', 'my-org', 'my.org']],
+    ['my.org', ['myorg', 'my-org', 'my_org']],
+    ['My-Org', ['myorg', 'my_org', 'my.org']],
+    [' my-org ', ['myorg', 'my_org', 'my.org']],
+    ['a-b_c', ['abc', 'a-b-c', 'a_b_c', 'a.b.c']],
+    ['my--org', ['myorg', 'my-org', 'my_org', 'my.org']],
+    ['-org-', ['org']],
+    ['myorg', []],
+    ['-', []],
+    ['', []],
+  ])('should derive the variants of %j', (name, variants) => {
+    expect(getPunctuationVariants(name)).toEqual(variants);
+  });
+});
@@ -0,0 +1,37 @@
+// Separators npm ignores when comparing names for confusing similarity
+const SEPARATORS = ['-', '_', '.'];
+const SEPARATOR_RUN = /[-_.]+/;
+
+/**
+ * Derives the punctuation variants of a name.
+ *
+ * npm's moniker rules treat names that only differ in punctuation as
+ * confusingly similar, e.g. `my-org`, `my_org`, `my.org` and `myorg`. The
+ * variants join all parts of the name with one separator, or with none.
+ *
+ * The check only works in one direction: the separators already in the name
+ * can be swapped or dropped, but none are added. `my-org` finds `myorg`, while
+ * `myorg` has no variants (`my-org` could split it anywhere). Mixed
+ * separators are not combined either, so `a-b_c` finds `a_b_c` but not
+ * `a_b-c`.
+ *
+ * @example
+ * ```typescript
+ * getPunctuationVariants('my-org'); // ['myorg', 'my_org', 'my.org']
+ * ```
+ *
+ * @param name - The name to derive variants of
+ * @returns Lowercase variants, excluding the name itself
+ */
+export function getPunctuationVariants(name: string): string[] {
+  const normalizedName = name.trim().toLowerCase();
+  const parts = normalizedName.split(SEPARATOR_RUN).filter(Boolean);
+
+  const variants = new Set(
+    ['', ...SEPARATORS].map((separator) => parts.join(separator)),
+  );
+  variants.delete(normalizedName);
+  variants.delete('');
+
+  return [...variants];
+}
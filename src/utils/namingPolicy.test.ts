@@ -0,0 +1,151 @@
+import { createFakeFetch, jsonResponse } from 'src/test/mocks/fetch';
+import { ValidationErrorType } from 'src/types';
+
+import {
+  createPolicyRules,
+  loadNamingPolicy,
+  parseNamingPolicy,
+} from './namingPolicy';
+import { npmNamingRules, validateOrganizationName } from './validation';
+
+const POLICY_URL = 'https://example.com/naming-policy.json';
+
+const policyFile = {
+  maxLength: 20,
+  bannedWords: ['internal', 'test-only'],
+  requiredPrefixes: ['acme-', 'acme.'],
+};
+
+describe('parseNamingPolicy', () => {
+  it.each([[policyFile], [{}], [{ severity: 'warning' }]])(
+    'should accept %j',
+    (value) => {
+      expect(parseNamingPolicy(value)).toEqual(value);
+    },
+  );
+
+  it.each([
+    [null, 'expected a JSON object'],
+    [['internal'], 'expected a JSON object'],
+    [{ maxLength: 0 }, '"maxLength" must be a positive integer'],
+    [{ maxLength: '20' }, '"maxLength" must be a positive integer'],
+    [{ maxLength: 2.5 }, '"maxLength" must be a positive integer'],
+    [{ bannedWords: 'internal' }, '"bannedWords" must be an array of strings'],
+    [
+      { requiredPrefixes: [1] },
+      '"requiredPrefixes" must be an array of strings',
+    ],
+    [{ severity: 'info' }, '"severity" must be "error" or "warning"'],
+  ])('should reject %j', (value, message) => {
+    expect(() => parseNamingPolicy(value)).toThrow(
+      new TypeError(`Invalid naming policy: ${message}`),
+    );
+  });
+});
+
+describe('loadNamingPolicy', () => {
+  it('should fetch and parse the policy file', async () => {
+    const fetch = createFakeFetch(() => jsonResponse(policyFile));
+
+    await expect(loadNamingPolicy(POLICY_URL, { fetch })).resolves.toEqual(
+      policyFile,
+    );
+    expect(fetch).toHaveBeenCalledWith(POLICY_URL, {
+      signal: undefined,
+    });
+  });
+
+  it('should reject a missing policy file', async () => {
+    const fetch = createFakeFetch(
+      () => new Response('Not Found', { status: 404 }),
+    );
+
+    await expect(loadNamingPolicy(POLICY_URL, { fetch })).rejects.toThrow(
+      'Failed to load naming policy: HTTP 404',
+    );
+  });
+
+  it('should reject an invalid policy file', async () => {
+    const fetch = createFakeFetch(() => jsonResponse({ maxLength: -1 }));
+
+    await expect(
+      loadNamingPolicy(POLICY_URL, { fetch }),
+    ).rejects.toBeInstanceOf(TypeError);
+  });
+});
+
+describe('createPolicyRules', () => {
+  const rules = [...npmNamingRules, ...createPolicyRules(policyFile)];
+  const getErrors = (name: string) =>
+    validateOrganizationName(name, rules).errors.map((error) => ({
+      ruleId: error.ruleId,
+      type: error.type,
+      message: error.message,
+    }));
+
+  it('should create no rules for an empty policy', () => {
+    expect(createPolicyRules({})).toEqual([]);
+  });
+
+  it('should accept names that follow the policy', () => {
+    expect(getErrors('acme-payments')).toEqual([]);
+    expect(getErrors('acme.tools')).toEqual([]);
+  });
+
+  it('should enforce the stricter maximum length', () => {
+    expect(getErrors('acme-payments-gateway')).toEqual([
+      {
+        ruleId: 'policy/max-length',
+        type: ValidationErrorType.TOO_LONG,
+        message: 'Name cannot exceed 20 characters under the naming policy',
+      },
+    ]);
+  });
+
+  it('should require one of the prefixes', () => {
+    expect(getErrors('payments')).toEqual([
+      {
+        ruleId: 'policy/required-prefix',
+        type: ValidationErrorType.MISSING_PREFIX,
+        message: 'Name must start with "acme-" or "acme."',
+      },
+    ]);
+  });
+
+  it.each([
+    ['acme-internal', '"internal"'],
+    ['acme-Internal_tools', '"internal"'],
+    ['acme.test-only', '"test-only"'],
+    ['acme-internal-test_only', '"internal", "test-only"'],
+  ])('should ban the words in %s', (name, words) => {
+    expect(
+      validateOrganizationName(
+        name,
+        createPolicyRules({ bannedWords: policyFile.bannedWords }),
+      ).errors,
+    ).toEqual([
+      {
+        type: ValidationErrorType.BANNED_WORD,
+        message: `The naming policy bans ${words}`,
+        ruleId: 'policy/banned-word',
+      },
+    ]);
+  });
+
+  it('should only ban whole words', () => {
+    expect(getErrors('acme-internals')).toEqual([]);
+    expect(getErrors('acme-testonly')).toEqual([]);
+  });
+
+  it('should report policy violations as warnings with the warning severity', () => {
+    const result = validateOrganizationName('payments', [
+      ...npmNamingRules,
+      ...createPolicyRules({ ...policyFile, severity: 'warning' }),
+    ]);
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map((warning) => warning.ruleId)).toEqual([
+      'policy/required-prefix',
+    ]);
+  });
+});
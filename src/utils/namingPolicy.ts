@@ -0,0 +1,174 @@
+import type { ValidationRule, ValidationSeverity } from 'src/types';
+import { ValidationErrorType } from 'src/types';
+
+/** Team naming policy, e.g. loaded from a JSON policy file */
+export interface NamingPolicy {
+  /** Maximum name length, stricter than npm's */
+  maxLength?: number;
+  /** Words that cannot appear as a hyphen, dot or underscore separated part of the name */
+  bannedWords?: string[];
+  /** Prefixes of which the name must start with one */
+  requiredPrefixes?: string[];
+  /** Severity of every policy rule (default: error) */
+  severity?: ValidationSeverity;
+}
+
+export interface LoadNamingPolicyOptions {
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof globalThis.fetch;
+  /** Signal that cancels the request */
+  signal?: AbortSignal;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Treats `.` and `_` like `-`, so banned words match any separated part
+const toWords = (value: string) =>
+  `-${value.toLowerCase().replace(/[._]/g, '-')}-`;
+
+/**
+ * Checks a parsed JSON policy file and returns it as a naming policy.
+ *
+ * @example
+ * ```typescript
+ * import policyFile from './naming-policy.json';
+ *
+ * const policy = parseNamingPolicy(policyFile);
+ * ```
+ *
+ * @param value - Parsed JSON policy file
+ * @returns The naming policy
+ * @throws TypeError naming the first invalid field
+ */
+export function parseNamingPolicy(value: unknown): NamingPolicy {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('Invalid naming policy: expected a JSON object');
+  }
+
+  const policy = value as Record<string, unknown>;
+
+  if (
+    policy.maxLength !== undefined &&
+    !(Number.isInteger(policy.maxLength) && Number(policy.maxLength) > 0)
+  ) {
+    throw new TypeError(
+      'Invalid naming policy: "maxLength" must be a positive integer',
+    );
+  }
+
+  for (const field of ['bannedWords', 'requiredPrefixes']) {
+    if (policy[field] !== undefined && !isStringArray(policy[field])) {
+      throw new TypeError(
+        `Invalid naming policy: "${field}" must be an array of strings`,
+      );
+    }
+  }
+
+  if (
+    policy.severity !== undefined &&
+    policy.severity !== 'error' &&
+    policy.severity !== 'warning'
+  ) {
+    throw new TypeError(
+      'Invalid naming policy: "severity" must be "error" or "warning"',
+    );
+  }
+
+  return policy as NamingPolicy;
+}
+
+/**
+ * Loads a naming policy from a JSON policy file.
+ *
+ * @param url - URL of the JSON policy file
+ * @param options - Fetch implementation and abort signal
+ * @returns Promise that resolves to the naming policy
+ * @throws Error when the file cannot be fetched, TypeError when it is invalid
+ */
+export async function loadNamingPolicy(
+  url: string,
+  options: LoadNamingPolicyOptions = {},
+): Promise<NamingPolicy> {
+  const { fetch = globalThis.fetch, signal } = options;
+  const response = await fetch(url, { signal });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load naming policy: HTTP ${response.status.toString()}`,
+    );
+  }
+
+  return parseNamingPolicy(await response.json());
+}
+
+/**
+ * Turns a naming policy into validation rules.
+ *
+ * Rules:
+ * - policy/max-length: name is at most `maxLength` characters
+ * - policy/banned-word: no banned word appears as a part of the name
+ *   separated by `-`, `.` or `_` (case-insensitive)
+ * - policy/required-prefix: name starts with one of `requiredPrefixes`
+ *
+ * Combine them with npm's rules so names still have to be valid on npm.
+ *
+ * @example
+ * ```typescript
+ * const rules = [
+ *   ...npmNamingRules,
+ *   ...createPolicyRules({ bannedWords: ['internal'], maxLength: 30 }),
+ * ];
+ *
+ * useOrgNameValidator({ rules });
+ * ```
+ *
+ * @param policy - Team naming policy
+ * @returns Validation rules for the fields the policy sets
+ */
+export function createPolicyRules(policy: NamingPolicy): ValidationRule[] {
+  const { maxLength, bannedWords = [], requiredPrefixes = [] } = policy;
+  const severity = policy.severity ?? 'error';
+  const rules: ValidationRule[] = [];
+
+  if (maxLength !== undefined) {
+    rules.push({
+      id: 'policy/max-length',
+      severity,
+      type: ValidationErrorType.TOO_LONG,
+      check: (name) => name.length <= maxLength,
+      message: `Name cannot exceed ${maxLength.toString()} characters under the naming policy`,
+    });
+  }
+
+  if (bannedWords.length > 0) {
+    const findBannedWords = (name: string) =>
+      bannedWords.filter((word) => toWords(name).includes(toWords(word)));
+
+    rules.push({
+      id: 'policy/banned-word',
+      severity,
+      type: ValidationErrorType.BANNED_WORD,
+      check: (name) => findBannedWords(name).length === 0,
+      message: (name) =>
+        `The naming policy bans ${findBannedWords(name)
+          .map((word) => `"${word}"`)
+          .join(', ')}`,
+    });
+  }
+
+  if (requiredPrefixes.length > 0) {
+    rules.push({
+      id: 'policy/required-prefix',
+      severity,
+      type: ValidationErrorType.MISSING_PREFIX,
+      check: (name) =>
+        requiredPrefixes.some((prefix) => name.startsWith(prefix)),
+      message: `Name must start with ${requiredPrefixes
+        .map((prefix) => `"${prefix}"`)
+        .join(' or ')}`,
+    });
+  }
+
+  return rules;
+}
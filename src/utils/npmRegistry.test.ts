@@ -1,12 +1,54 @@
+import { createFakeFetch, jsonResponse } from 'src/test/mocks/fetch';
+import {
+  emptyOrgPackagesFixture,
+  orgNotFoundResponse,
+  orgPackagesFixture,
+} from 'src/test/mocks/npmOrg';
+import {
+  profilePageResponse,
+  userDocumentFixture,
+  userNotFoundResponse,
+} from 'src/test/mocks/npmUser';
 import { ApiErrorType } from 'src/types';
+import { createAvailabilityCache } from 'src/utils/availabilityCache';
+import {
+  CircuitOpenError,
+  InvalidResponseError,
+  OfflineError,
+  ProxyError,
+  RegistryHttpError,
+} from 'src/utils/errors';
 import type { NameAvailabilityResult } from 'src/utils/npmRegistry';
+import {
+  createRegistryClient,
+  DIRECT_CONNECTION,
+} from 'src/utils/registryClient';
+import { createRequestScheduler } from 'src/utils/requestScheduler';
+import { RetryError } from 'src/utils/retry';
 
 import {
   checkNameAvailability,
+  checkOrgExists,
+  checkScopeExists,
+  checkUserDocument,
   checkUserExists,
+  checkUserProfile,
   createApiError,
+  getPackageState,
+  listOrgPackages,
+  listScopePackages,
+  lookupUser,
+  searchScopePackages,
+  searchUserPackages,
 } from './npmRegistry';
 
+// HTML error page returned by a CORS proxy in place of the registry JSON
+const proxyErrorPage = () =>
+  new Response(
+    '<!DOCTYPE html>\n<html>\n  <title>502 Bad Gateway</title>\n</html>',
+    { status: 200, headers: { 'Content-Type': 'text/html' } },
+  );
+
 // Mock fetch globally
 Object.defineProperty(globalThis, 'fetch', {
   value: vi.fn(),
@@ -45,6 +87,30 @@ describe('createApiError', () => {
     expect(apiError.timestamp).toBeInstanceOf(Date);
   });
 
+  it('should create timeout error from TimeoutError', () => {
+    const error = new DOMException('Request timeout', 'TimeoutError');
+    const apiError = createApiError(error);
+
+    expect(apiError.type).toBe(ApiErrorType.TIMEOUT_ERROR);
+    expect(apiError.message).toBe('Request timeout');
+  });
+
+  it('should create circuit open error with the delay until the next retry', () => {
+    vi.useFakeTimers({ now: 10000 });
+    const error = new CircuitOpenError(40000);
+    const apiError = createApiError(error);
+    const expired = createApiError(new CircuitOpenError(5000));
+    vi.useRealTimers();
+
+    expect(apiError.type).toBe(ApiErrorType.CIRCUIT_OPEN);
+    expect(apiError.message).toBe(
+      'Registry unreachable, next retry at 1970-01-01T00:00:40.000Z',
+    );
+    expect(apiError.retryAfterMs).toBe(30000);
+    expect(expired.retryAfterMs).toBe(0);
+    expect(apiError.cause).toBe(error);
+  });
+
   it('should create server error with status code', () => {
     const error = new Error('Internal Server Error') as Error & {
       status: number;
@@ -58,6 +124,114 @@ describe('createApiError', () => {
     expect(apiError.timestamp).toBeInstanceOf(Date);
   });
 
+  it('should keep the CORS proxy the request went through', () => {
+    const error = Object.assign(new Error('Network error'), {
+      proxy: 'corsmirror',
+    });
+    const apiError = createApiError(error);
+
+    expect(apiError.type).toBe(ApiErrorType.NETWORK_ERROR);
+    expect(apiError.proxy).toBe('corsmirror');
+  });
+
+  it('should create rate limited error with Retry-After delay', () => {
+    const error = new RegistryHttpError({
+      status: 429,
+      statusText: 'Too Many Requests',
+      url: 'https://registry.npmjs.com/-/v1/search?text=author%3Atest',
+      endpoint: 'user-search',
+      retryAfterMs: 30000,
+      proxy: 'corsmirror',
+    });
+    const apiError = createApiError(error);
+
+    expect(apiError.type).toBe(ApiErrorType.RATE_LIMITED);
+    expect(apiError.message).toBe('HTTP 429: Too Many Requests');
+    expect(apiError.statusCode).toBe(429);
+    expect(apiError.retryAfterMs).toBe(30000);
+    expect(apiError.endpoint).toBe('user-search');
+    expect(apiError.proxy).toBe('corsmirror');
+    expect(apiError.cause).toBe(error);
+  });
+
+  it.each([
+    [404, 'Not Found', ApiErrorType.NOT_FOUND],
+    [500, 'Internal Server Error', ApiErrorType.SERVER_ERROR],
+    [503, 'Service Unavailable', ApiErrorType.SERVER_ERROR],
+    [403, 'Forbidden', ApiErrorType.UNKNOWN_ERROR],
+  ])(
+    'should map HTTP %i responses precisely',
+    (status, statusText, expectedType) => {
+      const error = new RegistryHttpError({
+        status,
+        statusText,
+        url: 'https://replicate.npmjs.com/_all_docs',
+        endpoint: 'scope-replicate',
+        retryAfterMs: null,
+      });
+      const apiError = createApiError(error);
+
+      expect(apiError.type).toBe(expectedType);
+      expect(apiError.statusCode).toBe(status);
+      expect(apiError.endpoint).toBe('scope-replicate');
+      expect(apiError.retryAfterMs).toBeUndefined();
+      expect(apiError.cause).toBe(error);
+    },
+  );
+
+  it('should create proxy error', () => {
+    const error = new ProxyError('corsmirror', new Error('Network error'));
+    const apiError = createApiError(error);
+
+    expect(apiError.type).toBe(ApiErrorType.PROXY_ERROR);
+    expect(apiError.message).toBe(
+      'CORS proxy "corsmirror" failed: Network error',
+    );
+    expect(apiError.proxy).toBe('corsmirror');
+    expect(apiError.cause).toBe(error);
+  });
+
+  it('should create invalid response error for unparseable bodies', () => {
+    const error = new SyntaxError('Unexpected token < in JSON');
+    const apiError = createApiError(error);
+
+    expect(apiError.type).toBe(ApiErrorType.INVALID_RESPONSE);
+    expect(apiError.message).toBe('Unexpected token < in JSON');
+  });
+
+  it('should create invalid response error with the body snippet', () => {
+    const error = new InvalidResponseError({
+      url: 'https://registry.npmjs.com/-/v1/search?text=author%3Asomeone&size=10',
+      endpoint: 'user-search',
+      reason: 'body is not JSON',
+      body: '<html>\n  <title>502 Bad Gateway</title>\n</html>',
+    });
+    const apiError = createApiError(error);
+
+    expect(apiError).toMatchObject({
+      type: ApiErrorType.INVALID_RESPONSE,
+      message: 'Invalid response from user-search: body is not JSON',
+      endpoint: 'user-search',
+      responseSnippet: '<html> <title>502 Bad Gateway</title> </html>',
+    });
+  });
+
+  it('should unwrap retry errors and report the attempt count', () => {
+    const cause = new RegistryHttpError({
+      status: 503,
+      statusText: 'Service Unavailable',
+      url: 'https://replicate.npmjs.com/_all_docs',
+      endpoint: 'scope-replicate',
+      retryAfterMs: null,
+    });
+    const apiError = createApiError(new RetryError(cause, 3));
+
+    expect(apiError.type).toBe(ApiErrorType.SERVER_ERROR);
+    expect(apiError.statusCode).toBe(503);
+    expect(apiError.attempts).toBe(3);
+    expect(apiError.cause).toBe(cause);
+  });
+
   it('should create unknown error for unhandled cases', () => {
     const error = new Error('Unknown error occurred');
     const apiError = createApiError(error);
@@ -69,17 +243,15 @@ describe('createApiError', () => {
   });
 });
 
-describe('checkUserExists', () => {
+describe('searchUserPackages', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  it('should return true when user exists (packages found)', async () => {
+  it('should return the packages when the author has published some', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [
           {
             package: {
@@ -97,13 +269,13 @@ describe('checkUserExists', () => {
         total: 1,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    const result = await checkUserExists('existing-user');
+    const result = await searchUserPackages('existing-user');
 
-    expect(result).toBe(true);
+    expect(result.packages).toEqual(['test-package']);
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%3Aexisting-user%26size%3D1',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%253Aexisting-user%26size%3D10',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -111,68 +283,89 @@ describe('checkUserExists', () => {
     );
   });
 
-  it('should return false when user does not exist (no packages)', async () => {
+  it('should return every package of an author with several', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      jsonResponse({
+        objects: [
+          { package: { name: 'first-package' } },
+          { package: { name: 'second-package' } },
+          { package: { name: 'third-package' } },
+        ],
+        total: 3,
+        time: '2026-02-22T00:00:00.000Z',
+      }),
+    );
+
+    await expect(searchUserPackages('prolific-user')).resolves.toEqual({
+      packages: ['first-package', 'second-package', 'third-package'],
+      total: 3,
+    });
+  });
+
+  it('should return no packages when the author has none', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [],
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    const result = await checkUserExists('non-existing-user');
+    const result = await searchUserPackages('non-existing-user');
 
-    expect(result).toBe(false);
+    expect(result.packages).toEqual([]);
   });
 
   it('should handle empty objects array', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [],
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    const result = await checkUserExists('test-user');
+    const result = await searchUserPackages('test-user');
 
-    expect(result).toBe(false);
+    expect(result.packages).toEqual([]);
   });
 
   it('should handle malformed response (missing objects)', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    const result = await checkUserExists('test-user');
+    const result = await searchUserPackages('test-user');
 
-    expect(result).toBe(false);
+    expect(result.packages).toEqual([]);
   });
 
   it('should handle network errors', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockRejectedValueOnce(new Error('Network error'));
+    // Fails through corsmirror, then direct
+    mockFetch
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockRejectedValueOnce(new Error('Network error'));
 
-    await expect(checkUserExists('test-user')).rejects.toThrow('Network error');
+    await expect(searchUserPackages('test-user')).rejects.toThrow(
+      'Network error',
+    );
   });
 
   it('should handle CORS errors', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    // Fails through corsmirror, then direct
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
 
-    await expect(checkUserExists('test-user')).rejects.toThrow(
+    await expect(searchUserPackages('test-user')).rejects.toThrow(
       'Failed to fetch',
     );
   });
@@ -181,20 +374,31 @@ describe('checkUserExists', () => {
     const mockFetch = vi.mocked(fetch);
     mockFetch.mockRejectedValueOnce(new DOMException('Timeout', 'AbortError'));
 
-    await expect(checkUserExists('test-user')).rejects.toThrow('Timeout');
+    await expect(searchUserPackages('test-user')).rejects.toThrow('Timeout');
   });
 
   it('should handle server errors (500)', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
+    const serverError = {
       status: 500,
       ok: false,
       statusText: 'Internal Server Error',
-    } as unknown as Response);
+      headers: new Headers(),
+    } as unknown as Response;
+    // Fails through corsmirror, then direct
+    mockFetch
+      .mockResolvedValueOnce(serverError)
+      .mockResolvedValueOnce(serverError);
 
-    await expect(checkUserExists('test-user')).rejects.toThrow(
-      'Internal Server Error',
-    );
+    const promise = searchUserPackages('test-user');
+
+    await expect(promise).rejects.toThrow('Internal Server Error');
+    await expect(promise).rejects.toMatchObject({
+      status: 500,
+      endpoint: 'user-search',
+      url: 'https://registry.npmjs.com/-/v1/search?text=author%3Atest-user&size=10',
+      proxy: 'direct',
+    });
   });
 
   it('should handle HTTP 403 errors', async () => {
@@ -203,36 +407,38 @@ describe('checkUserExists', () => {
       status: 403,
       ok: false,
       statusText: 'Forbidden',
+      headers: new Headers(),
     } as unknown as Response);
 
-    await expect(checkUserExists('test-user')).rejects.toThrow('Forbidden');
+    await expect(searchUserPackages('test-user')).rejects.toThrow('Forbidden');
   });
 
   it('should handle unknown errors', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockRejectedValueOnce('string error');
+    // Fails through corsmirror, then direct
+    mockFetch
+      .mockRejectedValueOnce('string error')
+      .mockRejectedValueOnce('string error');
 
-    await expect(checkUserExists('test-user')).rejects.toThrow(
+    await expect(searchUserPackages('test-user')).rejects.toThrow(
       'Unknown error occurred',
     );
   });
 
   it('should use correct URL format', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [],
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    await checkUserExists('my-test-user');
+    await searchUserPackages('my-test-user');
 
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%3Amy-test-user%26size%3D1',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%253Amy-test-user%26size%3D10',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -242,20 +448,18 @@ describe('checkUserExists', () => {
 
   it('should handle special characters in user name', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [],
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    await checkUserExists('user-with-123');
+    await searchUserPackages('user-with-123');
 
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%3Auser-with-123%26size%3D1',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%253Auser-with-123%26size%3D10',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -265,20 +469,18 @@ describe('checkUserExists', () => {
 
   it('should handle user names with underscores', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [],
         total: 0,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
-    await checkUserExists('user_name_test');
+    await searchUserPackages('user_name_test');
 
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%3Auser_name_test%26size%3D1',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Dauthor%253Auser_name_test%26size%3D10',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -288,14 +490,252 @@ describe('checkUserExists', () => {
 
   it('should handle JSON parsing errors', async () => {
     const mockFetch = vi.mocked(fetch);
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockRejectedValueOnce(new Error('Invalid JSON')),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(new Response('not json'));
+
+    await expect(searchUserPackages('test-user')).rejects.toThrow(
+      'Invalid response from user-search: body is not JSON',
+    );
+  });
+
+  it('should reject an HTML error page from the proxy with a body snippet', async () => {
+    const fetch = createFakeFetch(proxyErrorPage);
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const promise = searchUserPackages('test-user', { client });
+
+    await expect(promise).rejects.toBeInstanceOf(InvalidResponseError);
+    await expect(promise).rejects.toMatchObject({
+      endpoint: 'user-search',
+      url: 'https://registry.npmjs.com/-/v1/search?text=author%3Atest-user&size=10',
+      snippet: '<!DOCTYPE html> <html> <title>502 Bad Gateway</title> </html>',
+    });
+  });
+
+  it('should reject a payload wrapped by the proxy', async () => {
+    const body = { objects: [], total: 0, time: '' };
+    const fetch = createFakeFetch(() =>
+      jsonResponse({ contents: JSON.stringify(body), status: { code: 200 } }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(searchUserPackages('test-user', { client })).rejects.toThrow(
+      'Invalid response from user-search: body does not match the expected shape',
+    );
+  });
+
+  it('should truncate long response bodies in the snippet', async () => {
+    const fetch = createFakeFetch(
+      () => new Response(`<html>${'x'.repeat(500)}</html>`),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const error: unknown = await searchUserPackages('test-user', {
+      client,
+    }).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect((error as InvalidResponseError).snippet).toBe(
+      `<html>${'x'.repeat(194)}…`,
+    );
+  });
+
+  it('should return the package names and total of the author search', async () => {
+    const fetch = createFakeFetch(() =>
+      jsonResponse({
+        objects: [{ package: { name: 'left-pad' } }],
+        total: 3,
+        time: '',
+      }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(searchUserPackages('someone', { client })).resolves.toEqual({
+      packages: ['left-pad'],
+      total: 3,
+    });
+  });
+});
+
+describe('checkUserExists', () => {
+  const createRegistry = (
+    userDocument: () => Response,
+    profilePage: () => Response,
+    objects: { package: { name: string } }[] = [],
+  ) => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userDocument();
+      }
+      if (url.pathname.startsWith('/~')) {
+        return profilePage();
+      }
+      return jsonResponse({ objects, total: objects.length, time: '' });
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  const unauthorized = () =>
+    jsonResponse({}, { status: 401, statusText: 'Unauthorized' });
+
+  it('should find users without packages via the user document', async () => {
+    const { client, fetch } = createRegistry(
+      () => jsonResponse(userDocumentFixture('new-user')),
+      unauthorized,
+    );
+
+    await expect(checkUserExists('new-user', { client })).resolves.toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://registry.npmjs.com/-/user/org.couchdb.user:new-user',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should return false when the user document is not found', async () => {
+    const { client, fetch } = createRegistry(userNotFoundResponse, () =>
+      profilePageResponse('free-name'),
+    );
+
+    await expect(checkUserExists('free-name', { client })).resolves.toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the profile page', async () => {
+    const { client, fetch } = createRegistry(unauthorized, () =>
+      profilePageResponse('new-user'),
+    );
 
-    await expect(checkUserExists('test-user')).rejects.toThrow('Invalid JSON');
+    await expect(checkUserExists('new-user', { client })).resolves.toBe(true);
+    expect(fetch).toHaveBeenLastCalledWith(
+      'https://www.npmjs.com/~new-user',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should fall back to the profile page when the user document is invalid', async () => {
+    const { client, fetch } = createRegistry(proxyErrorPage, () =>
+      profilePageResponse('new-user'),
+    );
+
+    await expect(lookupUser('new-user', { client })).resolves.toEqual({
+      exists: true,
+      method: 'profile-page',
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the author search', async () => {
+    const { client, fetch } = createRegistry(unauthorized, unauthorized, [
+      { package: { name: 'left-pad' } },
+    ]);
+
+    await expect(checkUserExists('someone', { client })).resolves.toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
   });
+
+  it('should throw the author search error when every lookup fails', async () => {
+    const fetch = createFakeFetch(() =>
+      jsonResponse({}, { status: 403, statusText: 'Forbidden' }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(checkUserExists('someone', { client })).rejects.toMatchObject({
+      status: 403,
+      endpoint: 'user-search',
+    });
+  });
+
+  it('should not fall back once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetch = createFakeFetch(() => {
+      controller.abort();
+      return Promise.reject(controller.signal.reason as Error);
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(
+      checkUserExists('someone', { client, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('lookupUser', () => {
+  it.each([
+    ['user-document', jsonResponse(userDocumentFixture('someone')), null],
+    ['profile-page', null, profilePageResponse('someone')],
+    ['author-search', null, null],
+  ] as const)(
+    'should record that the %s decided',
+    async (method, userDocument, profilePage) => {
+      const fetch = createFakeFetch((url) => {
+        if (url.pathname.startsWith('/-/user/')) {
+          return userDocument ?? jsonResponse({}, { status: 401 });
+        }
+        if (url.pathname.startsWith('/~')) {
+          return profilePage ?? jsonResponse({}, { status: 403 });
+        }
+        return jsonResponse({ objects: [], total: 0, time: '' });
+      });
+      const client = createRegistryClient({
+        proxies: [DIRECT_CONNECTION],
+        fetch,
+      });
+
+      await expect(lookupUser('someone', { client })).resolves.toEqual({
+        exists: method !== 'author-search',
+        method,
+      });
+    },
+  );
+});
+
+describe('user document and profile page lookups', () => {
+  it.each([
+    ['checkUserDocument', checkUserDocument, ''],
+    ['checkUserDocument', checkUserDocument, '.'],
+    ['checkUserProfile', checkUserProfile, ''],
+    ['checkUserProfile', checkUserProfile, '.'],
+  ] as const)(
+    'should reject instead of throwing when %s gets %j',
+    async (_, check, userName) => {
+      const fetch = createFakeFetch(userNotFoundResponse);
+      const client = createRegistryClient({
+        proxies: [DIRECT_CONNECTION],
+        fetch,
+      });
+
+      let promise: Promise<boolean> | undefined;
+      expect(() => {
+        promise = check(userName, { client });
+      }).not.toThrow();
+
+      await expect(promise).rejects.toBeInstanceOf(RangeError);
+      expect(fetch).not.toHaveBeenCalled();
+    },
+  );
 });
 
 // User Story 2: Scope Checking Tests
@@ -324,11 +764,7 @@ describe('checkScopeExists', () => {
       ],
     };
 
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce(mockResponse),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
     // Import checkScopeExists after mocking is set up
     const { checkScopeExists } = await import('./npmRegistry');
@@ -336,7 +772,7 @@ describe('checkScopeExists', () => {
 
     expect(result).toBe(true);
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Freplicate.npmjs.com%2F_all_docs%3Fstartkey%3D%22%40angular%2F%22%26endkey%3D%22%40angular%2F%EF%BF%B0%22',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Freplicate.npmjs.com%2F_all_docs%3Fstartkey%3D%2522%2540angular%252F%2522%26endkey%3D%2522%2540angular%252F%25EF%25BF%25B0%2522',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -354,17 +790,13 @@ describe('checkScopeExists', () => {
       rows: [],
     };
 
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce(mockResponse),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
     const { checkScopeExists } = await import('./npmRegistry');
     await checkScopeExists('scope_name-test');
 
     expect(mockFetch).toHaveBeenCalledWith(
-      'https://corsmirror.com/v1?url=https%3A%2F%2Freplicate.npmjs.com%2F_all_docs%3Fstartkey%3D%22%40scope_name-test%2F%22%26endkey%3D%22%40scope_name-test%2F%EF%BF%B0%22',
+      'https://corsmirror.com/v1?url=https%3A%2F%2Freplicate.npmjs.com%2F_all_docs%3Fstartkey%3D%2522%2540scope_name-test%252F%2522%26endkey%3D%2522%2540scope_name-test%252F%25EF%25BF%25B0%2522',
       {
         method: 'GET',
         signal: expect.any(AbortSignal) as AbortSignal,
@@ -382,43 +814,38 @@ describe('checkNameAvailability with scope checking (User Story 2)', () => {
 
   it('should return unavailable with org URL when user exists', async () => {
     const mockFetch = vi.mocked(fetch);
-    // Mock user exists
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    // Mock user exists, with its packages as evidence
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse(userDocumentFixture('taken-username')),
+    );
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         objects: [{ package: { name: 'test-package' } }],
         total: 1,
         time: '2026-02-22T00:00:00.000Z',
       }),
-    } as unknown as Response);
+    );
 
     const result: NameAvailabilityResult =
       await checkNameAvailability('taken-username');
 
     expect(result.isAvailable).toBe(false);
+    expect(result.conflict).toBe('user');
     expect(result.orgUrl).toBe('https://www.npmjs.com/org/taken-username');
-    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
   });
 
   it('should return unavailable with org URL when scope exists', async () => {
     const mockFetch = vi.mocked(fetch);
     // Mock user doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
-        objects: [],
-        total: 0,
-        time: '2026-02-22T00:00:00.000Z',
-      }),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(userNotFoundResponse());
+
+    // Mock org doesn't exist
+    mockFetch.mockResolvedValueOnce(orgNotFoundResponse());
 
     // Mock scope exists
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         total_rows: 10,
         offset: 0,
         rows: [
@@ -429,107 +856,2114 @@ describe('checkNameAvailability with scope checking (User Story 2)', () => {
           },
         ],
       }),
-    } as unknown as Response);
+    );
+
+    // Mock the package document of the only package
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        name: '@scope/package',
+        'dist-tags': { latest: '1.0.0' },
+      }),
+    );
 
     const result: NameAvailabilityResult =
       await checkNameAvailability('taken-scope');
 
     expect(result.isAvailable).toBe(false);
     expect(result.orgUrl).toBe('https://www.npmjs.com/org/taken-scope');
-    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
   });
 
   it('should return available with org URL when user and scope do not exist', async () => {
     const mockFetch = vi.mocked(fetch);
     // Mock user doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
-        objects: [],
-        total: 0,
-        time: '2026-02-22T00:00:00.000Z',
-      }),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(userNotFoundResponse());
+
+    // Mock org doesn't exist
+    mockFetch.mockResolvedValueOnce(orgNotFoundResponse());
 
     // Mock scope doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         total_rows: 0,
         offset: 0,
         rows: [],
       }),
-    } as unknown as Response);
+    );
 
     const result: NameAvailabilityResult =
       await checkNameAvailability('available-name');
 
     expect(result.isAvailable).toBe(true);
     expect(result.orgUrl).toBe('https://www.npmjs.com/org/available-name');
-    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
   });
 
   it('should always return org URL regardless of availability', async () => {
     const mockFetch = vi.mocked(fetch);
     // Mock user doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
-        objects: [],
-        total: 0,
-        time: '2026-02-22T00:00:00.000Z',
-      }),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(userNotFoundResponse());
+
+    // Mock org doesn't exist
+    mockFetch.mockResolvedValueOnce(orgNotFoundResponse());
 
     // Mock scope doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         total_rows: 0,
         offset: 0,
         rows: [],
       }),
-    } as unknown as Response);
+    );
 
     const result: NameAvailabilityResult =
       await checkNameAvailability('test-org');
 
     expect(result.orgUrl).toBe('https://www.npmjs.com/org/test-org');
-    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
   });
 
   it('should handle special characters in org URL', async () => {
     const mockFetch = vi.mocked(fetch);
     // Mock user doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
-        objects: [],
-        total: 0,
-        time: '2026-02-22T00:00:00.000Z',
-      }),
-    } as unknown as Response);
+    mockFetch.mockResolvedValueOnce(userNotFoundResponse());
+
+    // Mock org doesn't exist
+    mockFetch.mockResolvedValueOnce(orgNotFoundResponse());
 
     // Mock scope doesn't exist
-    mockFetch.mockResolvedValueOnce({
-      status: 200,
-      ok: true,
-      json: vi.fn().mockResolvedValueOnce({
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
         total_rows: 0,
         offset: 0,
         rows: [],
       }),
-    } as unknown as Response);
+    );
 
     const result: NameAvailabilityResult =
       await checkNameAvailability('org-with-123');
 
     expect(result.orgUrl).toBe('https://www.npmjs.com/org/org-with-123');
-    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('checkNameAvailability with a custom registry client', () => {
+  const createLocalRegistry = (scopes: Record<string, string[]>) => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+
+      const startkey = url.searchParams.get('startkey') ?? '';
+      const scope = (JSON.parse(startkey) as string).slice(1, -1);
+      const rows = (scopes[scope] ?? []).map((name) => ({
+        id: name,
+        key: name,
+        value: { rev: '1-abc' },
+      }));
+      return jsonResponse({ total_rows: rows.length, offset: 0, rows });
+    });
+
+    const client = createRegistryClient({
+      registryUrl: 'http://localhost:4873',
+      replicateUrl: 'http://localhost:4873',
+      websiteUrl: 'http://localhost:4873',
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    return { client, fetch };
+  };
+
+  it('should send requests to the configured base URLs', async () => {
+    const { client, fetch } = createLocalRegistry({});
+
+    const result = await checkNameAvailability('my-org', { client });
+
+    expect(result).toEqual({
+      status: 'available',
+      isAvailable: true,
+      conflict: null,
+      evidence: null,
+      checks: [
+        { check: 'user', outcome: 'passed', method: 'user-document' },
+        { check: 'org', outcome: 'passed' },
+        { check: 'scope', outcome: 'passed' },
+      ],
+      orgUrl: 'http://localhost:4873/org/my-org',
+    });
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:4873/-/user/org.couchdb.user:my-org',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:4873/-/org/my-org/package',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:4873/_all_docs?startkey=%22%40my-org%2F%22&endkey=%22%40my-org%2F%EF%BF%B0%22',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should report scopes taken on the configured registry', async () => {
+    const { client } = createLocalRegistry({
+      internal: ['@internal/utils'],
+    });
+
+    const result = await checkNameAvailability('internal', { client });
+
+    expect(result.isAvailable).toBe(false);
+    expect(result.orgUrl).toBe('http://localhost:4873/org/internal');
+    expect(result.evidence?.packages).toEqual([
+      {
+        name: '@internal/utils',
+        url: 'http://localhost:4873/package/@internal/utils',
+      },
+    ]);
+  });
+});
+
+describe('checkNameAvailability retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const emptySearch = { objects: [], total: 0, time: '' };
+  const emptyScope = { total_rows: 0, offset: 0, rows: [] };
+
+  const createFlakyRegistry = (
+    failures: Response[],
+    isFlaky: (url: URL) => boolean = () => true,
+  ) => {
+    const fetch = createFakeFetch((url) => {
+      const failure = isFlaky(url) ? failures.shift() : undefined;
+      if (failure) {
+        return failure;
+      }
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      return jsonResponse(
+        url.pathname === '/-/v1/search' ? emptySearch : emptyScope,
+      );
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  it('should retry transient server errors with backoff', async () => {
+    const { client, fetch } = createFlakyRegistry([
+      jsonResponse({}, { status: 502, statusText: 'Bad Gateway' }),
+      jsonResponse({}, { status: 503, statusText: 'Service Unavailable' }),
+    ]);
+
+    const promise = checkNameAvailability('flaky-org', {
+      client,
+      retry: { baseDelayMs: 100, jitter: 0 },
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(promise).resolves.toMatchObject({ isAvailable: true });
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('should honor Retry-After on rate limited responses', async () => {
+    const { client, fetch } = createFlakyRegistry([
+      jsonResponse({}, { status: 429, headers: { 'Retry-After': '2' } }),
+    ]);
+
+    const promise = checkNameAvailability('busy-org', { client });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toMatchObject({ isAvailable: true });
+  });
+
+  it('should report the attempt count when retries are exhausted', async () => {
+    const serverError = () =>
+      jsonResponse({}, { status: 500, statusText: 'Internal Server Error' });
+    const { client } = createFlakyRegistry(
+      [serverError(), serverError(), serverError()],
+      (url) => url.pathname.startsWith('/-/org/'),
+    );
+
+    const promise = checkNameAvailability('down-org', { client });
+    await vi.runAllTimersAsync();
+
+    const result = await promise;
+    expect(result.status).toBe('unknown');
+    expect(result.checks[1].error?.type).toBe(ApiErrorType.SERVER_ERROR);
+    expect(result.checks[1].error?.attempts).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const { client, fetch } = createFlakyRegistry(
+      [jsonResponse({}, { status: 403, statusText: 'Forbidden' })],
+      (url) => url.pathname.startsWith('/-/org/'),
+    );
+
+    const result = await checkNameAvailability('missing-org', { client });
+
+    expect(result.checks[1].error?.attempts).toBe(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('checkNameAvailability with a cache', () => {
+  const createCountingRegistry = () => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      return jsonResponse({ total_rows: 0, offset: 0, rows: [] });
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  it('should serve repeated checks from the cache', async () => {
+    const { client, fetch } = createCountingRegistry();
+    const cache = createAvailabilityCache({ store: null });
+
+    const first = await checkNameAvailability('cached-org', { client, cache });
+    const second = await checkNameAvailability('cached-org', { client, cache });
+
+    expect(first.cachedAt).toBeUndefined();
+    expect(second).toMatchObject({ isAvailable: true });
+    expect(second.cachedAt).toBeInstanceOf(Date);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bypass the cache when forcing a refresh', async () => {
+    const { client, fetch } = createCountingRegistry();
+    const cache = createAvailabilityCache({ store: null });
+
+    await checkNameAvailability('cached-org', { client, cache });
+    const refreshed = await checkNameAvailability('cached-org', {
+      client,
+      cache,
+      forceRefresh: true,
+    });
+
+    expect(refreshed.cachedAt).toBeUndefined();
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('should not share cached results between registries', async () => {
+    const cache = createAvailabilityCache({ store: null });
+    const npm = createCountingRegistry();
+    const mirror = createCountingRegistry();
+    const mirrorClient = createRegistryClient({
+      registryUrl: 'http://localhost:4873',
+      proxies: [DIRECT_CONNECTION],
+      fetch: mirror.fetch,
+    });
+
+    await checkNameAvailability('shared-org', { client: npm.client, cache });
+    await checkNameAvailability('shared-org', { client: mirrorClient, cache });
+
+    expect(mirror.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cache results by normalized name and scope lookup', async () => {
+    const { client, fetch } = createCountingRegistry();
+    const cache = createAvailabilityCache({ store: null });
+
+    await checkNameAvailability('cached-org', { client, cache });
+    const normalized = await checkNameAvailability(' Cached-Org ', {
+      client,
+      cache,
+    });
+    const crossValidated = await checkNameAvailability('cached-org', {
+      client,
+      cache,
+      scopeLookup: 'cross-validate',
+    });
+
+    expect(normalized.cachedAt).toBeInstanceOf(Date);
+    expect(crossValidated.cachedAt).toBeUndefined();
+    expect(fetch).toHaveBeenCalledTimes(7);
+  });
+
+  it('should refresh the cache timestamp when the registry answers 304 on a direct connection', async () => {
+    let time = 0;
+    const cache = createAvailabilityCache({ store: null, now: () => time });
+    const fetch = createFakeFetch((url, init) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      if (new Headers(init?.headers).get('If-None-Match') === '"rows"') {
+        return new Response(null, { status: 304 });
+      }
+      return jsonResponse(
+        { total_rows: 0, offset: 0, rows: [] },
+        { headers: { ETag: '"rows"' } },
+      );
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const first = await checkNameAvailability('cached-org', { client, cache });
+    time = 60000;
+    const refreshed = await checkNameAvailability('cached-org', {
+      client,
+      cache,
+      forceRefresh: true,
+    });
+
+    expect(refreshed).toEqual(first);
+    await expect(fetch.mock.results[5].value).resolves.toMatchObject({
+      status: 304,
+    });
+    await expect(
+      cache.get(`${client.registryUrl} cached-org replicate`),
+    ).resolves.toMatchObject({ storedAt: 60000 });
+  });
+
+  it('should serve cached results without requests while offline', async () => {
+    const { client, fetch } = createCountingRegistry();
+    const cache = createAvailabilityCache({ store: null });
+
+    await checkNameAvailability('cached-org', { client, cache });
+    const offline = await checkNameAvailability('cached-org', {
+      client,
+      cache,
+      offline: true,
+    });
+
+    expect(offline).toMatchObject({ isAvailable: true });
+    expect(offline.cachedAt).toBeInstanceOf(Date);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw OfflineError for uncached names while offline', async () => {
+    const { client, fetch } = createCountingRegistry();
+    const cache = createAvailabilityCache({ store: null });
+
+    const error = await checkNameAvailability('new-org', {
+      client,
+      cache,
+      offline: true,
+    }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(OfflineError);
+    expect(error).toMatchObject({
+      checkedName: 'new-org',
+      message: 'No cached result for "new-org" while offline',
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkNameAvailability request coalescing', () => {
+  const createRegistry = (userExists = false) => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userExists
+          ? jsonResponse(userDocumentFixture(url.pathname.split(':')[1]))
+          : userNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      return jsonResponse(
+        url.pathname === '/-/v1/search'
+          ? { objects: [{ package: { name: 'pkg' } }], total: 1, time: '' }
+          : { total_rows: 0, offset: 0, rows: [] },
+      );
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  it('should share in-flight requests for the same normalized name', async () => {
+    const { client, fetch } = createRegistry();
+
+    const results = await Promise.all([
+      checkNameAvailability('my-org', { client }),
+      checkNameAvailability('My-Org', { client }),
+      checkNameAvailability(' my-org ', { client }),
+    ]);
+
+    expect(results.map((result) => result.isAvailable)).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should look up the normalized name for every shared caller', async () => {
+    const { client, fetch } = createRegistry(true);
+
+    const results = await Promise.all([
+      checkNameAvailability('acme ', { client }),
+      checkNameAvailability('ACME', { client }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['taken', 'taken']);
+    expect(results[0].orgUrl).toBe('https://www.npmjs.com/org/acme');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://registry.npmjs.com/-/user/org.couchdb.user:acme',
+      'https://registry.npmjs.com/-/v1/search?text=author%3Aacme&size=10',
+    ]);
+  });
+
+  it('should share only the user lookups when they find a conflict', async () => {
+    const { client, fetch } = createRegistry(true);
+
+    await Promise.all([
+      checkNameAvailability('taken', { client }),
+      checkNameAvailability('taken', { client }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share requests between different names', async () => {
+    const { client, fetch } = createRegistry();
+
+    await Promise.all([
+      checkNameAvailability('first-org', { client }),
+      checkNameAvailability('second-org', { client }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('should not share requests between registry clients', async () => {
+    const npm = createRegistry();
+    const mirror = createRegistry();
+
+    await Promise.all([
+      checkNameAvailability('my-org', { client: npm.client }),
+      checkNameAvailability('my-org', { client: mirror.client }),
+    ]);
+
+    expect(npm.fetch).toHaveBeenCalledTimes(3);
+    expect(mirror.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should send new requests once the previous check settled', async () => {
+    const { client, fetch } = createRegistry();
+
+    await checkNameAvailability('my-org', { client });
+    await checkNameAvailability('my-org', { client });
+
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('checkNameAvailability cancellation', () => {
+  const createHangingRegistry = () => {
+    const fetch = createFakeFetch(
+      (_url, init) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            reject(init.signal?.reason as Error);
+          });
+        }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  it('should reject without requests when the signal is already aborted', async () => {
+    const { client, fetch } = createHangingRegistry();
+
+    await expect(
+      checkNameAvailability('my-org', {
+        client,
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should cancel pending requests without retrying them', async () => {
+    const { client, fetch } = createHangingRegistry();
+    const controller = new AbortController();
+
+    const promise = checkNameAvailability('my-org', {
+      client,
+      signal: controller.signal,
+    });
+    const error = promise.catch((reason: unknown) => reason);
+
+    await vi.waitFor(() => {
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+    controller.abort();
+
+    await expect(error).resolves.toMatchObject({ name: 'AbortError' });
+    expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep shared requests alive for other callers', async () => {
+    let respond!: () => void;
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      return url.pathname.startsWith('/-/user/')
+        ? new Promise<Response>((resolve) => {
+            respond = () => {
+              resolve(userNotFoundResponse());
+            };
+          })
+        : jsonResponse({ total_rows: 0, offset: 0, rows: [] });
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    const controller = new AbortController();
+
+    const aborted = checkNameAvailability('my-org', {
+      client,
+      signal: controller.signal,
+    });
+    const waiting = checkNameAvailability('my-org', { client });
+
+    await vi.waitFor(() => {
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+    controller.abort();
+    respond();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(waiting).resolves.toMatchObject({ isAvailable: true });
+  });
+});
+
+describe('registry checks with an abort signal', () => {
+  it('should cancel the user search', async () => {
+    const fetch = createFakeFetch((_url, init) => {
+      expect(init?.signal?.aborted).toBe(true);
+      return Promise.reject(init?.signal?.reason as Error);
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(
+      checkUserExists('some-user', { client, signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should pass a live signal to the scope check', async () => {
+    const controller = new AbortController();
+    const fetch = createFakeFetch((_url, init) => {
+      expect(init?.signal?.aborted).toBe(false);
+      return jsonResponse({ total_rows: 0, offset: 0, rows: [] });
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(
+      checkScopeExists('some-scope', { client, signal: controller.signal }),
+    ).resolves.toBe(false);
+  });
+});
+
+describe('checkNameAvailability strategies', () => {
+  const clearUser = { objects: [], total: 0, time: '' };
+  const takenUser = (url: URL) =>
+    url.pathname === '/-/v1/search'
+      ? jsonResponse({ ...clearUser, objects: [{ package: { name: 'pkg' } }] })
+      : jsonResponse(userDocumentFixture('my-org'));
+  const clearScope = { total_rows: 0, offset: 0, rows: [] };
+  const takenScope = {
+    total_rows: 1,
+    offset: 0,
+    rows: [{ id: '@my-org/pkg', key: '@my-org/pkg', value: { rev: '1' } }],
+  };
+
+  type Reply = Response | 'hang';
+
+  // The user reply answers the user document, profile page and author search
+  const createRegistry = (
+    user: (url: URL) => Reply,
+    scope: () => Reply,
+    org: () => Reply = orgNotFoundResponse,
+  ) => {
+    const signals: Record<string, AbortSignal | undefined> = {};
+    const fetch = createFakeFetch((url, init) => {
+      // Package documents of scope packages
+      if (url.pathname.startsWith('/@')) {
+        return jsonResponse({
+          name: decodeURIComponent(url.pathname.slice(1)),
+        });
+      }
+
+      const endpoint = url.pathname.startsWith('/-/org/')
+        ? 'org'
+        : url.pathname.startsWith('/_all_docs')
+          ? 'scope'
+          : 'user';
+      signals[endpoint] ??= init?.signal ?? undefined;
+      const reply = { user, org, scope }[endpoint](url);
+
+      if (reply !== 'hang') {
+        return reply;
+      }
+
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(init.signal?.reason as Error);
+        });
+      });
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch, signals };
+  };
+
+  const forbidden = () => jsonResponse({}, { status: 403 });
+
+  it('should check the scope only after the user lookup by default', async () => {
+    const { client, fetch } = createRegistry(takenUser, () =>
+      jsonResponse(clearScope),
+    );
+
+    await expect(
+      checkNameAvailability('my-org', { client }),
+    ).resolves.toMatchObject({ isAvailable: false });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it.each(['parallel', 'race-to-conflict'] as const)(
+    'should start all checks together in %s mode',
+    async (strategy) => {
+      const { client, fetch } = createRegistry(userNotFoundResponse, () =>
+        jsonResponse(clearScope),
+      );
+
+      const promise = checkNameAvailability('my-org', { client, strategy });
+
+      await vi.waitFor(() => {
+        expect(fetch).toHaveBeenCalledTimes(3);
+      });
+      await expect(promise).resolves.toMatchObject({ isAvailable: true });
+    },
+  );
+
+  it('should abort the scope check when the user lookup finds a conflict', async () => {
+    const { client, signals } = createRegistry(takenUser, () => 'hang');
+
+    await expect(
+      checkNameAvailability('my-org', { client, strategy: 'parallel' }),
+    ).resolves.toMatchObject({ isAvailable: false });
+    expect(signals.scope?.aborted).toBe(true);
+  });
+
+  it('should abort the user lookup when the scope check finds a conflict', async () => {
+    const { client, signals } = createRegistry(
+      () => 'hang',
+      () => jsonResponse(takenScope),
+    );
+
+    await expect(
+      checkNameAvailability('my-org', { client, strategy: 'parallel' }),
+    ).resolves.toMatchObject({ isAvailable: false });
+    expect(signals.user?.aborted).toBe(true);
+  });
+
+  it('should keep the other checks running after a failure in parallel mode', async () => {
+    const { client, signals } = createRegistry(forbidden, () =>
+      jsonResponse(takenScope),
+    );
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      strategy: 'parallel',
+    });
+
+    expect(result).toMatchObject({ status: 'taken', conflict: 'scope' });
+    expect(result.checks.map(({ outcome }) => outcome)).toEqual([
+      'failed',
+      'passed',
+      'conflict',
+    ]);
+    expect(signals.scope?.aborted).toBe(false);
+  });
+
+  it('should report a conflict despite an error in race-to-conflict mode', async () => {
+    const { client } = createRegistry(forbidden, () =>
+      jsonResponse(takenScope),
+    );
+
+    await expect(
+      checkNameAvailability('my-org', {
+        client,
+        strategy: 'race-to-conflict',
+      }),
+    ).resolves.toMatchObject({ isAvailable: false });
+  });
+
+  it('should report an unknown result when no check finds a conflict in race-to-conflict mode', async () => {
+    const { client } = createRegistry(userNotFoundResponse, forbidden);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      strategy: 'race-to-conflict',
+    });
+
+    expect(result.status).toBe('unknown');
+    expect(result.checks[2]).toMatchObject({
+      check: 'scope',
+      outcome: 'failed',
+      error: { statusCode: 403, endpoint: 'scope-replicate' },
+    });
+  });
+
+  it('should throw the first error when every check fails in race-to-conflict mode', async () => {
+    const { client } = createRegistry(forbidden, forbidden, forbidden);
+
+    const error: unknown = await checkNameAvailability('my-org', {
+      client,
+      strategy: 'race-to-conflict',
+    }).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(RetryError);
+    expect((error as RetryError).cause).toMatchObject({ status: 403 });
+  });
+
+  it('should cancel all checks when the caller aborts', async () => {
+    const { client, fetch, signals } = createRegistry(
+      () => 'hang',
+      () => 'hang',
+      () => 'hang',
+    );
+    const controller = new AbortController();
+
+    const error = checkNameAvailability('my-org', {
+      client,
+      strategy: 'race-to-conflict',
+      signal: controller.signal,
+    }).catch((reason: unknown) => reason);
+
+    await vi.waitFor(() => {
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+    controller.abort();
+
+    await expect(error).resolves.toMatchObject({ name: 'AbortError' });
+    expect(signals.user?.aborted).toBe(true);
+    expect(signals.org?.aborted).toBe(true);
+    expect(signals.scope?.aborted).toBe(true);
+  });
+});
+
+describe('checkNameAvailability conflict evidence', () => {
+  const createRegistry = (
+    authorPackages: string[],
+    scopePackages: string[],
+    total = authorPackages.length,
+    orgPackages: Record<string, string> | null = null,
+  ) => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname.startsWith('/-/user/')
+        ? authorPackages.length > 0
+          ? jsonResponse(userDocumentFixture('foo'))
+          : userNotFoundResponse()
+        : url.pathname.startsWith('/-/org/')
+          ? orgPackages
+            ? jsonResponse(orgPackages)
+            : orgNotFoundResponse()
+          : url.pathname === '/-/v1/search'
+            ? jsonResponse({
+                objects: authorPackages.map((name) => ({ package: { name } })),
+                total,
+                time: '',
+              })
+            : jsonResponse({
+                total_rows: scopePackages.length,
+                offset: 0,
+                rows: scopePackages.map((name) => ({
+                  id: name,
+                  key: name,
+                  value: { rev: '1-abc' },
+                })),
+              }),
+    );
+    return createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch });
+  };
+
+  it('should report no conflict for available names', async () => {
+    const client = createRegistry([], []);
+
+    await expect(
+      checkNameAvailability('free-org', { client }),
+    ).resolves.toMatchObject({ conflict: null, evidence: null });
+  });
+
+  it('should report a user conflict with the matching packages', async () => {
+    const client = createRegistry(['foo-utils'], [], 12);
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result).toEqual({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'user',
+      evidence: {
+        owner: 'foo',
+        url: 'https://www.npmjs.com/~foo',
+        packages: [
+          {
+            name: 'foo-utils',
+            url: 'https://www.npmjs.com/package/foo-utils',
+          },
+        ],
+        total: 12,
+      },
+      checks: [
+        { check: 'user', outcome: 'conflict', method: 'user-document' },
+        { check: 'org', outcome: 'skipped' },
+        { check: 'scope', outcome: 'skipped' },
+      ],
+      orgUrl: 'https://www.npmjs.com/org/foo',
+    });
+  });
+
+  it('should report a scope conflict with the matching packages', async () => {
+    const client = createRegistry([], ['@foo/a', '@foo/b']);
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result.conflict).toBe('scope');
+    expect(result.evidence).toEqual({
+      owner: '@foo',
+      url: 'https://www.npmjs.com/search?q=scope%3Afoo',
+      packages: [
+        { name: '@foo/a', url: 'https://www.npmjs.com/package/@foo/a' },
+        { name: '@foo/b', url: 'https://www.npmjs.com/package/@foo/b' },
+      ],
+      total: 2,
+    });
+  });
+
+  it('should report a user without packages as taken', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname.startsWith('/-/user/')
+        ? jsonResponse(userDocumentFixture('new-user'))
+        : jsonResponse({ objects: [], total: 0, time: '' }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const result = await checkNameAvailability('new-user', { client });
+
+    expect(result).toMatchObject({
+      status: 'taken',
+      conflict: 'user',
+      evidence: { owner: 'new-user', packages: [], total: 0 },
+    });
+  });
+
+  it('should report the user even when the package search fails', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname.startsWith('/-/user/')
+        ? jsonResponse(userDocumentFixture('foo'))
+        : jsonResponse({}, { status: 403, statusText: 'Forbidden' }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result.conflict).toBe('user');
+    expect(result.evidence).toMatchObject({ packages: [], total: 0 });
+  });
+
+  it('should report an org conflict with the org packages', async () => {
+    const client = createRegistry([], ['@my-org/core'], 0, orgPackagesFixture);
+
+    const result = await checkNameAvailability('my-org', { client });
+
+    expect(result.conflict).toBe('org');
+    expect(result.evidence).toEqual({
+      owner: 'my-org',
+      url: 'https://www.npmjs.com/org/my-org',
+      packages: [
+        {
+          name: '@my-org/core',
+          url: 'https://www.npmjs.com/package/@my-org/core',
+        },
+        {
+          name: '@my-org/cli',
+          url: 'https://www.npmjs.com/package/@my-org/cli',
+        },
+        {
+          name: '@my-org/docs',
+          url: 'https://www.npmjs.com/package/@my-org/docs',
+        },
+      ],
+      total: 3,
+    });
+    expect(result.checks).toEqual([
+      { check: 'user', outcome: 'passed', method: 'user-document' },
+      { check: 'org', outcome: 'conflict' },
+      { check: 'scope', outcome: 'skipped' },
+    ]);
+  });
+
+  it('should report an org without packages as taken', async () => {
+    const client = createRegistry([], [], 0, emptyOrgPackagesFixture);
+
+    const result = await checkNameAvailability('my-org', { client });
+
+    expect(result).toMatchObject({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'org',
+      evidence: { owner: 'my-org', packages: [], total: 0 },
+    });
+  });
+
+  it('should report a scope that is not an org as a scope conflict', async () => {
+    const client = createRegistry([], ['@foo/a']);
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result.conflict).toBe('scope');
+    expect(result.checks).toEqual([
+      { check: 'user', outcome: 'passed', method: 'user-document' },
+      { check: 'org', outcome: 'passed' },
+      { check: 'scope', outcome: 'conflict' },
+    ]);
+  });
+
+  it('should keep at most 10 packages but count all of them', async () => {
+    const scopePackages = Array.from(
+      { length: 12 },
+      (_, index) => `@foo/pkg-${index.toString()}`,
+    );
+    const client = createRegistry([], scopePackages);
+
+    const result = await checkNameAvailability('foo', {
+      client,
+      strategy: 'parallel',
+    });
+
+    expect(result.evidence?.packages).toHaveLength(10);
+    expect(result.evidence?.total).toBe(12);
+  });
+});
+
+describe('checkOrgExists', () => {
+  const createRegistry = (response: () => Response) => {
+    const fetch = createFakeFetch(response);
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { client, fetch };
+  };
+
+  it('should return true when the org lists packages', async () => {
+    const { client, fetch } = createRegistry(() =>
+      jsonResponse(orgPackagesFixture),
+    );
+
+    await expect(checkOrgExists('my-org', { client })).resolves.toBe(true);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://registry.npmjs.com/-/org/my-org/package',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should return true for an org without packages', async () => {
+    const { client } = createRegistry(() =>
+      jsonResponse(emptyOrgPackagesFixture),
+    );
+
+    await expect(checkOrgExists('my-org', { client })).resolves.toBe(true);
+  });
+
+  it('should return false when the name is not an org', async () => {
+    const { client } = createRegistry(orgNotFoundResponse);
+
+    await expect(checkOrgExists('some-user', { client })).resolves.toBe(false);
+  });
+
+  it('should throw other HTTP errors', async () => {
+    const { client } = createRegistry(() =>
+      jsonResponse({}, { status: 401, statusText: 'Unauthorized' }),
+    );
+
+    await expect(checkOrgExists('my-org', { client })).rejects.toMatchObject({
+      name: 'RegistryHttpError',
+      status: 401,
+      endpoint: 'org-packages',
+    });
+  });
+});
+
+describe('listOrgPackages', () => {
+  it('should return the package names and total of the org', async () => {
+    const fetch = createFakeFetch(() => jsonResponse(orgPackagesFixture));
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(listOrgPackages('my-org', { client })).resolves.toEqual({
+      packages: ['@my-org/core', '@my-org/cli', '@my-org/docs'],
+      total: 3,
+    });
+  });
+
+  it('should return null when the name is not an org', async () => {
+    const fetch = createFakeFetch(orgNotFoundResponse);
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(listOrgPackages('free-name', { client })).resolves.toBeNull();
+  });
+
+  it.each([
+    ['non-string permissions', { '@my-org/core': { access: 'read-write' } }],
+    ['an error body', { error: 'Scope not found' }],
+  ])('should reject a listing with %s', async (_, body) => {
+    const fetch = createFakeFetch(() => jsonResponse(body));
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(listOrgPackages('my-org', { client })).rejects.toMatchObject({
+      name: 'InvalidResponseError',
+      endpoint: 'org-packages',
+    });
+  });
+});
+
+describe('listScopePackages', () => {
+  it('should return the package names and total of the scope', async () => {
+    const fetch = createFakeFetch(() =>
+      jsonResponse({
+        total_rows: 1,
+        offset: 0,
+        rows: [{ id: '@scope/pkg', key: '@scope/pkg', value: { rev: '1' } }],
+      }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(listScopePackages('scope', { client })).resolves.toEqual({
+      packages: ['@scope/pkg'],
+      total: 1,
+    });
+  });
+
+  it('should reject a response without rows', async () => {
+    const fetch = createFakeFetch(() =>
+      jsonResponse({ error: 'query_parse_error' }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(listScopePackages('scope', { client })).rejects.toMatchObject({
+      name: 'InvalidResponseError',
+      endpoint: 'scope-replicate',
+    });
+  });
+});
+
+describe('searchScopePackages', () => {
+  const createSearchClient = (body: unknown) => {
+    const fetch = createFakeFetch(() => jsonResponse(body));
+    return {
+      fetch,
+      client: createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch }),
+    };
+  };
+
+  it('should search with the scope qualifier', async () => {
+    const { client, fetch } = createSearchClient({
+      objects: [{ package: { name: '@scope/pkg' } }],
+      total: 25,
+    });
+
+    await expect(searchScopePackages('scope', { client })).resolves.toEqual({
+      packages: ['@scope/pkg'],
+      total: 25,
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://registry.npmjs.com/-/v1/search?text=scope%3Ascope&size=10',
+      expect.anything(),
+    );
+  });
+
+  it('should drop results outside the scope', async () => {
+    const { client } = createSearchClient({
+      objects: [
+        { package: { name: '@scope/pkg' } },
+        { package: { name: '@scoped/other' } },
+      ],
+      total: 2,
+    });
+
+    await expect(searchScopePackages('scope', { client })).resolves.toEqual({
+      packages: ['@scope/pkg'],
+      total: 1,
+    });
+  });
+
+  it('should check scope existence via the search lookup', async () => {
+    const { client } = createSearchClient({ objects: [], total: 0 });
+
+    await expect(
+      checkScopeExists('scope', { client, lookup: 'search' }),
+    ).resolves.toBe(false);
+  });
+
+  it('should reject an invalid search response', async () => {
+    const { client } = createSearchClient({ results: [] });
+
+    await expect(
+      searchScopePackages('scope', { client }),
+    ).rejects.toMatchObject({
+      name: 'InvalidResponseError',
+      endpoint: 'scope-search',
+    });
+  });
+});
+
+describe('getPackageState', () => {
+  const getState = (response: () => Response) => {
+    const fetch = createFakeFetch(response);
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+    return { fetch, state: getPackageState('@scope/pkg', { client }) };
+  };
+
+  it('should fetch the package document of a scoped package', async () => {
+    const { fetch, state } = getState(() =>
+      jsonResponse({ name: '@scope/pkg', 'dist-tags': { latest: '1.2.0' } }),
+    );
+
+    await expect(state).resolves.toBe('published');
+    expect(fetch).toHaveBeenCalledWith(
+      'https://registry.npmjs.com/@scope%2Fpkg',
+      expect.anything(),
+    );
+  });
+
+  it('should detect the tombstone of an unpublished package', async () => {
+    const { state } = getState(() =>
+      jsonResponse({
+        name: '@scope/pkg',
+        time: {
+          created: '2020-01-01T00:00:00.000Z',
+          unpublished: {
+            time: '2021-01-01T00:00:00.000Z',
+            versions: ['1.0.0'],
+          },
+        },
+      }),
+    );
+
+    await expect(state).resolves.toBe('unpublished');
+  });
+
+  it('should report a missing package as unpublished', async () => {
+    const { state } = getState(() =>
+      jsonResponse({ error: 'Not found' }, { status: 404 }),
+    );
+
+    await expect(state).resolves.toBe('unpublished');
+  });
+
+  it.each([
+    [{ name: '@scope/pkg', 'dist-tags': { latest: '0.0.1-security' } }],
+    [{ name: '@scope/pkg', description: 'security holding package' }],
+  ])('should detect a security holding package in %j', async (body) => {
+    const { state } = getState(() => jsonResponse(body));
+
+    await expect(state).resolves.toBe('security-holding');
+  });
+
+  it('should throw server errors', async () => {
+    const { state } = getState(
+      () => new Response('Internal Server Error', { status: 500 }),
+    );
+
+    await expect(state).rejects.toMatchObject({
+      name: 'RegistryHttpError',
+      endpoint: 'packument',
+    });
+  });
+});
+
+describe('checkNameAvailability scope lookups', () => {
+  const scopeRows = () =>
+    jsonResponse({
+      total_rows: 1,
+      offset: 0,
+      rows: [{ id: '@my-org/pkg', key: '@my-org/pkg', value: { rev: '1' } }],
+    });
+  const noScopeRows = () =>
+    jsonResponse({ total_rows: 0, offset: 0, rows: [] });
+  const scopeResults = () =>
+    jsonResponse({ objects: [{ package: { name: '@my-org/pkg' } }], total: 1 });
+  const noScopeResults = () => jsonResponse({ objects: [], total: 0 });
+  const serverError = () => jsonResponse({}, { status: 500 });
+
+  const createRegistry = (
+    replicate: () => Response,
+    search: () => Response,
+  ) => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      if (url.pathname.startsWith('/_all_docs')) {
+        return replicate();
+      }
+      return url.searchParams.get('text')?.startsWith('scope:')
+        ? search()
+        : noScopeResults();
+    });
+    return {
+      fetch,
+      client: createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch }),
+    };
+  };
+
+  const noRetry = { maxAttempts: 1 };
+
+  it('should look up scopes via the search API when selected', async () => {
+    const { client, fetch } = createRegistry(serverError, scopeResults);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      scopeLookup: 'search',
+    });
+
+    expect(result).toMatchObject({ status: 'taken', conflict: 'scope' });
+    expect(result.evidence?.packages).toEqual([
+      {
+        name: '@my-org/pkg',
+        url: 'https://www.npmjs.com/package/@my-org/pkg',
+      },
+    ]);
+    expect(fetch).not.toHaveBeenCalledWith(
+      expect.stringContaining('_all_docs'),
+      expect.anything(),
+    );
+  });
+
+  it('should pass when cross-validated lookups agree', async () => {
+    const { client } = createRegistry(noScopeRows, noScopeResults);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      scopeLookup: 'cross-validate',
+    });
+
+    expect(result.status).toBe('available');
+    expect(result.checks[2]).toEqual({ check: 'scope', outcome: 'passed' });
+  });
+
+  it('should report a conflict when cross-validated lookups agree on one', async () => {
+    const { client } = createRegistry(scopeRows, scopeResults);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      scopeLookup: 'cross-validate',
+    });
+
+    expect(result).toMatchObject({ status: 'taken', conflict: 'scope' });
+  });
+
+  it.each([
+    ['the replicate lags behind a publish', noScopeRows, scopeResults],
+    ['the search index lags behind a publish', scopeRows, noScopeResults],
+  ])(
+    'should flag the scope check as uncertain when %s',
+    async (_, replicate, search) => {
+      const { client } = createRegistry(replicate, search);
+
+      const result = await checkNameAvailability('my-org', {
+        client,
+        scopeLookup: 'cross-validate',
+      });
+
+      expect(result).toMatchObject({
+        status: 'unknown',
+        isAvailable: null,
+        conflict: null,
+        evidence: null,
+      });
+      expect(result.checks[2]).toEqual({
+        check: 'scope',
+        outcome: 'uncertain',
+      });
+    },
+  );
+
+  it('should let the other lookup decide when one fails', async () => {
+    const { client } = createRegistry(serverError, scopeResults);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+      scopeLookup: 'cross-validate',
+    });
+
+    expect(result).toMatchObject({ status: 'taken', conflict: 'scope' });
+  });
+
+  it('should fail the scope check when both lookups fail', async () => {
+    const { client } = createRegistry(serverError, serverError);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+      scopeLookup: 'cross-validate',
+    });
+
+    expect(result.status).toBe('unknown');
+    expect(result.checks[2]).toMatchObject({
+      check: 'scope',
+      outcome: 'failed',
+      error: { endpoint: 'scope-replicate' },
+    });
+  });
+});
+
+describe('checkNameAvailability partial failures', () => {
+  const timeout = () =>
+    Promise.reject(new DOMException('Request timeout', 'AbortError'));
+
+  // The user reply answers the user document, profile page and author search
+  const createRegistry = (
+    user: () => Response | Promise<Response>,
+    scope: () => Response | Promise<Response>,
+    org: () => Response | Promise<Response> = orgNotFoundResponse,
+  ) => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname.startsWith('/-/org/')
+        ? org()
+        : url.pathname.startsWith('/_all_docs')
+          ? scope()
+          : user(),
+    );
+    return createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch });
+  };
+
+  const noRetry = { maxAttempts: 1 };
+
+  it('should report an unknown result when the scope check times out', async () => {
+    const client = createRegistry(userNotFoundResponse, timeout);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+    });
+
+    expect(result).toMatchObject({
+      status: 'unknown',
+      isAvailable: null,
+      conflict: null,
+      checks: [
+        { check: 'user', outcome: 'passed' },
+        { check: 'org', outcome: 'passed' },
+        {
+          check: 'scope',
+          outcome: 'failed',
+          error: { type: ApiErrorType.TIMEOUT_ERROR },
+        },
+      ],
+    });
+  });
+
+  it('should report an invalid scope response with its body snippet', async () => {
+    const client = createRegistry(userNotFoundResponse, proxyErrorPage);
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+    });
+
+    expect(result.status).toBe('unknown');
+    expect(result.checks[2]).toMatchObject({
+      check: 'scope',
+      outcome: 'failed',
+      error: {
+        type: ApiErrorType.INVALID_RESPONSE,
+        endpoint: 'scope-replicate',
+        responseSnippet:
+          '<!DOCTYPE html> <html> <title>502 Bad Gateway</title> </html>',
+      },
+    });
+  });
+
+  it('should report a taken name even when the user lookup failed', async () => {
+    const client = createRegistry(timeout, () =>
+      jsonResponse({
+        total_rows: 1,
+        offset: 0,
+        rows: [{ id: '@my-org/pkg', key: '@my-org/pkg', value: { rev: '1' } }],
+      }),
+    );
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+    });
+
+    expect(result.status).toBe('taken');
+    expect(result.conflict).toBe('scope');
+    expect(result.checks.map(({ outcome }) => outcome)).toEqual([
+      'failed',
+      'passed',
+      'conflict',
+    ]);
+  });
+
+  it('should throw when every check failed', async () => {
+    const client = createRegistry(timeout, timeout, timeout);
+
+    await expect(
+      checkNameAvailability('my-org', { client, retry: noRetry }),
+    ).rejects.toMatchObject({ name: 'RetryError', attempts: 1 });
+  });
+
+  it('should report an unknown result when a check times out in parallel mode', async () => {
+    const client = createRegistry(timeout, () =>
+      jsonResponse({ total_rows: 0, offset: 0, rows: [] }),
+    );
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+      strategy: 'parallel',
+    });
+
+    expect(result.status).toBe('unknown');
+    expect(result.checks).toMatchObject([
+      {
+        check: 'user',
+        outcome: 'failed',
+        error: { type: ApiErrorType.TIMEOUT_ERROR },
+      },
+      { check: 'org', outcome: 'passed' },
+      { check: 'scope', outcome: 'passed' },
+    ]);
+  });
+
+  it('should report the other checks when one fails in parallel mode', async () => {
+    const client = createRegistry(
+      userNotFoundResponse,
+      () => jsonResponse({ total_rows: 0, offset: 0, rows: [] }),
+      () => new Response('Bad Request', { status: 400 }),
+    );
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+      strategy: 'parallel',
+    });
+
+    expect(result).toMatchObject({ status: 'unknown', isAvailable: null });
+    expect(result.checks.map(({ outcome }) => outcome)).toEqual([
+      'passed',
+      'failed',
+      'passed',
+    ]);
+  });
+
+  it('should report an available name when every check passed', async () => {
+    const client = createRegistry(userNotFoundResponse, () =>
+      jsonResponse({ total_rows: 0, offset: 0, rows: [] }),
+    );
+
+    await expect(
+      checkNameAvailability('my-org', { client, strategy: 'parallel' }),
+    ).resolves.toMatchObject({
+      status: 'available',
+      isAvailable: true,
+    });
+  });
+
+  it('should report a likely available name when only the author search decided', async () => {
+    const fetch = createFakeFetch((url) => {
+      if (
+        url.pathname.startsWith('/-/user/') ||
+        url.pathname.startsWith('/~')
+      ) {
+        return jsonResponse({}, { status: 401, statusText: 'Unauthorized' });
+      }
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      return jsonResponse(
+        url.pathname === '/-/v1/search'
+          ? { objects: [], total: 0, time: '' }
+          : { total_rows: 0, offset: 0, rows: [] },
+      );
+    });
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      retry: noRetry,
+    });
+
+    expect(result.status).toBe('likely-available');
+    expect(result.checks[0]).toEqual({
+      check: 'user',
+      outcome: 'passed',
+      method: 'author-search',
+    });
+  });
+
+  it('should not cache unknown results', async () => {
+    const client = createRegistry(userNotFoundResponse, timeout);
+    const cache = createAvailabilityCache({ store: null });
+
+    await checkNameAvailability('my-org', { client, cache, retry: noRetry });
+
+    await expect(
+      cache.get(`${client.registryUrl} my-org replicate`),
+    ).resolves.toBe(undefined);
+  });
+});
+
+describe('checkNameAvailability request priority', () => {
+  it('should send every request in the given scheduler lane', async () => {
+    const scheduler = createRequestScheduler();
+    const schedule = vi.spyOn(scheduler, 'schedule');
+    const fetch = createFakeFetch((url) =>
+      url.pathname.startsWith('/-/org/')
+        ? orgNotFoundResponse()
+        : url.pathname === '/_all_docs'
+          ? jsonResponse({ rows: [] })
+          : userNotFoundResponse(),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+      scheduler,
+    });
+
+    await checkNameAvailability('my-org', { client, priority: 'interactive' });
+
+    expect(schedule).toHaveBeenCalledTimes(3);
+    for (const [, , options] of schedule.mock.calls) {
+      expect(options).toMatchObject({ priority: 'interactive' });
+    }
+  });
+});
+
+describe('checkNameAvailability scope conflict sub-types', () => {
+  const createRegistry = (
+    packuments: Record<string, () => Response>,
+    total = Object.keys(packuments).length,
+  ) => {
+    const fetch = createFakeFetch((url) => {
+      if (url.pathname.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      if (url.pathname === '/_all_docs') {
+        return jsonResponse({
+          total_rows: total,
+          rows: Object.keys(packuments).map((id) => ({ id })),
+        });
+      }
+      if (url.pathname.startsWith('/-/user/')) {
+        return userNotFoundResponse();
+      }
+      return packuments[decodeURIComponent(url.pathname.slice(1))]();
+    });
+    return {
+      fetch,
+      client: createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch }),
+    };
+  };
+
+  const published = (name: string) => () =>
+    jsonResponse({ name, 'dist-tags': { latest: '1.0.0' } });
+  const tombstone = (name: string) => () =>
+    jsonResponse({ name, time: { unpublished: { versions: ['1.0.0'] } } });
+  const placeholder = (name: string) => () =>
+    jsonResponse({ name, 'dist-tags': { latest: '0.0.1-security' } });
+
+  it('should report a scope holding only unpublished packages', async () => {
+    const { client } = createRegistry({
+      '@foo/a': tombstone('@foo/a'),
+      '@foo/b': () => jsonResponse({ error: 'Not found' }, { status: 404 }),
+    });
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result).toMatchObject({
+      status: 'taken',
+      conflict: 'scope',
+      conflictSubtype: 'unpublished',
+    });
+    expect(result.evidence?.packages).toEqual([
+      {
+        name: '@foo/a',
+        url: 'https://www.npmjs.com/package/@foo/a',
+        state: 'unpublished',
+      },
+      {
+        name: '@foo/b',
+        url: 'https://www.npmjs.com/package/@foo/b',
+        state: 'unpublished',
+      },
+    ]);
+  });
+
+  it('should report a scope held by security placeholders', async () => {
+    const { client } = createRegistry({
+      '@foo/a': placeholder('@foo/a'),
+      '@foo/b': tombstone('@foo/b'),
+    });
+
+    await expect(
+      checkNameAvailability('foo', { client }),
+    ).resolves.toMatchObject({
+      conflict: 'scope',
+      conflictSubtype: 'security-holding',
+    });
+  });
+
+  it('should not set a sub-type when a package is live', async () => {
+    const { client } = createRegistry({
+      '@foo/a': placeholder('@foo/a'),
+      '@foo/b': published('@foo/b'),
+    });
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result.conflict).toBe('scope');
+    expect(result).not.toHaveProperty('conflictSubtype');
+    expect(result.evidence?.packages.map((link) => link.state)).toEqual([
+      'security-holding',
+      'published',
+    ]);
+  });
+
+  it('should not fetch package documents of larger scopes', async () => {
+    const { client, fetch } = createRegistry(
+      {
+        '@foo/a': tombstone('@foo/a'),
+        '@foo/b': tombstone('@foo/b'),
+        '@foo/c': tombstone('@foo/c'),
+        '@foo/d': tombstone('@foo/d'),
+      },
+      4,
+    );
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result).not.toHaveProperty('conflictSubtype');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep the scope conflict when a package document fails', async () => {
+    const { client } = createRegistry({
+      '@foo/a': tombstone('@foo/a'),
+      '@foo/b': () => new Response('Bad Gateway', { status: 502 }),
+    });
+
+    const result = await checkNameAvailability('foo', { client });
+
+    expect(result).toMatchObject({ status: 'taken', conflict: 'scope' });
+    expect(result).not.toHaveProperty('conflictSubtype');
+    expect(result.evidence?.packages[0]).not.toHaveProperty('state');
+  });
+});
+
+describe('checkNameAvailability punctuation variants', () => {
+  const noRetry = { maxAttempts: 1 };
+
+  interface RegistryState {
+    users?: string[];
+    scopes?: Record<string, string[]>;
+    failing?: string[];
+  }
+
+  const createRegistry = ({
+    users = [],
+    scopes = {},
+    failing = [],
+  }: RegistryState) => {
+    const fetch = createFakeFetch((url) => {
+      const path = decodeURIComponent(url.pathname);
+      const text = url.searchParams.get('text') ?? '';
+      const name = path.startsWith('/-/user/org.couchdb.user:')
+        ? path.slice('/-/user/org.couchdb.user:'.length)
+        : path.startsWith('/~')
+          ? path.slice(2)
+          : path === '/_all_docs'
+            ? (
+                JSON.parse(url.searchParams.get('startkey') ?? '') as string
+              ).slice(1, -1)
+            : text.slice(text.indexOf(':') + 1);
+
+      if (failing.includes(name)) {
+        return new Response('Bad Gateway', { status: 502 });
+      }
+
+      if (path.startsWith('/-/org/')) {
+        return orgNotFoundResponse();
+      }
+      if (path.startsWith('/-/user/') || path.startsWith('/~')) {
+        return users.includes(name)
+          ? jsonResponse(userDocumentFixture(name))
+          : userNotFoundResponse();
+      }
+
+      const packages = text.startsWith('author:')
+        ? users.includes(name)
+          ? [`${name}-utils`]
+          : []
+        : (scopes[name] ?? []);
+
+      return path === '/_all_docs'
+        ? jsonResponse({ rows: packages.map((id) => ({ id })) })
+        : jsonResponse({
+            objects: packages.map((id) => ({ package: { name: id } })),
+            total: packages.length,
+          });
+    });
+    return {
+      fetch,
+      client: createRegistryClient({ proxies: [DIRECT_CONNECTION], fetch }),
+    };
+  };
+
+  const requestedUrls = (fetch: ReturnType<typeof createFakeFetch>) =>
+    fetch.mock.calls.map(([url]) => decodeURIComponent(url as string));
+
+  it('should not check variants by default', async () => {
+    const { client, fetch } = createRegistry({});
+
+    const result = await checkNameAvailability('my-org', { client });
+
+    expect(result.checks.map(({ check }) => check)).toEqual([
+      'user',
+      'org',
+      'scope',
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should look up every variant as a user and a scope', async () => {
+    const { client, fetch } = createRegistry({});
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+    });
+
+    expect(result).toMatchObject({ status: 'available', conflict: null });
+    expect(result).not.toHaveProperty('variant');
+    expect(result.checks.at(-1)).toEqual({
+      check: 'variants',
+      outcome: 'passed',
+    });
+    expect(requestedUrls(fetch).slice(3).sort()).toEqual(
+      [
+        'https://registry.npmjs.com/-/user/org.couchdb.user:myorg',
+        'https://registry.npmjs.com/-/user/org.couchdb.user:my_org',
+        'https://registry.npmjs.com/-/user/org.couchdb.user:my.org',
+        'https://replicate.npmjs.com/_all_docs?startkey="@myorg/"&endkey="@myorg/￰"',
+        'https://replicate.npmjs.com/_all_docs?startkey="@my_org/"&endkey="@my_org/￰"',
+        'https://replicate.npmjs.com/_all_docs?startkey="@my.org/"&endkey="@my.org/￰"',
+      ].sort(),
+    );
+  });
+
+  it('should report a scope held by a variant as taken', async () => {
+    const { client } = createRegistry({
+      scopes: { my_org: ['@my_org/core'] },
+    });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+    });
+
+    expect(result).toMatchObject({
+      status: 'taken',
+      isAvailable: false,
+      conflict: 'scope',
+      variant: 'my_org',
+      evidence: {
+        owner: '@my_org',
+        url: 'https://www.npmjs.com/search?q=scope%3Amy_org',
+        packages: [
+          {
+            name: '@my_org/core',
+            url: 'https://www.npmjs.com/package/@my_org/core',
+          },
+        ],
+        total: 1,
+      },
+    });
+    expect(result.checks.at(-1)).toEqual({
+      check: 'variants',
+      outcome: 'conflict',
+    });
+  });
+
+  it('should report a user holding a variant with their packages', async () => {
+    const { client, fetch } = createRegistry({ users: ['myorg'] });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+    });
+
+    expect(result).toMatchObject({
+      conflict: 'user',
+      variant: 'myorg',
+      evidence: {
+        owner: 'myorg',
+        url: 'https://www.npmjs.com/~myorg',
+        packages: [
+          {
+            name: 'myorg-utils',
+            url: 'https://www.npmjs.com/package/myorg-utils',
+          },
+        ],
+        total: 1,
+      },
+    });
+    expect(requestedUrls(fetch)).not.toContain(
+      'https://replicate.npmjs.com/_all_docs?startkey="@myorg/"&endkey="@myorg/￰"',
+    );
+  });
+
+  it('should report a user holding a variant without packages when the search fails', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname === '/-/user/org.couchdb.user:my.org'
+        ? jsonResponse(userDocumentFixture('my.org'))
+        : url.pathname === '/-/v1/search'
+          ? new Response('Bad Gateway', { status: 502 })
+          : url.pathname.startsWith('/-/org/')
+            ? orgNotFoundResponse()
+            : url.pathname === '/_all_docs'
+              ? jsonResponse({ rows: [] })
+              : userNotFoundResponse(),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+      retry: noRetry,
+    });
+
+    expect(result).toMatchObject({
+      conflict: 'user',
+      variant: 'my.org',
+      evidence: { owner: 'my.org', packages: [], total: 0 },
+    });
+  });
+
+  it('should fall back to the profile page for variants', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.pathname === '/-/user/org.couchdb.user:my_org'
+        ? new Response('Bad Gateway', { status: 502 })
+        : url.pathname === '/~my_org'
+          ? profilePageResponse('my_org')
+          : url.pathname.startsWith('/-/org/')
+            ? orgNotFoundResponse()
+            : url.pathname === '/-/v1/search'
+              ? jsonResponse({ objects: [], total: 0 })
+              : url.pathname === '/_all_docs'
+                ? jsonResponse({ rows: [] })
+                : userNotFoundResponse(),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await expect(
+      checkNameAvailability('my-org', {
+        client,
+        checkVariants: true,
+        retry: noRetry,
+      }),
+    ).resolves.toMatchObject({ conflict: 'user', variant: 'my_org' });
+  });
+
+  it('should report a held variant even when another variant failed', async () => {
+    const { client } = createRegistry({
+      scopes: { 'my.org': ['@my.org/core'] },
+      failing: ['myorg'],
+    });
+
+    await expect(
+      checkNameAvailability('my-org', {
+        client,
+        checkVariants: true,
+        retry: noRetry,
+      }),
+    ).resolves.toMatchObject({ status: 'taken', variant: 'my.org' });
+  });
+
+  it('should report unknown when a variant lookup failed', async () => {
+    const { client } = createRegistry({ failing: ['my_org'] });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+      retry: noRetry,
+    });
+
+    expect(result.status).toBe('unknown');
+    expect(result.checks.at(-1)).toMatchObject({
+      check: 'variants',
+      outcome: 'failed',
+      error: { type: ApiErrorType.SERVER_ERROR },
+    });
+  });
+
+  it('should skip the variants once the exact name is taken', async () => {
+    const { client, fetch } = createRegistry({
+      scopes: { 'my-org': ['@my-org/core'], my_org: ['@my_org/core'] },
+    });
+
+    const result = await checkNameAvailability('my-org', {
+      client,
+      checkVariants: true,
+    });
+
+    expect(result).toMatchObject({ conflict: 'scope', status: 'taken' });
+    expect(result).not.toHaveProperty('variant');
+    expect(result.checks.at(-1)).toEqual({
+      check: 'variants',
+      outcome: 'skipped',
+    });
+    expect(requestedUrls(fetch).join()).not.toContain('my_org');
+  });
+
+  it('should list variant scopes with the search lookup when selected', async () => {
+    const { client, fetch } = createRegistry({
+      scopes: { myorg: ['@myorg/core'] },
+    });
+
+    await expect(
+      checkNameAvailability('my-org', {
+        client,
+        checkVariants: true,
+        scopeLookup: 'search',
+      }),
+    ).resolves.toMatchObject({ variant: 'myorg' });
+    expect(requestedUrls(fetch)).toContain(
+      'https://registry.npmjs.com/-/v1/search?text=scope:myorg&size=10',
+    );
+  });
+
+  it('should pass the variant check of a name without punctuation', async () => {
+    const { client, fetch } = createRegistry({});
+
+    const result = await checkNameAvailability('myorg', {
+      client,
+      checkVariants: true,
+    });
+
+    expect(result.checks.at(-1)).toEqual({
+      check: 'variants',
+      outcome: 'passed',
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cache results with and without variants separately', async () => {
+    const { client } = createRegistry({
+      scopes: { my_org: ['@my_org/core'] },
+    });
+    const cache = createAvailabilityCache({ store: null });
+
+    await checkNameAvailability('my-org', { client, cache });
+    const result = await checkNameAvailability('my-org', {
+      client,
+      cache,
+      checkVariants: true,
+    });
+
+    expect(result).toMatchObject({ variant: 'my_org' });
+    expect(result).not.toHaveProperty('cachedAt');
   });
 });
@@ -1,59 +1,291 @@
-import type { ApiError } from 'src/types';
+import type {
+  ApiError,
+  AvailabilityStatus,
+  CheckName,
+  CheckResult,
+  ConflictEvidence,
+  ConflictSubtype,
+  ConflictType,
+  PackageLink,
+  PackageState,
+  UserLookupMethod,
+} from 'src/types';
 import { ApiErrorType } from 'src/types';
 
+import type { AvailabilityCache } from './availabilityCache';
+import type { RequestCoalescer } from './coalesce';
+import { createRequestCoalescer } from './coalesce';
+import type { RegistryEndpoint } from './errors';
+import {
+  CircuitOpenError,
+  InvalidResponseError,
+  OfflineError,
+  ProxyError,
+  RegistryHttpError,
+} from './errors';
+import { getPunctuationVariants } from './nameVariants';
+import type { ProxiedError, RegistryClient } from './registryClient';
+import { defaultRegistryClient } from './registryClient';
+import {
+  authorSearchUrl,
+  orgPackagesUrl,
+  orgPageUrl,
+  packagePageUrl,
+  packumentUrl,
+  scopePackagesUrl,
+  scopeSearchPageUrl,
+  scopeSearchUrl,
+  userDocumentUrl,
+  userProfileUrl,
+} from './registryUrls';
+import type { RequestPriority } from './requestScheduler';
+import {
+  isNpmSearchResponse,
+  isOrgPackagesResponse,
+  isPackumentResponse,
+  isScopeCheckResponse,
+  isUserDocumentResponse,
+} from './responseSchemas';
+import type { RetryOptions } from './retry';
+import { RetryError, withRetry } from './retry';
+
 const TIMEOUT_MS = 10000; // 10 second timeout
-const CORS_PROXY_URL = 'https://corsmirror.com/v1?url=';
-
-interface NpmSearchResponse {
-  objects?: {
-    package: {
-      name: string;
-      version: string;
-      description: string;
-    };
-    score: {
-      final: number;
-      detail: {
-        quality: number;
-        popularity: number;
-        maintenance: number;
-      };
-    };
-    searchScore: number;
-  }[];
-  total: number;
-  time: string;
+const MAX_EVIDENCE_PACKAGES = 10;
+// Scopes with at most this many packages get their package documents inspected
+const MAX_PACKUMENT_LOOKUPS = 3;
+
+// In-flight checks per registry client, shared by every caller on the page
+const inFlightChecks = new WeakMap<RegistryClient, RequestCoalescer>();
+
+export interface RegistryRequestOptions {
+  /** Registry client used to send requests (default: public npm registry) */
+  client?: RegistryClient;
+  /** Signal that cancels the request, combined with the request timeout */
+  signal?: AbortSignal;
+  /** Scheduler lane of the requests (default: background) */
+  priority?: RequestPriority;
 }
 
-interface ScopeCheckResponse {
-  total_rows: number;
-  offset: number;
-  rows: {
-    id: string;
-    key: string;
-    value: { rev: string };
-  }[];
+/** Options of a single request besides the client */
+type RequestInitOptions = Omit<RegistryRequestOptions, 'client'>;
+
+/**
+ * Sends a GET request through the registry client and reads the response.
+ *
+ * Applies the request timeout, combined with the caller's abort signal, and
+ * normalizes thrown values so callers always receive an Error (or the
+ * DOMException of an aborted request).
+ *
+ * @param client - Registry client used to send the request
+ * @param url - Absolute registry URL
+ * @param endpoint - Registry endpoint being requested
+ * @param read - Reads the successful response
+ * @param init - Signal that cancels the request and scheduler lane
+ * @returns Promise that resolves to the value read from the response
+ * @throws RegistryHttpError, ProxyError or Error for network, timeout, or server errors
+ */
+async function getRegistry<T>(
+  client: RegistryClient,
+  url: string,
+  endpoint: RegistryEndpoint,
+  read: (response: Response) => Promise<T>,
+  { signal, priority }: RequestInitOptions = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => {
+    controller.abort(signal?.reason);
+  };
+
+  /* v8 ignore start */
+  const timeoutId = setTimeout(() => {
+    controller.abort(new DOMException('Request timeout', 'TimeoutError'));
+  }, TIMEOUT_MS);
+  /* v8 ignore end */
+
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await client.get(url, {
+      signal: controller.signal,
+      endpoint,
+      priority,
+    });
+
+    return await read(response);
+  } catch (error) {
+    // Re-throw the error (including TimeoutError on timeout) to be handled by the caller
+    if (error instanceof Error || error instanceof DOMException) {
+      throw error;
+    }
+
+    throw new Error('Unknown error occurred');
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Parses a response body as JSON and checks it against the expected shape.
+ *
+ * @param response - Successful registry response
+ * @param url - Registry URL that was requested
+ * @param endpoint - Registry endpoint that was requested
+ * @param isValid - Runtime guard for the expected response shape
+ * @returns Promise that resolves to the validated response body
+ * @throws InvalidResponseError when the body is not JSON or has another shape
+ */
+async function readJson<T>(
+  response: Response,
+  url: string,
+  endpoint: RegistryEndpoint,
+  isValid: (value: unknown) => value is T,
+): Promise<T> {
+  const body = await response.text();
+  let data: unknown;
+
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new InvalidResponseError({
+      url,
+      endpoint,
+      reason: 'body is not JSON',
+      body,
+    });
+  }
+
+  if (!isValid(data)) {
+    throw new InvalidResponseError({
+      url,
+      endpoint,
+      reason: 'body does not match the expected shape',
+      body,
+    });
+  }
+
+  return data;
 }
 
 /**
- * Checks if a user exists on npm registry via the search API.
+ * Sends a GET request through the registry client and parses the JSON body.
+ *
+ * @param client - Registry client used to send the request
+ * @param url - Absolute registry URL
+ * @param endpoint - Registry endpoint being requested
+ * @param isValid - Runtime guard for the expected response shape
+ * @param init - Signal that cancels the request and scheduler lane
+ * @returns Promise that resolves to the validated response body
+ * @throws RegistryHttpError, ProxyError, InvalidResponseError or Error for network, timeout, or server errors
+ */
+function getRegistryJson<T>(
+  client: RegistryClient,
+  url: string,
+  endpoint: RegistryEndpoint,
+  isValid: (value: unknown) => value is T,
+  init?: RequestInitOptions,
+): Promise<T> {
+  return getRegistry(
+    client,
+    url,
+    endpoint,
+    (response) => readJson(response, url, endpoint, isValid),
+    init,
+  );
+}
+
+/**
+ * Checks whether a registry or website URL exists.
+ *
+ * @param client - Registry client used to send the request
+ * @param url - Absolute URL of the document or page
+ * @param endpoint - Registry endpoint being requested
+ * @param read - Reads a successful response (e.g. validates its body)
+ * @param init - Signal that cancels the request and scheduler lane
+ * @returns Promise that resolves to true for a successful response, false for 404
+ * @throws RegistryHttpError, ProxyError, InvalidResponseError or Error for other failures
+ */
+async function existsAt(
+  client: RegistryClient,
+  url: string,
+  endpoint: RegistryEndpoint,
+  read: (response: Response) => Promise<unknown>,
+  init?: RequestInitOptions,
+): Promise<boolean> {
+  try {
+    await getRegistry(client, url, endpoint, read, init);
+    return true;
+  } catch (error) {
+    if (error instanceof RegistryHttpError && error.status === 404) {
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+/** Whether a user exists and which lookup decided it */
+export interface UserLookup {
+  exists: boolean;
+  method: UserLookupMethod;
+}
+
+/** Lookup method tried by {@link lookupUser} */
+interface UserLookupStep {
+  method: UserLookupMethod;
+  exists: () => Promise<boolean>;
+}
+
+/**
+ * Tries each lookup in order until one decides whether the user exists.
+ *
+ * @param steps - Lookups to try, most reliable first
+ * @param signal - Signal that stops the fallback once aborted
+ * @returns Promise that resolves to the first decided lookup
+ * @throws The error of the last lookup when every lookup failed
+ * @throws The abort reason when `signal` is aborted
+ */
+async function resolveUser(
+  steps: UserLookupStep[],
+  signal?: AbortSignal,
+): Promise<UserLookup> {
+  let lastError: unknown;
+
+  for (const { method, exists } of steps) {
+    try {
+      return { exists: await exists(), method };
+    } catch (error) {
+      signal?.throwIfAborted();
+      lastError = error;
+    }
+  }
+
+  throw lastError as Error;
+}
+
+/**
+ * Checks if a user exists on npm registry.
  *
  * This function handles the complexity of checking npm user existence:
  *
  * Technical Implementation:
- * - Uses corsmirror.com as CORS proxy to bypass browser restrictions
- * - Makes GET requests to npm registry search API with author filter
- * - Response contains objects array - user exists if array has items
- * - Uses search API which is designed for this type of query
+ * - Sends requests through the registry client (CORS proxy chain with failover by default)
+ * - Uses {@link lookupUser}: the user document, then the `~username` profile
+ *   page, then the author search as a fallback
+ * - Users without any published package are found by the first two lookups
  *
  * Error Handling:
+ * - Failed lookups fall back to the next one
  * - Network timeouts (10 second limit)
  * - CORS proxy failures
  * - npm registry server errors
  * - Invalid response format parsing
  *
  * Performance Considerations:
- * - GET requests with size=1 parameter for minimal data transfer
+ * - The fallback lookups are only sent when the previous one failed
  * - Timeout prevents hanging requests
  * - Proper error cleanup and resource management
  *
@@ -70,54 +302,164 @@ interface ScopeCheckResponse {
  * ```
  *
  * @param userName - The user name to check (must be valid npm user name)
+ * @param options - Request options such as the registry client and abort signal
  * @returns Promise that resolves to boolean: true if user exists, false if not found
- * @throws ApiError for network, timeout, or server errors with detailed error information
+ * @throws Error of the author search when every lookup failed
  */
-export async function checkUserExists(userName: string): Promise<boolean> {
-  const controller = new AbortController();
+export async function checkUserExists(
+  userName: string,
+  options: RegistryRequestOptions = {},
+): Promise<boolean> {
+  const { exists } = await lookupUser(userName, options);
+  return exists;
+}
 
-  /* v8 ignore start */
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, TIMEOUT_MS);
-  /* v8 ignore end */
+/**
+ * Looks up a user, recording which method decided the result.
+ *
+ * Lookups, most reliable first:
+ * 1. user-document: the registry's `/-/user/org.couchdb.user:<name>` document
+ * 2. profile-page: the website's `~<name>` profile page
+ * 3. author-search: packages published by the user (a heuristic, since
+ *    users without packages are not found)
+ *
+ * Each lookup is only sent when the previous one failed (a 404 decides that
+ * the user does not exist).
+ *
+ * @example
+ * ```typescript
+ * const { exists, method } = await lookupUser('some-user');
+ * console.log(exists, 'according to the', method);
+ * ```
+ *
+ * @param userName - The user name to look up
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to whether the user exists and the deciding method
+ * @throws Error of the author search when every lookup failed
+ * @throws The abort reason when `signal` is aborted
+ */
+export function lookupUser(
+  userName: string,
+  options: RegistryRequestOptions = {},
+): Promise<UserLookup> {
+  return resolveUser(
+    [
+      {
+        method: 'user-document',
+        exists: () => checkUserDocument(userName, options),
+      },
+      {
+        method: 'profile-page',
+        exists: () => checkUserProfile(userName, options),
+      },
+      {
+        method: 'author-search',
+        exists: async () =>
+          (await searchUserPackages(userName, options)).packages.length > 0,
+      },
+    ],
+    options.signal,
+  );
+}
 
-  try {
-    const registryUrl = `https://registry.npmjs.com/-/v1/search?text=author:${userName}&size=1`;
-    const url = `${CORS_PROXY_URL}${encodeURIComponent(registryUrl)}`;
+/**
+ * Checks if the registry has a user document for a name.
+ *
+ * @param userName - The user name to check
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to true if the document exists, false for 404
+ * @throws Error for network, timeout, or server errors
+ */
+export async function checkUserDocument(
+  userName: string,
+  options: RegistryRequestOptions = {},
+): Promise<boolean> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    const response = await fetch(url, {
-      method: 'GET',
-      signal: controller.signal,
-    });
+  const url = userDocumentUrl(client.registryUrl, userName);
 
-    clearTimeout(timeoutId);
+  return existsAt(
+    client,
+    url,
+    'user-document',
+    (response) =>
+      readJson(response, url, 'user-document', isUserDocumentResponse),
+    init,
+  );
+}
 
-    if (!response.ok) {
-      throw new Error(
-        `HTTP ${response.status.toString()}: ${response.statusText}`,
-      );
-    }
+/**
+ * Checks if the npm website has a `~username` profile page for a name.
+ *
+ * @param userName - The user name to check
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to true if the page exists, false for 404
+ * @throws Error for network, timeout, or server errors
+ */
+export async function checkUserProfile(
+  userName: string,
+  options: RegistryRequestOptions = {},
+): Promise<boolean> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    const data = (await response.json()) as NpmSearchResponse;
+  return existsAt(
+    client,
+    userProfileUrl(client.websiteUrl, userName),
+    'user-profile',
+    () => Promise.resolve(),
+    init,
+  );
+}
 
-    // User exists if the search returns any packages by that author
-    return (data.objects?.length ?? 0) > 0;
-  } catch (error) {
-    clearTimeout(timeoutId);
+/** Packages found for a user, org or scope */
+export interface PackageMatches {
+  /** Names of the matching packages returned by the registry */
+  packages: string[];
+  /** Total number of matching packages */
+  total: number;
+}
 
-    // Handle AbortError (timeout)
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      throw new Error(error.message || 'Request timeout');
-    }
+/**
+ * Searches the registry for packages published by a user.
+ *
+ * Uses the registry search API with an author filter (the fallback lookup
+ * of {@link lookupUser}), keeping the names of the returned packages and
+ * the total reported by the registry. Up to 10 packages are requested, so
+ * the packages linked as evidence match the scope search.
+ *
+ * @param userName - The user name to search for
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to the matching packages
+ * @throws Error for network, timeout, or server errors
+ */
+export async function searchUserPackages(
+  userName: string,
+  options: RegistryRequestOptions = {},
+): Promise<PackageMatches> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    // Re-throw the error to be handled by the caller
-    if (error instanceof Error) {
-      throw error;
-    }
+  const data = await getRegistryJson(
+    client,
+    authorSearchUrl(client.registryUrl, userName, MAX_EVIDENCE_PACKAGES),
+    'user-search',
+    isNpmSearchResponse,
+    init,
+  );
 
-    throw new Error('Unknown error occurred');
-  }
+  const packages = (data.objects ?? []).map((object) => object.package.name);
+  return { packages, total: Math.max(data.total, packages.length) };
+}
+
+/**
+ * Registry lookup listing the packages of a scope:
+ * - replicate: `_all_docs` range query on the replicate endpoint
+ * - search: registry search API with the `scope:` qualifier
+ */
+export type ScopeLookupMethod = 'replicate' | 'search';
+
+export interface ScopeLookupOptions extends RegistryRequestOptions {
+  /** Lookup used to list the packages of the scope (default: replicate) */
+  lookup?: ScopeLookupMethod;
 }
 
 /**
@@ -126,10 +468,12 @@ export async function checkUserExists(userName: string): Promise<boolean> {
  * This function handles the complexity of checking npm scope availability:
  *
  * Technical Implementation:
- * - Uses corsmirror.com as CORS proxy to bypass browser restrictions
- * - Makes GET requests to npm replicate endpoint with scope-specific queries
+ * - Sends requests through the registry client (CORS proxy chain with failover by default)
+ * - Makes GET requests to the replicate endpoint with scope-specific queries
  * - Uses startkey/endkey pattern to find all packages in a scope
  * - Scope exists if any packages are found (rows.length \> 0)
+ * - With `lookup: 'search'`, queries the registry search API's `scope:`
+ *   qualifier instead, which is faster and rarely blocked by proxies
  *
  * Error Handling:
  * - Network timeouts (10 second limit)
@@ -155,75 +499,336 @@ export async function checkUserExists(userName: string): Promise<boolean> {
  * ```
  *
  * @param scopeName - The scope name to check (without \@ prefix)
+ * @param options - Request options such as the registry client, lookup and abort signal
  * @returns Promise that resolves to boolean: true if scope exists, false if available
  * @throws Error for network, timeout, or server errors
  */
-export async function checkScopeExists(scopeName: string): Promise<boolean> {
-  const controller = new AbortController();
+export async function checkScopeExists(
+  scopeName: string,
+  options: ScopeLookupOptions = {},
+): Promise<boolean> {
+  const { lookup = 'replicate', ...request } = options;
+  const { total } =
+    lookup === 'search'
+      ? await searchScopePackages(scopeName, request)
+      : await listScopePackages(scopeName, request);
 
-  /* v8 ignore start */
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, TIMEOUT_MS);
-  /* v8 ignore end */
+  // Scope exists if any packages found
+  return total > 0;
+}
 
-  try {
-    // Build replicate endpoint URL for scope checking
-    // E.g., https://replicate.npmjs.com/_all_docs?startkey="@angular/"&endkey="@angular/\ufff0"
-    const replicateUrl = `https://replicate.npmjs.com/_all_docs?startkey="@${scopeName}/"&endkey="@${scopeName}/\ufff0"`;
-    const proxyUrl = `${CORS_PROXY_URL}${encodeURIComponent(replicateUrl)}`;
+/**
+ * Lists the packages published under a scope via the replicate endpoint.
+ *
+ * Uses the same `_all_docs` range query as {@link checkScopeExists}. Only
+ * the first 10 package names are kept, along with the total count.
+ *
+ * @param scopeName - The scope name to list (without \@ prefix)
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to the matching packages
+ * @throws Error for network, timeout, or server errors
+ */
+export async function listScopePackages(
+  scopeName: string,
+  options: RegistryRequestOptions = {},
+): Promise<PackageMatches> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    const response = await fetch(proxyUrl, {
-      method: 'GET',
-      signal: controller.signal,
-    });
+  const data = await getRegistryJson(
+    client,
+    scopePackagesUrl(client.replicateUrl, scopeName),
+    'scope-replicate',
+    isScopeCheckResponse,
+    init,
+  );
 
-    clearTimeout(timeoutId);
+  return {
+    packages: data.rows.slice(0, MAX_EVIDENCE_PACKAGES).map((row) => row.id),
+    total: data.rows.length,
+  };
+}
 
-    if (!response.ok) {
-      throw new Error(
-        `HTTP ${response.status.toString()}: ${response.statusText}`,
-      );
-    }
+/**
+ * Lists the packages published under a scope via the registry search API.
+ *
+ * Uses the search `scope:` qualifier, an alternative to the replicate
+ * `_all_docs` range query of {@link listScopePackages}. Results outside the
+ * scope are dropped. Only the first 10 package names are kept, along with
+ * the total reported by the registry.
+ *
+ * @param scopeName - The scope name to list (without \@ prefix)
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to the matching packages
+ * @throws Error for network, timeout, or server errors
+ */
+export async function searchScopePackages(
+  scopeName: string,
+  options: RegistryRequestOptions = {},
+): Promise<PackageMatches> {
+  const { client = defaultRegistryClient, ...init } = options;
+
+  const data = await getRegistryJson(
+    client,
+    scopeSearchUrl(client.registryUrl, scopeName, MAX_EVIDENCE_PACKAGES),
+    'scope-search',
+    isNpmSearchResponse,
+    init,
+  );
+
+  const objects = data.objects ?? [];
+  const packages = objects
+    .map((object) => object.package.name)
+    .filter((packageName) => packageName.startsWith(`@${scopeName}/`));
+
+  return {
+    packages,
+    // Trust the registry total only when every result is in the scope
+    total:
+      packages.length < objects.length
+        ? packages.length
+        : Math.max(data.total, packages.length),
+  };
+}
+
+/**
+ * Checks if an npm organization exists via the org package listing.
+ *
+ * This function detects orgs that the user search and scope checks miss:
+ *
+ * Technical Implementation:
+ * - Sends requests through the registry client (CORS proxy chain with failover by default)
+ * - Makes GET requests to the `/-/org/<name>/package` endpoint
+ * - The registry lists the packages of an org, even an empty one (`{}`)
+ * - Names that are not an org (including user scopes) answer 404
+ *
+ * Error Handling:
+ * - 404 responses mean no such org and resolve to false
+ * - Network timeouts (10 second limit)
+ * - CORS proxy failures
+ * - npm registry server errors
+ *
+ * @example
+ * ```typescript
+ * import { checkOrgExists } from './npmRegistry';
+ *
+ * try {
+ *   const exists = await checkOrgExists('my-org');
+ *   console.log(exists ? 'Org exists' : 'Org not found');
+ * } catch (error) {
+ *   console.error('Failed to check org:', error);
+ * }
+ * ```
+ *
+ * @param orgName - The org name to check (without \@ prefix)
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to boolean: true if the org exists, false if not found
+ * @throws Error for network, timeout, or server errors
+ */
+export async function checkOrgExists(
+  orgName: string,
+  options: RegistryRequestOptions = {},
+): Promise<boolean> {
+  return (await listOrgPackages(orgName, options)) !== null;
+}
+
+/**
+ * Lists the packages of an npm organization.
+ *
+ * Uses the same org package listing as {@link checkOrgExists}. Only the
+ * first 10 package names are kept, along with the total count.
+ *
+ * @param orgName - The org name to list (without \@ prefix)
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to the org's packages, or null when no such org exists
+ * @throws Error for network, timeout, or server errors
+ */
+export async function listOrgPackages(
+  orgName: string,
+  options: RegistryRequestOptions = {},
+): Promise<PackageMatches | null> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    const data = (await response.json()) as ScopeCheckResponse;
+  try {
+    const data = await getRegistryJson(
+      client,
+      orgPackagesUrl(client.registryUrl, orgName),
+      'org-packages',
+      isOrgPackagesResponse,
+      init,
+    );
+    const names = Object.keys(data);
 
-    // Scope exists if any packages found
-    return data.rows.length > 0;
+    return {
+      packages: names.slice(0, MAX_EVIDENCE_PACKAGES),
+      total: names.length,
+    };
   } catch (error) {
-    clearTimeout(timeoutId);
+    // Not an org: the name is free or belongs to a user
+    if (error instanceof RegistryHttpError && error.status === 404) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Looks up the state of a package via its package document (packument).
+ *
+ * Technical Implementation:
+ * - Unpublished packages keep a tombstone document with `time.unpublished`
+ * - Packages that vanished from the registry (404) are reported as unpublished
+ * - npm "security holding" placeholders are recognized by their
+ *   `0.0.1-security` version or their description
+ *
+ * @param packageName - The package name, optionally scoped
+ * @param options - Request options such as the registry client and abort signal
+ * @returns Promise that resolves to the package state
+ * @throws Error for network, timeout, or server errors
+ */
+export async function getPackageState(
+  packageName: string,
+  options: RegistryRequestOptions = {},
+): Promise<PackageState> {
+  const { client = defaultRegistryClient, ...init } = options;
 
-    // Handle AbortError (timeout)
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      throw new Error(error.message || 'Request timeout');
+  try {
+    const packument = await getRegistryJson(
+      client,
+      packumentUrl(client.registryUrl, packageName),
+      'packument',
+      isPackumentResponse,
+      init,
+    );
+
+    if (packument.time?.unpublished) {
+      return 'unpublished';
     }
 
-    // Re-throw the error to be handled by the caller
-    if (error instanceof Error) {
-      throw error;
+    const latest = packument['dist-tags']?.latest;
+    if (
+      (typeof latest === 'string' && latest.endsWith('-security')) ||
+      /security holding package/i.test(packument.description ?? '')
+    ) {
+      return 'security-holding';
     }
 
-    throw new Error('Unknown error occurred');
+    return 'published';
+  } catch (error) {
+    if (error instanceof RegistryHttpError && error.status === 404) {
+      return 'unpublished';
+    }
+
+    throw error;
   }
 }
 
 export interface NameAvailabilityResult {
-  /** Whether the name is available for user and scope use */
-  isAvailable: boolean;
+  /** Overall availability, taking failed and heuristic checks into account */
+  status: AvailabilityStatus;
+  /** Whether the name is available for user, org and scope use (null = unknown) */
+  isAvailable: boolean | null;
+  /** Kind of owner already holding the name (null = available) */
+  conflict: ConflictType | null;
+  /** Packages proving the conflict (null = available) */
+  evidence: ConflictEvidence | null;
+  /** Placeholder packages holding a scope (set only for scope conflicts without live packages) */
+  conflictSubtype?: ConflictSubtype;
+  /** Near-identical name holding the conflict, e.g. "my_org" for "my-org" (set only for variant conflicts) */
+  variant?: string;
+  /** Outcome of each registry check */
+  checks: CheckResult[];
   /** URL to the potential npm organization page */
   orgUrl: string;
+  /** When the result was originally checked (set only when served from cache) */
+  cachedAt?: Date;
+}
+
+/**
+ * How the user, org and scope checks are scheduled:
+ * - sequential: one after the other, skipping the remaining checks after a conflict
+ * - parallel: all at once, aborting the others on the first conflict
+ * - race-to-conflict: same as parallel; a failed check never stops the others
+ */
+export type CheckStrategy = 'sequential' | 'parallel' | 'race-to-conflict';
+
+/**
+ * How the scope check lists the packages of a scope:
+ * - replicate: `_all_docs` range query on the replicate endpoint
+ * - search: registry search API with the `scope:` qualifier
+ * - cross-validate: both, reporting "uncertain" when they disagree
+ */
+export type ScopeLookup = ScopeLookupMethod | 'cross-validate';
+
+export interface CheckNameAvailabilityOptions extends RegistryRequestOptions {
+  /** How the user, org and scope checks are scheduled (default: sequential) */
+  strategy?: CheckStrategy;
+  /** How the scope check lists the packages of a scope (default: replicate) */
+  scopeLookup?: ScopeLookup;
+  /** Whether to also check the punctuation variants of the name (default: false) */
+  checkVariants?: boolean;
+  /** Backoff settings for retrying transient failures of each request */
+  retry?: RetryOptions;
+  /** Cache to serve results from and store results in (default: no cache) */
+  cache?: AvailabilityCache;
+  /** Whether to skip the cache lookup and re-check the registry */
+  forceRefresh?: boolean;
+  /** Whether to serve cached results only, without sending any request */
+  offline?: boolean;
 }
 
 /**
- * Checks name availability with sequential user and scope validation.
+ * Checks name availability with user, org and scope validation.
  *
- * This function implements validation for user and scope conflicts:
+ * This function implements validation for user, org and scope conflicts:
  * 1. First checks if user exists on npm registry
- * 2. Then checks if scope exists on npm registry
- * 3. Returns availability status and potential org URL
+ * 2. Then checks if an org with that name exists, even without packages
+ * 3. Then checks if scope exists on npm registry (a scope that is not an
+ *    org belongs to a user)
+ * 4. Returns availability status, the kind of conflict with the packages
+ *    proving it, the outcome of each check, and the potential org URL
+ *
+ * The status is "taken" when a check finds a conflict. When no check finds
+ * one, it is "unknown" if a check failed, and "likely-available" rather than
+ * "available" when only the author search decided the user check, because
+ * it can't prove that no such user exists. A single failed check does not
+ * throw; only when every check failed is the error thrown.
+ *
+ * The default sequential strategy optimizes API calls by avoiding
+ * unnecessary checks when a conflict is found at any step (early
+ * termination). The parallel and race-to-conflict strategies start all
+ * checks together to cut the latency for available names, aborting the
+ * remaining checks as soon as a conflict is found.
  *
- * This approach optimizes API calls by avoiding unnecessary checks
- * when a conflict is found at any step (early termination).
+ * The scope check lists packages with the replicate `_all_docs` query by
+ * default. `scopeLookup` selects the search API's `scope:` qualifier
+ * instead, or cross-validates both: when they disagree (e.g. while the
+ * replicate lags behind a publish), the scope check is "uncertain" and the
+ * status "unknown".
+ *
+ * With `checkVariants`, a last check looks up the punctuation variants of
+ * the name (e.g. `my_org`, `my.org` and `myorg` for `my-org`, see
+ * {@link getPunctuationVariants}) as users and scopes. npm treats such names
+ * as confusingly similar, so a variant that is held makes the name "taken"
+ * as a near-identical variant, reported in `variant`.
+ *
+ * The name is trimmed and lowercased before any lookup, so concurrent checks
+ * of the same name (ignoring case and surrounding whitespace) share one
+ * in-flight request per endpoint, including checks started by different
+ * components.
+ *
+ * Aborting `signal` rejects with its reason and cancels the requests unless
+ * another concurrent check still waits for them. Aborted checks are never
+ * retried.
+ *
+ * Each request is an idempotent GET and is retried on transient failures
+ * (timeouts, network/proxy errors, 429 and 5xx) with exponential backoff
+ * and jitter, honoring Retry-After on 429 responses.
+ *
+ * When a cache is given, unexpired results are returned without any request
+ * (marked with `cachedAt`) unless `forceRefresh` is set, and fresh results
+ * are stored for later checks. With `offline` set, no request is sent: only
+ * cached results are returned.
  *
  * @example
  * ```typescript
@@ -231,58 +836,830 @@ export interface NameAvailabilityResult {
  *
  * try {
  *   const result = await checkNameAvailability('my-name');
- *   console.log(result.isAvailable ? 'Available!' : 'Not available');
+ *   console.log('Status:', result.status); // e.g. "likely-available"
+ *   console.log('Taken by:', result.conflict, result.evidence?.owner);
  *   console.log('Potential org URL:', result.orgUrl);
  * } catch (error) {
  *   console.error('Failed to check name:', error);
  * }
  * ```
  *
- * @param name - The name to check for user and scope availability
- * @returns Promise<NameAvailabilityResult> - availability status and org URL
- * @throws Error for network, timeout, or server errors
+ * @param name - The name to check for user, org and scope availability
+ * @param options - Request options such as the registry client, retry settings, strategy and abort signal
+ * @returns Promise<NameAvailabilityResult> - availability status, per-check breakdown and org URL
+ * @throws RetryError wrapping the last network, timeout, or server error when every check failed
+ * @throws The abort reason when `signal` is aborted
+ * @throws OfflineError when `offline` is set and no cached result exists
  */
 export async function checkNameAvailability(
   name: string,
+  options: CheckNameAvailabilityOptions = {},
 ): Promise<NameAvailabilityResult> {
-  // Step 1: Check if user exists
-  const userExists = await checkUserExists(name);
-  if (userExists) {
-    return {
-      isAvailable: false,
-      orgUrl: `https://www.npmjs.com/org/${name}`,
-    }; // Early termination - user conflict
+  const {
+    client = defaultRegistryClient,
+    cache,
+    forceRefresh = false,
+    offline = false,
+    scopeLookup = 'replicate',
+    checkVariants = false,
+    signal,
+  } = options;
+  // The URLs, the shared requests and the cache all use the same name
+  const normalizedName = name.trim().toLowerCase();
+  // Results of another scope lookup or without the variant check must not
+  // answer checks that want them
+  const cacheKey = `${client.registryUrl} ${normalizedName} ${scopeLookup}${checkVariants ? ' +variants' : ''}`;
+
+  signal?.throwIfAborted();
+
+  if (cache && !forceRefresh) {
+    const entry = await cache.get(cacheKey);
+    if (entry) {
+      return { ...entry.result, cachedAt: new Date(entry.storedAt) };
+    }
+  }
+
+  if (offline) {
+    throw new OfflineError(normalizedName);
+  }
+
+  const result = await checkRegistry(normalizedName, { ...options, client });
+  await cache?.set(cacheKey, result);
+  return result;
+}
+
+/**
+ * Joins the pending request for a name and endpoint, or starts a new one.
+ *
+ * @param client - Registry client the request is sent with
+ * @param endpoint - Registry endpoint being requested
+ * @param name - Name the request is sent for
+ * @param operation - Request to start when none is pending
+ * @param signal - Signal that stops this caller from waiting
+ * @returns Promise that settles with the shared request
+ */
+function coalesce<T>(
+  client: RegistryClient,
+  endpoint: RegistryEndpoint,
+  name: string,
+  operation: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  let coalescer = inFlightChecks.get(client);
+  if (!coalescer) {
+    coalescer = createRequestCoalescer();
+    inFlightChecks.set(client, coalescer);
   }
 
-  // Step 2: Check if scope exists
-  const scopeExists = await checkScopeExists(name);
-  if (scopeExists) {
+  return coalescer.run(`${endpoint} ${name}`, operation, signal);
+}
+
+/**
+ * Sends a registry lookup with retries, shared with concurrent checks.
+ *
+ * @param client - Registry client the request is sent with
+ * @param endpoint - Registry endpoint being requested
+ * @param name - Name being checked
+ * @param request - Lookup to send
+ * @param settings - Backoff settings for retrying transient failures and scheduler lane
+ * @param signal - Signal that stops this caller from waiting
+ * @returns Promise that settles with the shared lookup
+ */
+function lookup<T>(
+  client: RegistryClient,
+  endpoint: RegistryEndpoint,
+  name: string,
+  request: (options: RegistryRequestOptions) => Promise<T>,
+  { retry, priority }: Pick<CheckNameAvailabilityOptions, 'retry' | 'priority'>,
+  signal?: AbortSignal,
+): Promise<T> {
+  return coalesce(
+    client,
+    endpoint,
+    name,
+    (shared) =>
+      withRetry(() => request({ client, signal: shared, priority }), {
+        ...retry,
+        signal: shared,
+      }),
+    signal,
+  );
+}
+
+interface Conflict {
+  type: ConflictType;
+  evidence: ConflictEvidence;
+  subtype?: ConflictSubtype;
+  /** Near-identical name holding the conflict */
+  variant?: string;
+}
+
+/** What a registry check found */
+interface CheckFinding {
+  /** Conflict found (null = no conflict) */
+  conflict: Conflict | null;
+  /** Whether a passed check proves the name is free (false = heuristic) */
+  conclusive: boolean;
+  /** Lookup that decided the user check */
+  method?: UserLookupMethod;
+  /** Whether cross-validated lookups disagree, so the check is inconclusive */
+  uncertain?: boolean;
+}
+
+/** Registry lookup that contributes to the availability result */
+interface RegistryCheck {
+  name: CheckName;
+  run: (signal?: AbortSignal) => Promise<CheckFinding>;
+}
+
+type SettledCheck =
+  | { outcome: 'passed' | 'conflict' | 'uncertain'; finding: CheckFinding }
+  | { outcome: 'failed'; error: unknown }
+  | { outcome: 'skipped' };
+
+/**
+ * Runs one check and records its outcome instead of throwing.
+ *
+ * @param check - Check to run
+ * @param signal - Signal that cancels the check
+ * @returns Promise that resolves to the settled check
+ * @throws The abort reason when `signal` is aborted
+ */
+async function settleCheck(
+  check: RegistryCheck,
+  signal?: AbortSignal,
+): Promise<SettledCheck> {
+  try {
+    const finding = await check.run(signal);
     return {
-      isAvailable: false,
-      orgUrl: `https://www.npmjs.com/org/${name}`,
-    }; // Early termination - scope conflict
+      outcome: finding.conflict
+        ? 'conflict'
+        : finding.uncertain
+          ? 'uncertain'
+          : 'passed',
+      finding,
+    };
+  } catch (error) {
+    signal?.throwIfAborted();
+    return { outcome: 'failed', error };
   }
+}
+
+/**
+ * Runs checks one after the other, skipping the rest after a conflict.
+ *
+ * @param checks - Checks to run in order
+ * @param signal - Signal that cancels the checks
+ * @returns Promise that resolves to the settled checks
+ */
+async function runSequentially(
+  checks: RegistryCheck[],
+  signal?: AbortSignal,
+): Promise<SettledCheck[]> {
+  const settled: SettledCheck[] = [];
 
-  // Name is available for user and scope - return org URL for reference
+  for (const check of checks) {
+    settled.push(
+      settled.some(({ outcome }) => outcome === 'conflict')
+        ? { outcome: 'skipped' } // Early termination - conflict already found
+        : await settleCheck(check, signal),
+    );
+  }
+
+  return settled;
+}
+
+/**
+ * Runs checks together and stops as soon as one finds a conflict.
+ *
+ * Checks still running once a conflict is found are aborted and reported
+ * as skipped. A failed check does not stop the others.
+ *
+ * @param checks - Checks to run
+ * @param signal - Signal that cancels all checks
+ * @returns Promise that resolves to the settled checks
+ * @throws The abort reason when `signal` is aborted
+ */
+async function runConcurrently(
+  checks: RegistryCheck[],
+  signal?: AbortSignal,
+): Promise<SettledCheck[]> {
+  const controller = new AbortController();
+  const onAbort = () => {
+    controller.abort(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const settled: (SettledCheck | undefined)[] = checks.map(() => undefined);
+
+  try {
+    await new Promise<void>((resolve) => {
+      let pending = checks.length;
+
+      const finish = () => {
+        // Stop the checks whose result is no longer needed
+        controller.abort();
+        resolve();
+      };
+
+      checks.forEach((check, index) => {
+        void settleCheck(check, controller.signal).then((result) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          settled[index] = result;
+          pending--;
+
+          if (pending === 0 || result.outcome === 'conflict') {
+            finish();
+          }
+        }, finish);
+      });
+    });
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  signal?.throwIfAborted();
+  return settled.map((result) => result ?? { outcome: 'skipped' });
+}
+
+/**
+ * Combines the settled checks into the availability status.
+ *
+ * - taken: a check found a conflict
+ * - unknown: no conflict, but at least one check failed or was uncertain
+ * - available: every check passed and each one is conclusive
+ * - likely-available: every check passed, but some only heuristically
+ *
+ * @param settled - Outcome of each check
+ * @returns Availability status
+ */
+function getStatus(settled: SettledCheck[]): AvailabilityStatus {
+  if (settled.some(({ outcome }) => outcome === 'conflict')) {
+    return 'taken';
+  }
+
+  if (
+    settled.some(
+      ({ outcome }) => outcome === 'failed' || outcome === 'uncertain',
+    )
+  ) {
+    return 'unknown';
+  }
+
+  return settled.every(
+    (result) => result.outcome === 'passed' && result.finding.conclusive,
+  )
+    ? 'available'
+    : 'likely-available';
+}
+
+/**
+ * Derives the conflict sub-type of a scope from the state of its packages.
+ *
+ * @param states - State of every package of the scope
+ * @returns unpublished when every package was unpublished, security-holding
+ * when the rest are security placeholders, or undefined when a package is live
+ */
+function getScopeSubtype(states: PackageState[]): ConflictSubtype | undefined {
+  if (states.every((state) => state === 'unpublished')) {
+    return 'unpublished';
+  }
+
+  if (states.every((state) => state !== 'published')) {
+    return 'security-holding';
+  }
+
+  return undefined;
+}
+
+/**
+ * Links package names to their npm website pages.
+ *
+ * @param names - Package names
+ * @param websiteUrl - Base URL of the npm website
+ * @returns At most 10 package links
+ */
+function toPackageLinks(names: string[], websiteUrl: string): PackageLink[] {
+  return names
+    .slice(0, MAX_EVIDENCE_PACKAGES)
+    .map((name) => ({ name, url: packagePageUrl(websiteUrl, name) }));
+}
+
+/**
+ * Builds the conflict for a user, org or scope holding a name.
+ *
+ * @param type - Kind of owner holding the name
+ * @param owner - Owner as displayed (e.g. "\@foo" for a scope)
+ * @param url - npm website page of the owner
+ * @param matches - Packages of the owner found by the registry
+ * @param websiteUrl - Base URL of the npm website
+ * @returns Conflict with the packages as evidence
+ */
+function toConflict(
+  type: ConflictType,
+  owner: string,
+  url: string,
+  matches: PackageMatches,
+  websiteUrl: string,
+): Conflict {
   return {
-    isAvailable: true,
-    orgUrl: `https://www.npmjs.com/org/${name}`,
+    type,
+    evidence: {
+      owner,
+      url,
+      packages: toPackageLinks(matches.packages, websiteUrl),
+      total: matches.total,
+    },
+  };
+}
+
+/**
+ * Runs the user, org, scope and (optionally) variant checks against the
+ * registry with the given strategy.
+ *
+ * The org check runs before the scope check, so a scope held by an org is
+ * reported as an org conflict, and one held by a user as a scope conflict.
+ *
+ * A failed check does not discard the others: the result is reported as
+ * unknown (or taken, when another check found a conflict). Only when every
+ * check failed is the first error thrown.
+ *
+ * @param name - The name to check
+ * @param options - Registry client, retry settings, strategy and abort signal
+ * @returns Promise<NameAvailabilityResult> - status, per-check breakdown and org URL
+ * @throws RetryError of the first failed check when every check failed
+ */
+async function checkRegistry(
+  name: string,
+  options: CheckNameAvailabilityOptions & { client: RegistryClient },
+): Promise<NameAvailabilityResult> {
+  const {
+    client,
+    retry,
+    priority,
+    strategy = 'sequential',
+    scopeLookup = 'replicate',
+    checkVariants = false,
+    signal,
+  } = options;
+  const { websiteUrl } = client;
+  const settings = { retry, priority };
+  const orgUrl = orgPageUrl(websiteUrl, name);
+
+  const listScope = (
+    scopeName: string,
+    method: ScopeLookupMethod,
+    checkSignal?: AbortSignal,
+  ) =>
+    method === 'search'
+      ? lookup(
+          client,
+          'scope-search',
+          scopeName,
+          (request) => searchScopePackages(scopeName, request),
+          settings,
+          checkSignal,
+        )
+      : lookup(
+          client,
+          'scope-replicate',
+          scopeName,
+          (request) => listScopePackages(scopeName, request),
+          settings,
+          checkSignal,
+        );
+
+  const searchPackagesOf = (userName: string, checkSignal?: AbortSignal) =>
+    lookup(
+      client,
+      'user-search',
+      userName,
+      (request) => searchUserPackages(userName, request),
+      settings,
+      checkSignal,
+    );
+
+  // Conclusive user lookups, tried before the author search heuristic
+  const userLookupSteps = (
+    userName: string,
+    checkSignal?: AbortSignal,
+  ): UserLookupStep[] => [
+    {
+      method: 'user-document',
+      exists: () =>
+        lookup(
+          client,
+          'user-document',
+          userName,
+          (request) => checkUserDocument(userName, request),
+          settings,
+          checkSignal,
+        ),
+    },
+    {
+      method: 'profile-page',
+      exists: () =>
+        lookup(
+          client,
+          'user-profile',
+          userName,
+          (request) => checkUserProfile(userName, request),
+          settings,
+          checkSignal,
+        ),
+    },
+  ];
+
+  // Looks up a punctuation variant as a user, then as a scope
+  const findVariantConflict = async (
+    variant: string,
+    checkSignal?: AbortSignal,
+  ): Promise<Conflict | null> => {
+    const { exists } = await resolveUser(
+      userLookupSteps(variant, checkSignal),
+      checkSignal,
+    );
+
+    if (exists) {
+      const evidence = await searchPackagesOf(variant, checkSignal).catch(
+        () => {
+          checkSignal?.throwIfAborted();
+          return { packages: [], total: 0 };
+        },
+      );
+      return {
+        ...toConflict(
+          'user',
+          variant,
+          userProfileUrl(websiteUrl, variant),
+          evidence,
+          websiteUrl,
+        ),
+        variant,
+      };
+    }
+
+    const matches = await listScope(
+      variant,
+      // Variants only need one lookup to find a held scope
+      scopeLookup === 'search' ? 'search' : 'replicate',
+      checkSignal,
+    );
+
+    return matches.total > 0
+      ? {
+          ...toConflict(
+            'scope',
+            `@${variant}`,
+            scopeSearchPageUrl(websiteUrl, variant),
+            matches,
+            websiteUrl,
+          ),
+          variant,
+        }
+      : null;
+  };
+
+  const checks: RegistryCheck[] = [
+    {
+      name: 'user',
+      run: async (checkSignal) => {
+        let matches: PackageMatches | undefined;
+        const searchPackages = async () => {
+          matches ??= await searchPackagesOf(name, checkSignal);
+          return matches;
+        };
+
+        const { exists, method } = await resolveUser(
+          [
+            ...userLookupSteps(name, checkSignal),
+            {
+              method: 'author-search',
+              exists: async () => (await searchPackages()).packages.length > 0,
+            },
+          ],
+          checkSignal,
+        );
+
+        const finding = {
+          // The author search can't prove that no such user exists
+          conclusive: method !== 'author-search',
+          method,
+        };
+
+        if (!exists) {
+          return { ...finding, conflict: null };
+        }
+
+        // The packages are only evidence, so the user is reported without them
+        const evidence = await searchPackages().catch(() => {
+          checkSignal?.throwIfAborted();
+          return { packages: [], total: 0 };
+        });
+
+        return {
+          ...finding,
+          conflict: toConflict(
+            'user',
+            name,
+            userProfileUrl(websiteUrl, name),
+            evidence,
+            websiteUrl,
+          ),
+        };
+      },
+    },
+    {
+      name: 'org',
+      run: async (checkSignal) => {
+        const matches = await lookup(
+          client,
+          'org-packages',
+          name,
+          (request) => listOrgPackages(name, request),
+          settings,
+          checkSignal,
+        );
+
+        // An org holds its name even before publishing any package
+        return {
+          conclusive: true,
+          conflict:
+            matches && toConflict('org', name, orgUrl, matches, websiteUrl),
+        };
+      },
+    },
+    {
+      name: 'scope',
+      run: async (checkSignal) => {
+        let matches: PackageMatches;
+
+        if (scopeLookup === 'cross-validate') {
+          const results = await Promise.allSettled([
+            listScope(name, 'replicate', checkSignal),
+            listScope(name, 'search', checkSignal),
+          ]);
+          checkSignal?.throwIfAborted();
+
+          // A single lookup decides when the other one failed
+          const listed = results.flatMap((result) =>
+            result.status === 'fulfilled' ? [result.value] : [],
+          );
+          if (listed.length === 0) {
+            throw (results[0] as PromiseRejectedResult).reason as Error;
+          }
+
+          if (
+            listed.some(({ total }) => total > 0) !==
+            listed.every(({ total }) => total > 0)
+          ) {
+            return { conclusive: false, conflict: null, uncertain: true };
+          }
+
+          matches = listed[0];
+        } else {
+          matches = await listScope(name, scopeLookup, checkSignal);
+        }
+
+        if (matches.total === 0) {
+          return { conclusive: true, conflict: null };
+        }
+
+        const conflict = toConflict(
+          'scope',
+          `@${name}`,
+          scopeSearchPageUrl(websiteUrl, name),
+          matches,
+          websiteUrl,
+        );
+
+        // A few packages may all be tombstones or security placeholders
+        if (matches.total <= MAX_PACKUMENT_LOOKUPS) {
+          const states = await Promise.all(
+            matches.packages.map((packageName) =>
+              lookup(
+                client,
+                'packument',
+                packageName,
+                (request) => getPackageState(packageName, request),
+                // Details only: a single attempt keeps the result fast
+                { priority, retry: { maxAttempts: 1 } },
+                checkSignal,
+              ),
+            ),
+          ).catch(() => {
+            // The package states are only details of the conflict
+            checkSignal?.throwIfAborted();
+            return null;
+          });
+
+          if (states) {
+            conflict.evidence.packages.forEach((link, index) => {
+              link.state = states[index];
+            });
+            conflict.subtype = getScopeSubtype(states);
+          }
+        }
+
+        return { conclusive: true, conflict };
+      },
+    },
+  ];
+
+  if (checkVariants) {
+    const variants = getPunctuationVariants(name);
+
+    checks.push({
+      name: 'variants',
+      run: async (checkSignal) => {
+        const results = await Promise.allSettled(
+          variants.map((variant) => findVariantConflict(variant, checkSignal)),
+        );
+        checkSignal?.throwIfAborted();
+
+        // A held variant decides even when other variants failed
+        const conflicts = results.flatMap((result) =>
+          result.status === 'fulfilled' && result.value ? [result.value] : [],
+        );
+        if (conflicts.length > 0) {
+          return { conclusive: true, conflict: conflicts[0] };
+        }
+
+        const failure = results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === 'rejected',
+        );
+        if (failure) {
+          throw failure.reason as Error;
+        }
+
+        return { conclusive: true, conflict: null };
+      },
+    });
+  }
+
+  const settled =
+    strategy === 'sequential'
+      ? await runSequentially(checks, signal)
+      : await runConcurrently(checks, signal);
+
+  const failures = settled.flatMap((result) =>
+    result.outcome === 'failed' ? [result.error] : [],
+  );
+  if (failures.length === settled.length) {
+    throw failures[0] as Error;
+  }
+
+  const conflict = settled.find(
+    (result): result is Extract<SettledCheck, { finding: CheckFinding }> =>
+      result.outcome === 'conflict',
+  )?.finding.conflict;
+  const status = getStatus(settled);
+
+  return {
+    status,
+    isAvailable: status === 'unknown' ? null : status !== 'taken',
+    conflict: conflict?.type ?? null,
+    evidence: conflict?.evidence ?? null,
+    ...(conflict?.subtype && { conflictSubtype: conflict.subtype }),
+    ...(conflict?.variant && { variant: conflict.variant }),
+    checks: settled.map((result, index) => ({
+      check: checks[index].name,
+      outcome: result.outcome,
+      ...((result.outcome === 'passed' || result.outcome === 'conflict') &&
+        result.finding.method && { method: result.finding.method }),
+      ...(result.outcome === 'failed' && {
+        error: createApiError(result.error as Error),
+      }),
+    })),
+    orgUrl,
   };
 }
 
 /**
  * Creates an ApiError from a generic error based on error type
  *
+ * Registry errors are mapped precisely:
+ * - RegistryHttpError 429 → RATE_LIMITED (with Retry-After delay)
+ * - RegistryHttpError 404 → NOT_FOUND
+ * - RegistryHttpError 5xx → SERVER_ERROR
+ * - ProxyError → PROXY_ERROR
+ * - InvalidResponseError → INVALID_RESPONSE (with a body snippet)
+ * - CircuitOpenError → CIRCUIT_OPEN (with the delay until the next probe)
+ * - SyntaxError (unparseable body) → INVALID_RESPONSE
+ *
+ * RetryError is unwrapped and its attempt count reported. The original error
+ * is kept as `cause`.
+ *
  * @param error - The original error
  * @returns ApiError - Typed API error
  */
 export function createApiError(
+  error: ProxiedError | { status?: number; message?: string; proxy?: string },
+): ApiError {
+  if (error instanceof RetryError) {
+    const apiError = createApiError(error.cause as Error);
+    apiError.attempts = error.attempts;
+    return apiError;
+  }
+
+  const apiError = classifyError(error);
+  apiError.cause = error;
+
+  // Keep track of the CORS proxy the failed request went through
+  if (error.proxy) {
+    apiError.proxy = error.proxy;
+  }
+
+  return apiError;
+}
+
+/**
+ * Maps a generic error to the matching ApiError type
+ *
+ * @param error - The original error
+ * @returns ApiError - Typed API error without proxy details
+ */
+function classifyError(
   error: Error | { status?: number; message?: string },
 ): ApiError {
   const timestamp = new Date();
 
-  // Handle AbortError (timeout)
-  if (error instanceof DOMException && error.name === 'AbortError') {
+  // Handle HTTP errors from the registry or proxy
+  if (error instanceof RegistryHttpError) {
+    const details = {
+      message: error.message,
+      statusCode: error.status,
+      endpoint: error.endpoint,
+      timestamp,
+    };
+
+    if (error.status === 429) {
+      return {
+        type: ApiErrorType.RATE_LIMITED,
+        ...details,
+        retryAfterMs: error.retryAfterMs ?? undefined,
+      };
+    }
+
+    if (error.status === 404) {
+      return { type: ApiErrorType.NOT_FOUND, ...details };
+    }
+
+    if (error.status >= 500) {
+      return { type: ApiErrorType.SERVER_ERROR, ...details };
+    }
+
+    return { type: ApiErrorType.UNKNOWN_ERROR, ...details };
+  }
+
+  // Handle CORS proxy failures
+  if (error instanceof ProxyError) {
+    return {
+      type: ApiErrorType.PROXY_ERROR,
+      message: error.message,
+      timestamp,
+    };
+  }
+
+  // Handle response bodies that are not the expected registry JSON
+  if (error instanceof InvalidResponseError) {
+    return {
+      type: ApiErrorType.INVALID_RESPONSE,
+      message: error.message,
+      endpoint: error.endpoint,
+      responseSnippet: error.snippet,
+      timestamp,
+    };
+  }
+
+  // Handle unparseable response bodies
+  if (error instanceof SyntaxError) {
+    return {
+      type: ApiErrorType.INVALID_RESPONSE,
+      message: error.message,
+      timestamp,
+    };
+  }
+
+  // Handle requests refused while the registry is unreachable
+  if (error instanceof CircuitOpenError) {
+    return {
+      type: ApiErrorType.CIRCUIT_OPEN,
+      message: error.message,
+      retryAfterMs: Math.max(0, error.retryAt - Date.now()),
+      timestamp,
+    };
+  }
+
+  // Handle TimeoutError (and AbortError from older abort implementations)
+  if (
+    error instanceof DOMException &&
+    (error.name === 'TimeoutError' || error.name === 'AbortError')
+  ) {
     return {
       type: ApiErrorType.TIMEOUT_ERROR,
       message: error.message || 'Request timeout',
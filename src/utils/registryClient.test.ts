@@ -0,0 +1,623 @@
+import { createFakeFetch, jsonResponse } from 'src/test/mocks/fetch';
+import {
+  CircuitOpenError,
+  ProxyError,
+  RegistryHttpError,
+} from 'src/utils/errors';
+
+import { createCircuitBreaker } from './circuitBreaker';
+import { createConditionalCache } from './conditionalCache';
+import {
+  CORSMIRROR_PROXY,
+  createCorsProxy,
+  createRegistryClient,
+  defaultRegistryClient,
+  DIRECT_CONNECTION,
+  type ProxiedError,
+} from './registryClient';
+import { createRequestScheduler } from './requestScheduler';
+
+const signal = new AbortController().signal;
+
+describe('createRegistryClient', () => {
+  it('should default to the public npm registry', () => {
+    expect(defaultRegistryClient.registryUrl).toBe(
+      'https://registry.npmjs.com',
+    );
+    expect(defaultRegistryClient.replicateUrl).toBe(
+      'https://replicate.npmjs.com',
+    );
+    expect(defaultRegistryClient.websiteUrl).toBe('https://www.npmjs.com');
+  });
+
+  it('should send requests through the CORS proxy by default', async () => {
+    const fetch = createFakeFetch(() => jsonResponse({}));
+    const client = createRegistryClient({ fetch });
+
+    await client.get('https://registry.npmjs.com/-/v1/search?text=a', {
+      signal,
+      endpoint: 'user-search',
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://corsmirror.com/v1?url=https%3A%2F%2Fregistry.npmjs.com%2F-%2Fv1%2Fsearch%3Ftext%3Da',
+      { method: 'GET', signal },
+    );
+  });
+
+  it('should send requests directly when proxy is disabled', async () => {
+    const fetch = createFakeFetch(() => jsonResponse({}));
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await client.get('http://localhost:4873/-/v1/search', {
+      signal,
+      endpoint: 'user-search',
+    });
+
+    expect(fetch).toHaveBeenCalledWith('http://localhost:4873/-/v1/search', {
+      method: 'GET',
+      signal,
+    });
+  });
+
+  it('should use a custom CORS proxy prefix', async () => {
+    const fetch = createFakeFetch(() => jsonResponse({}));
+    const client = createRegistryClient({
+      proxies: [
+        createCorsProxy('self-hosted', 'https://proxy.example.com/?url='),
+      ],
+      fetch,
+    });
+
+    await client.get('https://registry.npmjs.com/pkg', {
+      signal,
+      endpoint: 'user-search',
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://proxy.example.com/?url=https%3A%2F%2Fregistry.npmjs.com%2Fpkg',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should strip trailing slashes from base URLs', () => {
+    const client = createRegistryClient({
+      registryUrl: 'http://localhost:4873/',
+      replicateUrl: 'http://localhost:4873//',
+      websiteUrl: 'http://localhost:4873/',
+    });
+
+    expect(client.registryUrl).toBe('http://localhost:4873');
+    expect(client.replicateUrl).toBe('http://localhost:4873');
+    expect(client.websiteUrl).toBe('http://localhost:4873');
+  });
+});
+
+describe('CORS proxy failover', () => {
+  const backup = createCorsProxy('backup', 'https://backup.example.com/?url=');
+  const target = 'https://registry.npmjs.com/pkg';
+  const endpoint = 'user-search';
+
+  const getRejection = async (promise: Promise<Response>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as ProxiedError;
+    }
+    throw new Error('Expected request to fail');
+  };
+
+  it('should fail over to the next proxy on network errors', async () => {
+    const fetch = createFakeFetch((url) => {
+      if (url.hostname === 'corsmirror.com') {
+        throw new TypeError('Failed to fetch');
+      }
+      return jsonResponse({});
+    });
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, backup],
+      fetch,
+    });
+
+    const response = await client.get(target, { signal, endpoint });
+
+    expect(response.ok).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenLastCalledWith(
+      backup.buildUrl(target),
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('should fail over to the next proxy on 5xx responses', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.hostname === 'corsmirror.com'
+        ? jsonResponse({}, { status: 502, statusText: 'Bad Gateway' })
+        : jsonResponse({}),
+    );
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const response = await client.get(target, { signal, endpoint });
+
+    expect(response.ok).toBe(true);
+    expect(fetch).toHaveBeenLastCalledWith(target, expect.anything());
+  });
+
+  it('should not fail over on 4xx responses', async () => {
+    const fetch = createFakeFetch(() =>
+      jsonResponse({}, { status: 403, statusText: 'Forbidden' }),
+    );
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const error = await getRejection(client.get(target, { signal, endpoint }));
+
+    expect(error.message).toBe('HTTP 403: Forbidden');
+    expect(error.proxy).toBe('corsmirror');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fail over when the request was aborted', async () => {
+    const fetch = createFakeFetch(() => {
+      throw new DOMException('Request timeout', 'AbortError');
+    });
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const error = await getRejection(client.get(target, { signal, endpoint }));
+
+    expect(error.name).toBe('AbortError');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remember the proxy that last worked', async () => {
+    let isCorsmirrorDown = true;
+    const fetch = createFakeFetch((url) => {
+      if (url.hostname === 'corsmirror.com' && isCorsmirrorDown) {
+        throw new TypeError('Failed to fetch');
+      }
+      return jsonResponse({});
+    });
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, backup],
+      fetch,
+    });
+
+    await client.get(target, { signal, endpoint });
+    isCorsmirrorDown = false;
+    fetch.mockClear();
+    await client.get(target, { signal, endpoint });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      backup.buildUrl(target),
+      expect.anything(),
+    );
+  });
+
+  it('should throw the last error annotated with its proxy when all proxies fail', async () => {
+    const fetch = createFakeFetch((url) =>
+      url.hostname === 'corsmirror.com'
+        ? Promise.reject(new TypeError('Failed to fetch'))
+        : jsonResponse({}, { status: 503, statusText: 'Service Unavailable' }),
+    );
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, backup],
+      fetch,
+    });
+
+    const error = await getRejection(client.get(target, { signal, endpoint }));
+
+    expect(error).toBeInstanceOf(RegistryHttpError);
+    expect(error.message).toBe('HTTP 503: Service Unavailable');
+    expect(error.proxy).toBe('backup');
+  });
+
+  it('should throw ProxyError when the last proxy cannot be reached', async () => {
+    const fetch = createFakeFetch(() => {
+      throw new TypeError('Failed to fetch');
+    });
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY, backup],
+      fetch,
+    });
+
+    const error = await getRejection(client.get(target, { signal, endpoint }));
+
+    expect(error).toBeInstanceOf(ProxyError);
+    expect(error.message).toBe('CORS proxy "backup" failed: Failed to fetch');
+    expect(error.proxy).toBe('backup');
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should wrap non-error rejections', async () => {
+    const fetch = vi.fn(() => Promise.reject(new Error('ignored')));
+    fetch.mockRejectedValueOnce('string error');
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    const error = await getRejection(client.get(target, { signal, endpoint }));
+
+    expect(error.message).toBe('Unknown error occurred');
+    expect(error.proxy).toBe('direct');
+  });
+
+  it('should fail when no proxy is configured', async () => {
+    const client = createRegistryClient({ proxies: [] });
+
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow(
+      'No CORS proxy configured',
+    );
+  });
+});
+
+describe('RegistryHttpError from responses', () => {
+  const target = 'https://registry.npmjs.com/-/v1/search?text=author:test';
+
+  const getHttpError = async (init: ResponseInit) => {
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch: createFakeFetch(() => jsonResponse({}, init)),
+    });
+
+    try {
+      await client.get(target, { signal, endpoint: 'user-search' });
+    } catch (error) {
+      return error as RegistryHttpError;
+    }
+    throw new Error('Expected request to fail');
+  };
+
+  it('should carry status, URL and endpoint', async () => {
+    const error = await getHttpError({ status: 404, statusText: 'Not Found' });
+
+    expect(error).toBeInstanceOf(RegistryHttpError);
+    expect(error.name).toBe('RegistryHttpError');
+    expect(error.status).toBe(404);
+    expect(error.url).toBe(target);
+    expect(error.endpoint).toBe('user-search');
+    expect(error.retryAfterMs).toBeNull();
+  });
+
+  it('should parse Retry-After in seconds', async () => {
+    const error = await getHttpError({
+      status: 429,
+      headers: { 'Retry-After': '120' },
+    });
+
+    expect(error.retryAfterMs).toBe(120000);
+  });
+
+  it('should parse Retry-After as an HTTP date', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const error = await getHttpError({
+      status: 429,
+      headers: { 'Retry-After': 'Thu, 01 Jan 2026 00:00:30 GMT' },
+    });
+    vi.useRealTimers();
+
+    expect(error.retryAfterMs).toBe(30000);
+  });
+
+  it('should ignore an invalid Retry-After header', async () => {
+    const error = await getHttpError({
+      status: 503,
+      headers: { 'Retry-After': 'soon' },
+    });
+
+    expect(error.retryAfterMs).toBeNull();
+  });
+});
+
+describe('request scheduling', () => {
+  const target = 'https://registry.npmjs.com/-/v1/search?text=author:test';
+
+  const createScheduledClient = (init: ResponseInit = {}) => {
+    const scheduler = createRequestScheduler();
+    vi.spyOn(scheduler, 'schedule');
+    vi.spyOn(scheduler, 'backOff');
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY],
+      fetch: createFakeFetch(() => jsonResponse({}, init)),
+      scheduler,
+    });
+    return { client, scheduler };
+  };
+
+  it('should create a scheduler per client by default', () => {
+    expect(createRegistryClient().scheduler).not.toBe(
+      createRegistryClient().scheduler,
+    );
+  });
+
+  it('should schedule each request for its proxied URL and priority', async () => {
+    const { client, scheduler } = createScheduledClient();
+
+    await client.get(target, {
+      signal,
+      endpoint: 'user-search',
+      priority: 'interactive',
+    });
+
+    expect(scheduler.schedule).toHaveBeenCalledWith(
+      CORSMIRROR_PROXY.buildUrl(target),
+      expect.any(Function),
+      { priority: 'interactive', signal },
+    );
+  });
+
+  it('should back off the proxied host for the Retry-After delay of a 429', async () => {
+    const { client, scheduler } = createScheduledClient({
+      status: 429,
+      headers: { 'Retry-After': '30' },
+    });
+
+    await expect(
+      client.get(target, { signal, endpoint: 'user-search' }),
+    ).rejects.toMatchObject({ status: 429 });
+    expect(scheduler.backOff).toHaveBeenCalledWith(
+      CORSMIRROR_PROXY.buildUrl(target),
+      30000,
+    );
+  });
+
+  it('should back off for the default delay of a 429 without Retry-After', async () => {
+    const { client, scheduler } = createScheduledClient({ status: 429 });
+
+    await expect(
+      client.get(target, { signal, endpoint: 'user-search' }),
+    ).rejects.toMatchObject({ status: 429 });
+    expect(scheduler.backOff).toHaveBeenCalledWith(
+      CORSMIRROR_PROXY.buildUrl(target),
+      undefined,
+    );
+    expect(scheduler.getState().rateLimited).toBe(false);
+  });
+
+  it('should not back off for other errors', async () => {
+    const { client, scheduler } = createScheduledClient({ status: 404 });
+
+    await expect(
+      client.get(target, { signal, endpoint: 'user-search' }),
+    ).rejects.toMatchObject({ status: 404 });
+    expect(scheduler.backOff).not.toHaveBeenCalled();
+  });
+});
+
+describe('circuit breaker', () => {
+  const target = 'https://registry.npmjs.com/-/v1/search?text=author:test';
+  const endpoint = 'user-search';
+
+  const createBrokenClient = (respond: () => Response | Promise<Response>) => {
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 2 });
+    const fetch = createFakeFetch(respond);
+    const client = createRegistryClient({
+      proxies: [CORSMIRROR_PROXY],
+      fetch,
+      circuitBreaker,
+    });
+    return { client, fetch, circuitBreaker };
+  };
+
+  it('should create a circuit breaker per client by default', () => {
+    expect(createRegistryClient().circuitBreaker).not.toBe(
+      createRegistryClient().circuitBreaker,
+    );
+  });
+
+  it.each([
+    ['proxy failures', () => Promise.reject(new TypeError('Failed to fetch'))],
+    ['5xx responses', () => jsonResponse({}, { status: 502 })],
+  ])('should open after repeated %s and fail fast', async (_, respond) => {
+    const { client, fetch, circuitBreaker } = createBrokenClient(respond);
+
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow();
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow();
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow(
+      CircuitOpenError,
+    );
+
+    expect(circuitBreaker.getState().status).toBe('open');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count timeouts as failures', async () => {
+    const { client, circuitBreaker } = createBrokenClient(() =>
+      Promise.reject(new DOMException('Request timeout', 'TimeoutError')),
+    );
+    const timedOut = AbortSignal.abort(
+      new DOMException('Request timeout', 'TimeoutError'),
+    );
+
+    await expect(
+      client.get(target, { signal: timedOut, endpoint }),
+    ).rejects.toThrow();
+
+    expect(circuitBreaker.getState().failures).toBe(1);
+  });
+
+  it('should not count requests cancelled by the caller', async () => {
+    const { client, circuitBreaker } = createBrokenClient(() =>
+      Promise.reject(new DOMException('Aborted', 'AbortError')),
+    );
+
+    await expect(
+      client.get(target, { signal: AbortSignal.abort(), endpoint }),
+    ).rejects.toThrow();
+
+    expect(circuitBreaker.getState().failures).toBe(0);
+  });
+
+  it('should not count HTTP errors other than 5xx', async () => {
+    const { client, circuitBreaker } = createBrokenClient(() =>
+      jsonResponse({}, { status: 404 }),
+    );
+
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow(
+      RegistryHttpError,
+    );
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow(
+      RegistryHttpError,
+    );
+
+    expect(circuitBreaker.getState().status).toBe('closed');
+  });
+});
+
+describe('conditional requests', () => {
+  const target = 'https://replicate.npmjs.com/_all_docs?startkey=%22%40a%2F%22';
+  const endpoint = 'scope-replicate';
+  const payload = { rows: [{ id: '@a/pkg' }] };
+
+  // Stand-in registry that answers 304 when the ETag matches
+  const createEtagRegistry = (etag = '"v1"') =>
+    createFakeFetch((_, init) => {
+      const ifNoneMatch = new Headers(init?.headers).get('If-None-Match');
+
+      if (ifNoneMatch === etag) {
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+      }
+      return jsonResponse(payload, { headers: { ETag: etag } });
+    });
+
+  it('should send If-None-Match and serve the stored body on 304 on a direct connection', async () => {
+    const fetch = createEtagRegistry();
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await client.get(target, { signal, endpoint });
+    const response = await client.get(target, { signal, endpoint });
+
+    expect(fetch).toHaveBeenLastCalledWith(target, {
+      method: 'GET',
+      signal,
+      headers: { 'If-None-Match': '"v1"' },
+    });
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual(payload);
+  });
+
+  it('should download the payload again when it changed', async () => {
+    let etag = '"v1"';
+    const fetch = createFakeFetch((_, init) =>
+      new Headers(init?.headers).get('If-None-Match') === etag
+        ? new Response(null, { status: 304 })
+        : jsonResponse({ etag }, { headers: { ETag: etag } }),
+    );
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+    });
+
+    await client.get(target, { signal, endpoint });
+    etag = '"v2"';
+    const response = await client.get(target, { signal, endpoint });
+
+    await expect(response.json()).resolves.toEqual({ etag: '"v2"' });
+  });
+
+  it('should throw on a 304 without a stored response', async () => {
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch: createFakeFetch(() => new Response(null, { status: 304 })),
+    });
+
+    await expect(client.get(target, { signal, endpoint })).rejects.toThrow(
+      RegistryHttpError,
+    );
+  });
+
+  it('should send plain requests when disabled', async () => {
+    const fetch = createEtagRegistry();
+    const client = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+      conditionalCache: null,
+    });
+
+    await client.get(target, { signal, endpoint });
+    await client.get(target, { signal, endpoint });
+
+    expect(fetch).toHaveBeenLastCalledWith(target, { method: 'GET', signal });
+  });
+
+  it('should not send conditional requests through a proxy by default', async () => {
+    const fetch = createEtagRegistry();
+    const client = createRegistryClient({
+      proxies: [createCorsProxy('test', 'https://proxy.example/?url=')],
+      fetch,
+    });
+
+    await client.get(target, { signal, endpoint });
+    await client.get(target, { signal, endpoint });
+
+    expect(fetch).toHaveBeenLastCalledWith(
+      `https://proxy.example/?url=${encodeURIComponent(target)}`,
+      { method: 'GET', signal },
+    );
+  });
+
+  it('should send conditional headers on direct connections only', async () => {
+    const fetch = createFakeFetch((url, init) =>
+      url.host === 'proxy.example'
+        ? new Response('Bad Gateway', { status: 502 })
+        : new Headers(init?.headers).has('If-None-Match')
+          ? new Response(null, { status: 304 })
+          : jsonResponse(payload, { headers: { ETag: '"v1"' } }),
+    );
+    const client = createRegistryClient({
+      proxies: [
+        createCorsProxy('test', 'https://proxy.example/?url='),
+        DIRECT_CONNECTION,
+      ],
+      fetch,
+      conditionalCache: createConditionalCache(),
+    });
+
+    await client.get(target, { signal, endpoint });
+    const response = await client.get(target, { signal, endpoint });
+
+    expect(fetch.mock.calls.map(([, init]) => init?.headers)).toEqual([
+      undefined,
+      undefined,
+      { 'If-None-Match': '"v1"' },
+    ]);
+    await expect(response.json()).resolves.toEqual(payload);
+  });
+
+  it('should use a shared conditional cache', async () => {
+    const conditionalCache = createConditionalCache();
+    const fetch = createEtagRegistry();
+    const first = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+      conditionalCache,
+    });
+    const second = createRegistryClient({
+      proxies: [DIRECT_CONNECTION],
+      fetch,
+      conditionalCache,
+    });
+
+    await first.get(target, { signal, endpoint });
+    await second.get(target, { signal, endpoint });
+
+    await expect(fetch.mock.results[1].value).resolves.toMatchObject({
+      status: 304,
+    });
+  });
+});
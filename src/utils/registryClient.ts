@@ -0,0 +1,367 @@
+import type { CircuitBreaker } from './circuitBreaker';
+import { createCircuitBreaker } from './circuitBreaker';
+import type { ConditionalCache } from './conditionalCache';
+import { createConditionalCache } from './conditionalCache';
+import type { RegistryEndpoint } from './errors';
+import { ProxyError, RegistryHttpError } from './errors';
+import type { RequestPriority, RequestScheduler } from './requestScheduler';
+import { createRequestScheduler } from './requestScheduler';
+import { isRetryableError } from './retry';
+
+const NPM_REGISTRY_URL = 'https://registry.npmjs.com';
+const NPM_REPLICATE_URL = 'https://replicate.npmjs.com';
+const NPM_WEBSITE_URL = 'https://www.npmjs.com';
+
+export interface CorsProxy {
+  /** Name shown in error details (e.g. "corsmirror") */
+  name: string;
+  /** Builds the request URL that fetches the target URL through this proxy */
+  buildUrl: (url: string) => string;
+}
+
+/**
+ * Creates a CORS proxy that takes the encoded target URL as a suffix.
+ *
+ * @example
+ * ```typescript
+ * const selfHosted = createCorsProxy('self-hosted', 'https://cors.example.com/?url=');
+ * ```
+ *
+ * @param name - Name shown in error details
+ * @param prefix - URL prefix the encoded target URL is appended to
+ * @returns CorsProxy for the given prefix
+ */
+export function createCorsProxy(name: string, prefix: string): CorsProxy {
+  return {
+    name,
+    buildUrl: (url) => `${prefix}${encodeURIComponent(url)}`,
+  };
+}
+
+/** Public corsmirror.com proxy */
+export const CORSMIRROR_PROXY = createCorsProxy(
+  'corsmirror',
+  'https://corsmirror.com/v1?url=',
+);
+
+/** Requests the target URL directly without a proxy */
+export const DIRECT_CONNECTION: CorsProxy = {
+  name: 'direct',
+  buildUrl: (url) => url,
+};
+
+/** Error annotated with the CORS proxy the failed request went through */
+export type ProxiedError = Error & { proxy?: string };
+
+export interface RegistryRequestInit {
+  /** Signal used to abort the request (e.g. on timeout) */
+  signal: AbortSignal;
+  /** Registry endpoint being requested, reported in HTTP errors */
+  endpoint: RegistryEndpoint;
+  /** Scheduler lane the request waits in (default: background) */
+  priority?: RequestPriority;
+}
+
+export interface RegistryClient {
+  /** Base URL of the registry API (e.g. https://registry.npmjs.com) */
+  readonly registryUrl: string;
+  /** Base URL of the CouchDB replicate API used for `_all_docs` queries */
+  readonly replicateUrl: string;
+  /** Base URL of the website used to build organization page links */
+  readonly websiteUrl: string;
+  /** Scheduler that throttles every request sent by this client */
+  readonly scheduler: RequestScheduler;
+  /** Circuit breaker that fails requests fast while the registry is unreachable */
+  readonly circuitBreaker: CircuitBreaker;
+  /**
+   * Sends a GET request for an absolute registry URL.
+   *
+   * Resolves with successful responses only; HTTP errors are thrown as
+   * RegistryHttpError, network failures through a proxy as ProxyError and
+   * requests refused by the open circuit as CircuitOpenError.
+   */
+  get: (url: string, init: RegistryRequestInit) => Promise<Response>;
+}
+
+export interface RegistryClientOptions {
+  /** Base URL of the registry API (default: https://registry.npmjs.com) */
+  registryUrl?: string;
+  /** Base URL of the replicate API (default: https://replicate.npmjs.com) */
+  replicateUrl?: string;
+  /** Base URL of the website (default: https://www.npmjs.com) */
+  websiteUrl?: string;
+  /** Ordered CORS proxy chain to fail over through (default: corsmirror, then direct) */
+  proxies?: CorsProxy[];
+  /** Fetch implementation used to send requests (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Scheduler that throttles requests, shareable between clients (default: one per client) */
+  scheduler?: RequestScheduler;
+  /** Circuit breaker for registry and proxy outages (default: one per client) */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Validators for conditional requests, sent on direct connections only
+   * (default: one per client without a CORS proxy, null = disabled).
+   *
+   * The default client goes through corsmirror first, so it sends no
+   * conditional requests; only clients with `proxies: [DIRECT_CONNECTION]`
+   * (e.g. a CLI or a CORS-enabled mirror) benefit.
+   */
+  conditionalCache?: ConditionalCache | null;
+}
+
+/**
+ * Removes trailing slashes so paths can be appended with a single `/`.
+ *
+ * @param url - Base URL
+ * @returns Base URL without trailing slashes
+ */
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Checks whether a failed request should be retried through the next proxy.
+ *
+ * @param error - Error thrown by fetch
+ * @param signal - Signal of the request
+ * @returns Whether the failure is a network error (not an abort)
+ */
+function isNetworkFailure(error: unknown, signal: AbortSignal): boolean {
+  return !signal.aborted && !(error instanceof DOMException);
+}
+
+/**
+ * Checks whether a failed request points to an unreachable registry or proxy.
+ *
+ * Timeouts, network and proxy failures and 5xx responses count towards
+ * opening the circuit. Other HTTP errors prove the registry answered, and
+ * requests cancelled by the caller (rather than timed out) say nothing.
+ *
+ * @param error - Error thrown by the request
+ * @param signal - Signal of the request
+ * @returns Whether the failure counts towards opening the circuit
+ */
+function isOutage(error: unknown, signal: AbortSignal): boolean {
+  const timedOut =
+    signal.reason instanceof DOMException &&
+    signal.reason.name === 'TimeoutError';
+
+  if (signal.aborted && !timedOut) {
+    return false;
+  }
+
+  if (error instanceof RegistryHttpError) {
+    return error.status >= 500;
+  }
+
+  return isRetryableError(error);
+}
+
+/**
+ * Parses a Retry-After header value (delay in seconds or HTTP date).
+ *
+ * @param value - Retry-After header value
+ * @returns Delay in milliseconds, or null when absent or invalid
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Converts a fetch rejection into the error reported for a proxy hop.
+ *
+ * Network failures through a CORS proxy become ProxyError; anything else
+ * (aborts, direct connection failures) is annotated with the proxy name.
+ *
+ * @param error - Thrown value
+ * @param proxy - Proxy the request went through
+ * @param signal - Signal of the request
+ * @returns Error annotated with the proxy name
+ */
+function toRequestError(
+  error: unknown,
+  proxy: CorsProxy,
+  signal: AbortSignal,
+): ProxiedError {
+  const requestError: ProxiedError =
+    error instanceof Error || error instanceof DOMException
+      ? error
+      : new Error('Unknown error occurred');
+
+  if (proxy !== DIRECT_CONNECTION && isNetworkFailure(error, signal)) {
+    return new ProxyError(proxy.name, requestError);
+  }
+
+  requestError.proxy = proxy.name;
+  return requestError;
+}
+
+/**
+ * Creates a registry client for the npm registry or a compatible mirror.
+ *
+ * The client owns everything that differs between registries: the base URLs
+ * of the registry, replicate and website endpoints, and how requests reach
+ * them (through a CORS proxy or directly). The registry checks in
+ * `npmRegistry.ts` only build paths and interpret responses, so they work
+ * unchanged against a private mirror such as Verdaccio or a local stand-in.
+ *
+ * Proxy Failover:
+ * - Requests go through the proxies in order until one succeeds
+ * - Network errors and 5xx responses fail over to the next proxy
+ * - The proxy that last worked is tried first on subsequent requests
+ * - Errors carry the name of the proxy they went through
+ *
+ * Rate Limiting:
+ * - Every request waits for the scheduler (per-host concurrency, token
+ *   bucket, priority lanes)
+ * - A 429 response pauses the host for its Retry-After delay
+ *
+ * Circuit Breaker:
+ * - Consecutive outages (timeouts, network, proxy and 5xx failures) open
+ *   the circuit, after which requests fail fast with CircuitOpenError
+ * - After a cooldown the next request probes whether the registry is back
+ *
+ * Conditional Requests:
+ * - The ETag and Last-Modified of each URL are sent back as If-None-Match
+ *   and If-Modified-Since
+ * - A 304 Not Modified is answered with the stored body, so re-checks skip
+ *   downloading unchanged payloads
+ * - Only sent on direct connections, and enabled by default only for clients
+ *   without a CORS proxy: the headers are not CORS-safelisted, so a browser
+ *   sends a preflight first, which the registry must allow. Requests through
+ *   a proxy rely on the browser's HTTP cache to revalidate instead
+ * - {@link defaultRegistryClient} (used by the app) routes through corsmirror
+ *   first, so it never sends conditional requests
+ *
+ * @example
+ * ```typescript
+ * import { createRegistryClient, DIRECT_CONNECTION } from './registryClient';
+ *
+ * const verdaccio = createRegistryClient({
+ *   registryUrl: 'http://localhost:4873',
+ *   replicateUrl: 'http://localhost:4873',
+ *   proxies: [DIRECT_CONNECTION],
+ * });
+ *
+ * const result = await checkNameAvailability('my-org', { client: verdaccio });
+ * ```
+ *
+ * @param options - Base URLs, proxy and fetch implementation to use
+ * @returns RegistryClient that sends GET requests to the configured registry
+ */
+export function createRegistryClient(
+  options: RegistryClientOptions = {},
+): RegistryClient {
+  const {
+    registryUrl = NPM_REGISTRY_URL,
+    replicateUrl = NPM_REPLICATE_URL,
+    websiteUrl = NPM_WEBSITE_URL,
+    proxies = [CORSMIRROR_PROXY, DIRECT_CONNECTION],
+    fetch: fetchImpl,
+    scheduler = createRequestScheduler(),
+    circuitBreaker = createCircuitBreaker(),
+    conditionalCache = proxies.every((proxy) => proxy === DIRECT_CONNECTION)
+      ? createConditionalCache()
+      : null,
+  } = options;
+
+  // Index of the proxy that last worked, tried first on the next request
+  let preferredIndex = 0;
+
+  const send = async (
+    url: string,
+    { signal, endpoint, priority }: RegistryRequestInit,
+  ): Promise<Response> => {
+    let lastError: ProxiedError = new Error('No CORS proxy configured');
+    const conditionalHeaders = conditionalCache?.getHeaders(url) ?? null;
+
+    for (let attempt = 0; attempt < proxies.length; attempt++) {
+      const index = (preferredIndex + attempt) % proxies.length;
+      const proxy = proxies[index];
+      const isLastProxy = attempt === proxies.length - 1;
+      const requestUrl = proxy.buildUrl(url);
+      // Conditional headers would make proxies receive a CORS preflight
+      const headers = proxy === DIRECT_CONNECTION ? conditionalHeaders : null;
+      let response: Response;
+
+      try {
+        response = await scheduler.schedule(
+          requestUrl,
+          // Resolve fetch at call time so a replaced global fetch is picked up
+          () =>
+            (fetchImpl ?? fetch)(requestUrl, {
+              method: 'GET',
+              signal,
+              ...(headers && { headers }),
+            }),
+          { priority, signal },
+        );
+      } catch (error) {
+        lastError = toRequestError(error, proxy, signal);
+        if (isLastProxy || !isNetworkFailure(error, signal)) {
+          throw lastError;
+        }
+        continue;
+      }
+
+      // Unchanged since the stored response: serve its body
+      const notModified =
+        response.status === 304 ? conditionalCache?.restore(url) : undefined;
+      if (notModified) {
+        preferredIndex = index;
+        return notModified;
+      }
+
+      if (response.ok) {
+        preferredIndex = index;
+        await conditionalCache?.remember(url, response);
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 429) {
+        scheduler.backOff(requestUrl, retryAfterMs ?? undefined);
+      }
+
+      lastError = new RegistryHttpError({
+        status: response.status,
+        statusText: response.statusText,
+        url,
+        endpoint,
+        retryAfterMs,
+        proxy: proxy.name,
+      });
+      if (isLastProxy || response.status < 500) {
+        throw lastError;
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    registryUrl: trimTrailingSlashes(registryUrl),
+    replicateUrl: trimTrailingSlashes(replicateUrl),
+    websiteUrl: trimTrailingSlashes(websiteUrl),
+    scheduler,
+    circuitBreaker,
+
+    get: (url, init) =>
+      circuitBreaker.run(
+        () => send(url, init),
+        (error) => isOutage(error, init.signal),
+      ),
+  };
+}
+
+/** Client for the public npm registry accessed through the default proxy chain */
+export const defaultRegistryClient = createRegistryClient();
@@ -0,0 +1,216 @@
+import {
+  authorSearchUrl,
+  encodeCouchKey,
+  encodePathSegment,
+  encodeQuery,
+  orgPackagesUrl,
+  orgPageUrl,
+  packagePageUrl,
+  packumentUrl,
+  scopePackagesUrl,
+  scopeSearchPageUrl,
+  scopeSearchUrl,
+  userDocumentUrl,
+  userProfileUrl,
+} from './registryUrls';
+
+const REGISTRY_URL = 'https://registry.npmjs.com';
+const REPLICATE_URL = 'https://replicate.npmjs.com';
+const WEBSITE_URL = 'https://www.npmjs.com';
+
+// Inputs that change the meaning of a URL when interpolated without encoding
+const trickyNames = [
+  ['plain', 'my-org'],
+  ['uppercase', 'My-Org'],
+  ['space', 'my org'],
+  ['plus', 'my+org'],
+  ['ampersand', 'my&size=1000'],
+  ['equals', 'a=b'],
+  ['question mark', 'my?org'],
+  ['hash', 'my#org'],
+  ['slash', 'my/org'],
+  ['backslash', 'my\\org'],
+  ['double quote', 'my"org'],
+  ['single quote', "my'org"],
+  ['percent', 'my%20org'],
+  ['colon', 'my:org'],
+  ['at sign', '@my-org'],
+  ['tilde', '~my-org'],
+  ['parent path', '../admin'],
+  ['dots', '...'],
+  ['newline', 'my\norg'],
+  ['tab', 'my\torg'],
+  ['null character', 'my\u0000org'],
+  ['angle brackets', '<script>'],
+  ['non-ASCII', 'ünïcödé'],
+  ['emoji', 'org-🚀'],
+  ['range end', 'my\ufff0org'],
+  ['JSON', '{"a":1}'],
+  ['CouchDB key', '"@x/","endkey":"'],
+] as const;
+
+const pathSegments = (url: string) => new URL(url).pathname.split('/');
+
+describe('encodePathSegment', () => {
+  it.each(trickyNames)('should keep %s within one path segment', (_, name) => {
+    const url = new URL(`${WEBSITE_URL}/x/${encodePathSegment(name)}`);
+
+    expect(url.search).toBe('');
+    expect(url.hash).toBe('');
+    expect(url.pathname.split('/')).toHaveLength(3);
+    expect(decodeURIComponent(url.pathname.split('/')[2])).toBe(name);
+  });
+
+  it('should keep @ for npm scopes', () => {
+    expect(encodePathSegment('@scope')).toBe('@scope');
+  });
+
+  it.each([[''], ['.'], ['..']])('should reject the %j segment', (value) => {
+    expect(() => encodePathSegment(value)).toThrow(RangeError);
+  });
+});
+
+describe('encodeQuery', () => {
+  it('should encode names and values in insertion order', () => {
+    expect(encodeQuery({ text: 'author:a b', size: 1, 'a&b': '=' })).toBe(
+      'text=author%3Aa%20b&size=1&a%26b=%3D',
+    );
+  });
+
+  it('should return an empty string without parameters', () => {
+    expect(encodeQuery({})).toBe('');
+  });
+});
+
+describe('encodeCouchKey', () => {
+  it.each(trickyNames)('should JSON-encode %s', (_, name) => {
+    expect(JSON.parse(encodeCouchKey(name))).toBe(name);
+  });
+});
+
+describe('registry URL builders', () => {
+  it.each(trickyNames)(
+    'should encode %s in the user document URL',
+    (_, name) => {
+      const segments = pathSegments(userDocumentUrl(REGISTRY_URL, name));
+
+      expect(segments).toHaveLength(4);
+      expect(decodeURIComponent(segments[3])).toBe(`org.couchdb.user:${name}`);
+    },
+  );
+
+  it.each(trickyNames)(
+    'should encode %s in the profile page URL',
+    (_, name) => {
+      const url = new URL(userProfileUrl(WEBSITE_URL, name));
+
+      expect(url.search + url.hash).toBe('');
+      expect(decodeURIComponent(url.pathname)).toBe(`/~${name}`);
+    },
+  );
+
+  it.each(trickyNames)(
+    'should encode %s in the author search URL',
+    (_, name) => {
+      const url = new URL(authorSearchUrl(REGISTRY_URL, name, 1));
+
+      expect(url.pathname).toBe('/-/v1/search');
+      expect(url.hash).toBe('');
+      expect([...url.searchParams]).toEqual([
+        ['text', `author:${name}`],
+        ['size', '1'],
+      ]);
+    },
+  );
+
+  it.each(trickyNames)(
+    'should encode %s in the scope search URL',
+    (_, name) => {
+      const url = new URL(scopeSearchUrl(REGISTRY_URL, name, 10));
+
+      expect(url.pathname).toBe('/-/v1/search');
+      expect(url.hash).toBe('');
+      expect([...url.searchParams]).toEqual([
+        ['text', `scope:${name}`],
+        ['size', '10'],
+      ]);
+    },
+  );
+
+  it.each(trickyNames)(
+    'should encode %s in the scope packages URL',
+    (_, name) => {
+      const url = new URL(scopePackagesUrl(REPLICATE_URL, name));
+
+      expect(url.pathname).toBe('/_all_docs');
+      expect(url.hash).toBe('');
+      expect([...url.searchParams.keys()]).toEqual(['startkey', 'endkey']);
+      expect(JSON.parse(url.searchParams.get('startkey') ?? '')).toBe(
+        `@${name}/`,
+      );
+      expect(JSON.parse(url.searchParams.get('endkey') ?? '')).toBe(
+        `@${name}/\ufff0`,
+      );
+    },
+  );
+
+  it.each(trickyNames)(
+    'should encode %s in the org packages URL',
+    (_, name) => {
+      const segments = pathSegments(orgPackagesUrl(REGISTRY_URL, name));
+
+      expect(segments).toHaveLength(5);
+      expect(decodeURIComponent(segments[3])).toBe(name);
+      expect(segments[4]).toBe('package');
+    },
+  );
+
+  it.each(trickyNames)('should encode %s in the org page URL', (_, name) => {
+    const segments = pathSegments(orgPageUrl(WEBSITE_URL, name));
+
+    expect(segments).toHaveLength(3);
+    expect(decodeURIComponent(segments[2])).toBe(name);
+  });
+
+  it.each(trickyNames)(
+    'should encode %s in the scope search page URL',
+    (_, name) => {
+      const url = new URL(scopeSearchPageUrl(WEBSITE_URL, name));
+
+      expect([...url.searchParams]).toEqual([['q', `scope:${name}`]]);
+    },
+  );
+
+  it.each([
+    ['left-pad', 'https://www.npmjs.com/package/left-pad'],
+    ['@scope/pkg', 'https://www.npmjs.com/package/@scope/pkg'],
+    ['@scope/a/b', 'https://www.npmjs.com/package/@scope/a%2Fb'],
+    ['a/b', 'https://www.npmjs.com/package/a%2Fb'],
+    ['@sc ope/p#kg', 'https://www.npmjs.com/package/@sc%20ope/p%23kg'],
+  ])('should build the package page URL of %s', (name, expected) => {
+    expect(packagePageUrl(WEBSITE_URL, name)).toBe(expected);
+  });
+
+  it.each([
+    ['left-pad', 'https://registry.npmjs.com/left-pad'],
+    ['@scope/pkg', 'https://registry.npmjs.com/@scope%2Fpkg'],
+    ['@scope/a?b', 'https://registry.npmjs.com/@scope%2Fa%3Fb'],
+  ])('should build the package document URL of %s', (name, expected) => {
+    expect(packumentUrl(REGISTRY_URL, name)).toBe(expected);
+  });
+
+  it('should build the exact URLs of a valid org name', () => {
+    expect(userDocumentUrl(REGISTRY_URL, 'my-org')).toBe(
+      'https://registry.npmjs.com/-/user/org.couchdb.user:my-org',
+    );
+    expect(authorSearchUrl(REGISTRY_URL, 'my-org', 1)).toBe(
+      'https://registry.npmjs.com/-/v1/search?text=author%3Amy-org&size=1',
+    );
+    expect(scopePackagesUrl(REPLICATE_URL, 'my-org')).toBe(
+      'https://replicate.npmjs.com/_all_docs?startkey=%22%40my-org%2F%22&endkey=%22%40my-org%2F%EF%BF%B0%22',
+    );
+    expect(orgPackagesUrl(REGISTRY_URL, 'my-org')).toBe(
+      'https://registry.npmjs.com/-/org/my-org/package',
+    );
+  });
+});
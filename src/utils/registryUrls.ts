@@ -0,0 +1,214 @@
+/**
+ * URL builders for every registry and website URL requested or linked by the
+ * availability checks
+ *
+ * Names are encoded here rather than trusted to be pre-validated, so the
+ * registry functions are safe for any input when called as a library.
+ */
+
+/** Query parameter values, encoded with `encodeURIComponent` */
+export type QueryParams = Record<string, string | number>;
+
+// Highest code point in the BMP, used as the end of CouchDB prefix ranges
+const COUCHDB_RANGE_END = '\ufff0';
+
+/**
+ * Encodes a value for use as a single URL path segment.
+ *
+ * `@` is kept as is, since it is valid in a path segment and npm uses it
+ * for scopes (e.g. `/package/@scope/name`). Empty and dot segments are
+ * rejected: URL parsing would drop or resolve them even when encoded.
+ *
+ * @param value - Raw segment value
+ * @returns Encoded segment that cannot add path segments, a query or a fragment
+ * @throws RangeError for empty, `.` and `..` values
+ */
+export function encodePathSegment(value: string): string {
+  if (value === '' || value === '.' || value === '..') {
+    throw new RangeError(`Invalid URL path segment: "${value}"`);
+  }
+
+  return encodeURIComponent(value).replace(/%40/g, '@');
+}
+
+/**
+ * Encodes query parameters in insertion order.
+ *
+ * @param params - Query parameter names and values
+ * @returns Query string without the leading `?`
+ */
+export function encodeQuery(params: QueryParams): string {
+  return Object.entries(params)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`,
+    )
+    .join('&');
+}
+
+/**
+ * Encodes a CouchDB view key as the JSON string the replicate API expects.
+ *
+ * @param key - Raw key
+ * @returns JSON-encoded key with quotes and backslashes escaped
+ */
+export function encodeCouchKey(key: string): string {
+  return JSON.stringify(key);
+}
+
+/**
+ * Builds the registry user document URL.
+ *
+ * @example
+ * ```typescript
+ * userDocumentUrl('https://registry.npmjs.com', 'someone');
+ * // 'https://registry.npmjs.com/-/user/org.couchdb.user:someone'
+ * ```
+ *
+ * @param registryUrl - Base URL of the registry API
+ * @param userName - User name
+ * @returns URL of the user document
+ */
+export function userDocumentUrl(registryUrl: string, userName: string): string {
+  return `${registryUrl}/-/user/org.couchdb.user:${encodePathSegment(userName)}`;
+}
+
+/**
+ * Builds the npm website profile page URL of a user.
+ *
+ * @param websiteUrl - Base URL of the npm website
+ * @param userName - User name
+ * @returns URL of the `~username` profile page
+ */
+export function userProfileUrl(websiteUrl: string, userName: string): string {
+  return `${websiteUrl}/~${encodePathSegment(userName)}`;
+}
+
+/**
+ * Builds the registry search URL for packages published by an author.
+ *
+ * @param registryUrl - Base URL of the registry API
+ * @param userName - Author user name
+ * @param size - Maximum number of packages returned
+ * @returns URL of the `author:` search
+ */
+export function authorSearchUrl(
+  registryUrl: string,
+  userName: string,
+  size: number,
+): string {
+  return `${registryUrl}/-/v1/search?${encodeQuery({ text: `author:${userName}`, size })}`;
+}
+
+/**
+ * Builds the registry search URL for packages published under a scope.
+ *
+ * @param registryUrl - Base URL of the registry API
+ * @param scopeName - Scope name (without \@ prefix)
+ * @param size - Maximum number of packages returned
+ * @returns URL of the `scope:` search
+ */
+export function scopeSearchUrl(
+  registryUrl: string,
+  scopeName: string,
+  size: number,
+): string {
+  return `${registryUrl}/-/v1/search?${encodeQuery({ text: `scope:${scopeName}`, size })}`;
+}
+
+/**
+ * Builds the replicate `_all_docs` URL for every package under a scope.
+ *
+ * @example
+ * ```typescript
+ * scopePackagesUrl('https://replicate.npmjs.com', 'angular');
+ * // _all_docs?startkey="@angular/"&endkey="@angular/\ufff0" (encoded)
+ * ```
+ *
+ * @param replicateUrl - Base URL of the CouchDB replicate API
+ * @param scopeName - Scope name (without \@ prefix)
+ * @returns URL of the `_all_docs` range query
+ */
+export function scopePackagesUrl(
+  replicateUrl: string,
+  scopeName: string,
+): string {
+  const prefix = `@${scopeName}/`;
+
+  return `${replicateUrl}/_all_docs?${encodeQuery({
+    startkey: encodeCouchKey(prefix),
+    endkey: encodeCouchKey(`${prefix}${COUCHDB_RANGE_END}`),
+  })}`;
+}
+
+/**
+ * Builds the registry URL listing the packages of an org.
+ *
+ * @param registryUrl - Base URL of the registry API
+ * @param orgName - Org name
+ * @returns URL of the org package listing
+ */
+export function orgPackagesUrl(registryUrl: string, orgName: string): string {
+  return `${registryUrl}/-/org/${encodePathSegment(orgName)}/package`;
+}
+
+/**
+ * Builds the npm website page URL of an org.
+ *
+ * @param websiteUrl - Base URL of the npm website
+ * @param orgName - Org name
+ * @returns URL of the org page
+ */
+export function orgPageUrl(websiteUrl: string, orgName: string): string {
+  return `${websiteUrl}/org/${encodePathSegment(orgName)}`;
+}
+
+/**
+ * Builds the registry URL of a package document (packument).
+ *
+ * The `/` of a scoped name is encoded, as the registry expects
+ * (e.g. `/\@scope%2Fname`).
+ *
+ * @param registryUrl - Base URL of the registry API
+ * @param packageName - Package name, optionally scoped
+ * @returns URL of the package document
+ */
+export function packumentUrl(registryUrl: string, packageName: string): string {
+  return `${registryUrl}/${encodePathSegment(packageName)}`;
+}
+
+/**
+ * Builds the npm website page URL of a package.
+ *
+ * The `/` of a scoped name separates two path segments; any other `/` is
+ * encoded.
+ *
+ * @param websiteUrl - Base URL of the npm website
+ * @param packageName - Package name, optionally scoped
+ * @returns URL of the package page
+ */
+export function packagePageUrl(
+  websiteUrl: string,
+  packageName: string,
+): string {
+  const scoped = /^(@[^/]+)\/(.*)$/.exec(packageName);
+  const path = scoped
+    ? `${encodePathSegment(scoped[1])}/${encodePathSegment(scoped[2])}`
+    : encodePathSegment(packageName);
+
+  return `${websiteUrl}/package/${path}`;
+}
+
+/**
+ * Builds the npm website search URL for packages under a scope.
+ *
+ * @param websiteUrl - Base URL of the npm website
+ * @param scopeName - Scope name (without \@ prefix)
+ * @returns URL of the `scope:` search page
+ */
+export function scopeSearchPageUrl(
+  websiteUrl: string,
+  scopeName: string,
+): string {
+  return `${websiteUrl}/search?${encodeQuery({ q: `scope:${scopeName}` })}`;
+}
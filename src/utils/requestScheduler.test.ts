@@ -0,0 +1,225 @@
+import { createRequestScheduler } from './requestScheduler';
+
+const REGISTRY = 'https://registry.npmjs.com/-/v1/search';
+const REPLICATE = 'https://replicate.npmjs.com/_all_docs';
+
+// Request that stays in flight until released
+const createPendingRequest = () => {
+  let release: () => void = () => undefined;
+  const request = vi.fn(
+    () =>
+      new Promise<string>((resolve) => {
+        release = () => {
+          resolve('done');
+        };
+      }),
+  );
+  return {
+    request,
+    release: () => {
+      release();
+    },
+  };
+};
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start requests right away while under the limits', async () => {
+    const scheduler = createRequestScheduler();
+    const request = vi.fn(() => Promise.resolve('ok'));
+
+    const promise = scheduler.schedule(REGISTRY, request);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState()).toEqual({
+      queued: 0,
+      active: 1,
+      rateLimited: false,
+    });
+    await expect(promise).resolves.toBe('ok');
+    expect(scheduler.getState().active).toBe(0);
+  });
+
+  it('should limit the requests in flight per host', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrentPerHost: 1 });
+    const first = createPendingRequest();
+    const second = createPendingRequest();
+    const other = createPendingRequest();
+
+    void scheduler.schedule(REGISTRY, first.request);
+    const queued = scheduler.schedule(REGISTRY, second.request);
+    void scheduler.schedule(REPLICATE, other.request);
+
+    expect(second.request).not.toHaveBeenCalled();
+    expect(other.request).toHaveBeenCalled();
+    expect(scheduler.getState()).toEqual({
+      queued: 1,
+      active: 2,
+      rateLimited: false,
+    });
+
+    first.release();
+    await vi.waitFor(() => {
+      expect(second.request).toHaveBeenCalled();
+    });
+    second.release();
+    await expect(queued).resolves.toBe('done');
+  });
+
+  it('should throttle bursts with the token bucket', async () => {
+    const scheduler = createRequestScheduler({
+      burst: 2,
+      requestsPerSecond: 2,
+    });
+    const request = vi.fn(() => Promise.resolve());
+
+    void scheduler.schedule(REGISTRY, request);
+    void scheduler.schedule(REGISTRY, request);
+    const throttled = scheduler.schedule(REGISTRY, request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getState()).toMatchObject({
+      queued: 1,
+      rateLimited: true,
+    });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(request).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(3);
+    await expect(throttled).resolves.toBeUndefined();
+    expect(scheduler.getState().rateLimited).toBe(false);
+  });
+
+  it('should start interactive requests before background ones', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrentPerHost: 1 });
+    const first = createPendingRequest();
+    const order: string[] = [];
+
+    void scheduler.schedule(REGISTRY, first.request);
+    void scheduler.schedule(REGISTRY, () => {
+      order.push('background');
+      return Promise.resolve();
+    });
+    void scheduler.schedule(
+      REGISTRY,
+      () => {
+        order.push('interactive');
+        return Promise.resolve();
+      },
+      { priority: 'interactive' },
+    );
+
+    first.release();
+    await vi.waitFor(() => {
+      expect(order).toEqual(['interactive', 'background']);
+    });
+  });
+
+  it('should pause a host after a backoff', async () => {
+    const scheduler = createRequestScheduler();
+    const request = vi.fn(() => Promise.resolve());
+
+    scheduler.backOff('https://registry.npmjs.com/-/user/x', 2000);
+    void scheduler.schedule(REGISTRY, request);
+    void scheduler.schedule(REPLICATE, request);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState().rateLimited).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should empty the token bucket on backoff so requests resume gradually', async () => {
+    const scheduler = createRequestScheduler({ requestsPerSecond: 1 });
+    const request = vi.fn(() => Promise.resolve());
+
+    scheduler.backOff(REGISTRY);
+    void scheduler.schedule(REGISTRY, request);
+    void scheduler.schedule(REGISTRY, request);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove aborted requests from the queue', async () => {
+    const scheduler = createRequestScheduler();
+    const controller = new AbortController();
+    const request = vi.fn(() => Promise.resolve());
+
+    scheduler.backOff(REGISTRY);
+    const promise = scheduler.schedule(REGISTRY, request, {
+      signal: controller.signal,
+    });
+    controller.abort(new DOMException('Aborted', 'AbortError'));
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getState()).toMatchObject({
+      queued: 0,
+      rateLimited: false,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests whose signal is already aborted', async () => {
+    const scheduler = createRequestScheduler();
+    const request = vi.fn(() => Promise.resolve());
+
+    await expect(
+      scheduler.schedule(REGISTRY, request, {
+        signal: AbortSignal.abort(new Error('Cancelled')),
+      }),
+    ).rejects.toThrow('Cancelled');
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should release the slot of a failed request', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrentPerHost: 1 });
+
+    const failed = scheduler.schedule(REGISTRY, () => {
+      throw new Error('Boom');
+    });
+
+    await expect(failed).rejects.toThrow('Boom');
+    await expect(
+      scheduler.schedule(REGISTRY, () => Promise.resolve('next')),
+    ).resolves.toBe('next');
+  });
+
+  it('should notify subscribers when the queue changes', async () => {
+    const scheduler = createRequestScheduler();
+    const listener = vi.fn();
+    const unsubscribe = scheduler.subscribe(listener);
+    const state = scheduler.getState();
+
+    expect(scheduler.getState()).toBe(state);
+
+    await scheduler.schedule(REGISTRY, () => Promise.resolve());
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(scheduler.getState()).not.toBe(state);
+
+    unsubscribe();
+    await scheduler.schedule(REGISTRY, () => Promise.resolve());
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,287 @@
+const DEFAULT_MAX_CONCURRENT_PER_HOST = 4;
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+const DEFAULT_BURST = 10;
+const DEFAULT_BACKOFF_MS = 1000;
+
+/** Lane a request waits in; interactive requests always go first */
+export const RequestPriority = {
+  INTERACTIVE: 'interactive',
+  BACKGROUND: 'background',
+} as const;
+
+export type RequestPriority =
+  (typeof RequestPriority)[keyof typeof RequestPriority];
+
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests in flight per host (default: 4) */
+  maxConcurrentPerHost?: number;
+  /** Sustained request rate per host, refilling the token bucket (default: 5) */
+  requestsPerSecond?: number;
+  /** Token bucket capacity per host, i.e. the largest burst (default: 10) */
+  burst?: number;
+  /** Clock used for the token bucket and backoff (default: Date.now) */
+  now?: () => number;
+}
+
+export interface ScheduleOptions {
+  /** Lane the request waits in (default: background) */
+  priority?: RequestPriority;
+  /** Signal that removes the request from the queue before it starts */
+  signal?: AbortSignal;
+}
+
+/** Snapshot of the scheduler queue */
+export interface SchedulerState {
+  /** Number of requests waiting to start */
+  queued: number;
+  /** Number of requests in flight */
+  active: number;
+  /** Whether a queued request waits for the token bucket or a 429 backoff */
+  rateLimited: boolean;
+}
+
+export interface RequestScheduler {
+  /**
+   * Runs a request once its host has a free slot and a token.
+   *
+   * @param url - URL the request is sent to; its host selects the limits
+   * @param request - Request to start
+   * @param options - Priority lane and abort signal
+   * @returns Promise that settles with the request
+   * @throws The abort reason when `signal` is aborted while queued
+   */
+  schedule: <T>(
+    url: string,
+    request: () => Promise<T>,
+    options?: ScheduleOptions,
+  ) => Promise<T>;
+  /**
+   * Pauses requests to the host of a URL, e.g. after a 429 response.
+   *
+   * @param url - URL that was rate limited
+   * @param delayMs - Pause in milliseconds (default: 1 s)
+   */
+  backOff: (url: string, delayMs?: number) => void;
+  /** Returns the current queue snapshot (stable until the queue changes) */
+  getState: () => SchedulerState;
+  /**
+   * Calls the listener whenever the queue snapshot changes.
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface HostState {
+  active: number;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+}
+
+interface QueuedRequest {
+  host: string;
+  start: () => void;
+}
+
+/**
+ * Creates a scheduler that throttles requests per host.
+ *
+ * Limits:
+ * - Concurrency: at most `maxConcurrentPerHost` requests in flight per host
+ * - Rate: a token bucket per host allows bursts of `burst` requests, then
+ *   `requestsPerSecond`
+ * - Backoff: {@link RequestScheduler.backOff} pauses a host and empties its
+ *   bucket, so requests resume gradually after a 429
+ *
+ * Queued requests start in priority order (interactive before background),
+ * first come first served within a lane. A request whose host is at its
+ * limit does not hold back requests to other hosts.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createRequestScheduler({ requestsPerSecond: 2 });
+ * const client = createRegistryClient({ scheduler });
+ *
+ * scheduler.subscribe(() => {
+ *   console.log('Queued requests:', scheduler.getState().queued);
+ * });
+ * ```
+ *
+ * @param options - Concurrency, rate and clock settings
+ * @returns RequestScheduler
+ */
+export function createRequestScheduler(
+  options: RequestSchedulerOptions = {},
+): RequestScheduler {
+  const {
+    maxConcurrentPerHost = DEFAULT_MAX_CONCURRENT_PER_HOST,
+    requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+    burst = DEFAULT_BURST,
+    now = Date.now,
+  } = options;
+
+  const hosts = new Map<string, HostState>();
+  const lanes: Record<RequestPriority, QueuedRequest[]> = {
+    interactive: [],
+    background: [],
+  };
+  const listeners = new Set<() => void>();
+  let state: SchedulerState = { queued: 0, active: 0, rateLimited: false };
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const getHost = (url: string) => new URL(url).host;
+
+  const getHostState = (host: string) => {
+    let hostState = hosts.get(host);
+
+    if (!hostState) {
+      hostState = {
+        active: 0,
+        tokens: burst,
+        refilledAt: now(),
+        pausedUntil: 0,
+      };
+      hosts.set(host, hostState);
+    }
+
+    const time = now();
+    hostState.tokens = Math.min(
+      burst,
+      hostState.tokens +
+        (Math.max(0, time - hostState.refilledAt) / 1000) * requestsPerSecond,
+    );
+    hostState.refilledAt = time;
+    return hostState;
+  };
+
+  // Milliseconds until the host may start a request (0 = now, null = slot busy)
+  const getWaitMs = (hostState: HostState): number | null => {
+    if (hostState.active >= maxConcurrentPerHost) {
+      return null;
+    }
+
+    const pauseMs = hostState.pausedUntil - now();
+    const tokenMs = ((1 - hostState.tokens) / requestsPerSecond) * 1000;
+    return Math.max(0, pauseMs, tokenMs);
+  };
+
+  const publish = (rateLimited: boolean) => {
+    const queued = lanes.interactive.length + lanes.background.length;
+    let active = 0;
+    for (const hostState of hosts.values()) {
+      active += hostState.active;
+    }
+
+    if (
+      queued === state.queued &&
+      active === state.active &&
+      rateLimited === state.rateLimited
+    ) {
+      return;
+    }
+
+    state = { queued, active, rateLimited };
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const pump = () => {
+    clearTimeout(timerId);
+    timerId = undefined;
+    let nextWaitMs = Infinity;
+
+    for (const lane of [lanes.interactive, lanes.background]) {
+      for (const queued of [...lane]) {
+        const hostState = getHostState(queued.host);
+        const waitMs = getWaitMs(hostState);
+
+        if (waitMs === 0) {
+          lane.splice(lane.indexOf(queued), 1);
+          hostState.active++;
+          hostState.tokens--;
+          queued.start();
+        } else if (waitMs !== null) {
+          nextWaitMs = Math.min(nextWaitMs, waitMs);
+        }
+      }
+    }
+
+    if (nextWaitMs !== Infinity) {
+      timerId = setTimeout(pump, Math.ceil(nextWaitMs));
+    }
+
+    publish(nextWaitMs !== Infinity);
+  };
+
+  return {
+    schedule<T>(
+      url: string,
+      request: () => Promise<T>,
+      { priority = 'background', signal }: ScheduleOptions = {},
+    ) {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason as Error);
+      }
+
+      const host = getHost(url);
+      const lane = lanes[priority];
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          lane.splice(lane.indexOf(queued), 1);
+          reject(signal?.reason as Error);
+          pump();
+        };
+
+        const queued: QueuedRequest = {
+          host,
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+
+            // Free the slot before the caller continues
+            const release = () => {
+              getHostState(host).active--;
+              pump();
+            };
+
+            // The Promise constructor turns a synchronous throw into a rejection
+            void new Promise<T>((resolveRequest) => {
+              resolveRequest(request());
+            }).then(
+              (value) => {
+                release();
+                resolve(value);
+              },
+              (error: unknown) => {
+                release();
+                reject(error as Error);
+              },
+            );
+          },
+        };
+
+        lane.push(queued);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pump();
+      });
+    },
+
+    backOff(url, delayMs = DEFAULT_BACKOFF_MS) {
+      const hostState = getHostState(getHost(url));
+      hostState.pausedUntil = Math.max(hostState.pausedUntil, now() + delayMs);
+      hostState.tokens = 0;
+      pump();
+    },
+
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import {
+  isNpmSearchResponse,
+  isOrgPackagesResponse,
+  isPackumentResponse,
+  isScopeCheckResponse,
+  isUserDocumentResponse,
+} from './responseSchemas';
+
+describe('isNpmSearchResponse', () => {
+  it.each([
+    [{ objects: [{ package: { name: 'left-pad' } }], total: 1 }],
+    [{ objects: [], total: 0, time: '' }],
+    [{ total: 0 }],
+  ])('should accept %j', (value) => {
+    expect(isNpmSearchResponse(value)).toBe(true);
+  });
+
+  it.each([
+    [null],
+    ['<!DOCTYPE html>'],
+    [[]],
+    [{ contents: '{"objects":[],"total":0}' }],
+    [{ objects: [], total: '0' }],
+    [{ objects: {}, total: 0 }],
+    [{ objects: [null], total: 1 }],
+    [{ objects: [{ package: {} }], total: 1 }],
+  ])('should reject %j', (value) => {
+    expect(isNpmSearchResponse(value)).toBe(false);
+  });
+});
+
+describe('isScopeCheckResponse', () => {
+  it.each([
+    [{ total_rows: 1, offset: 0, rows: [{ id: '@scope/pkg' }] }],
+    [{ rows: [] }],
+  ])('should accept %j', (value) => {
+    expect(isScopeCheckResponse(value)).toBe(true);
+  });
+
+  it.each([
+    [undefined],
+    [{ error: 'query_parse_error' }],
+    [{ rows: [{ key: '@scope/pkg' }] }],
+    [{ rows: ['@scope/pkg'] }],
+  ])('should reject %j', (value) => {
+    expect(isScopeCheckResponse(value)).toBe(false);
+  });
+});
+
+describe('isOrgPackagesResponse', () => {
+  it.each([
+    [{ '@my-org/core': 'read-write', '@my-org/docs': 'read-only' }],
+    [{}],
+  ])('should accept %j', (value) => {
+    expect(isOrgPackagesResponse(value)).toBe(true);
+  });
+
+  it.each([
+    [['@my-org/core']],
+    ['@my-org/core'],
+    [{ '@my-org/core': { access: 'read-write' } }],
+    [{ error: 'Scope not found' }],
+    [{ message: 'Too many requests, please try again later' }],
+    [{ '@my-org/core': 'write' }],
+  ])('should reject %j', (value) => {
+    expect(isOrgPackagesResponse(value)).toBe(false);
+  });
+});
+
+describe('isUserDocumentResponse', () => {
+  it('should accept a user document', () => {
+    expect(
+      isUserDocumentResponse({
+        _id: 'org.couchdb.user:someone',
+        name: 'someone',
+      }),
+    ).toBe(true);
+  });
+
+  it.each([[null], [{ error: 'not_found' }], [{ name: 42 }]])(
+    'should reject %j',
+    (value) => {
+      expect(isUserDocumentResponse(value)).toBe(false);
+    },
+  );
+});
+
+describe('isPackumentResponse', () => {
+  it.each([
+    [{ name: 'left-pad', 'dist-tags': { latest: '1.3.0' }, description: '' }],
+    [{ name: '@scope/pkg', time: { unpublished: { versions: ['1.0.0'] } } }],
+    [{ name: 'left-pad' }],
+  ])('should accept %j', (value) => {
+    expect(isPackumentResponse(value)).toBe(true);
+  });
+
+  it.each([
+    [null],
+    [{ error: 'Not found' }],
+    [{ name: 'left-pad', description: 42 }],
+    [{ name: 'left-pad', 'dist-tags': 'latest' }],
+    [{ name: 'left-pad', time: [] }],
+  ])('should reject %j', (value) => {
+    expect(isPackumentResponse(value)).toBe(false);
+  });
+});
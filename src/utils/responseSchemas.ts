@@ -0,0 +1,144 @@
+/**
+ * Response shapes of the registry endpoints with runtime guards
+ *
+ * Responses may come through a CORS proxy, which can answer with an HTML
+ * error page or a wrapped payload instead of the registry's JSON. Each
+ * guard checks only the fields the availability checks read.
+ */
+
+/** Registry search API response (`/-/v1/search`) */
+export interface NpmSearchResponse {
+  objects?: {
+    package: {
+      name: string;
+    };
+  }[];
+  total: number;
+}
+
+/** Replicate `_all_docs` range query response */
+export interface ScopeCheckResponse {
+  rows: {
+    id: string;
+  }[];
+}
+
+/** Access the org's members have to one of its packages */
+export type OrgPackagePermission = 'read-only' | 'read-write';
+
+/** Org package listing response (`/-/org/<org>/package`), keyed by package name */
+export type OrgPackagesResponse = Record<string, OrgPackagePermission>;
+
+/** Registry user document response (`/-/user/org.couchdb.user:<name>`) */
+export interface UserDocumentResponse {
+  name: string;
+}
+
+/** Package document response (`/<package>`), also served for unpublished packages */
+export interface PackumentResponse {
+  name: string;
+  description?: string;
+  'dist-tags'?: Record<string, unknown>;
+  /** Publish times; `unpublished` is set on the tombstone of an unpublished package */
+  time?: Record<string, unknown>;
+}
+
+/**
+ * Checks whether a value is a plain JSON object.
+ *
+ * @param value - Parsed JSON value
+ * @returns Whether the value is an object (not null or an array)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a parsed body is a search API response.
+ *
+ * @param value - Parsed JSON body
+ * @returns Whether the body has a numeric total and, if present, package objects with names
+ */
+export function isNpmSearchResponse(
+  value: unknown,
+): value is NpmSearchResponse {
+  return (
+    isRecord(value) &&
+    typeof value.total === 'number' &&
+    (value.objects === undefined ||
+      (Array.isArray(value.objects) &&
+        value.objects.every(
+          (object) =>
+            isRecord(object) &&
+            isRecord(object.package) &&
+            typeof object.package.name === 'string',
+        )))
+  );
+}
+
+/**
+ * Checks whether a parsed body is an `_all_docs` response.
+ *
+ * @param value - Parsed JSON body
+ * @returns Whether the body has rows with document ids
+ */
+export function isScopeCheckResponse(
+  value: unknown,
+): value is ScopeCheckResponse {
+  return (
+    isRecord(value) &&
+    Array.isArray(value.rows) &&
+    value.rows.every((row) => isRecord(row) && typeof row.id === 'string')
+  );
+}
+
+/**
+ * Checks whether a parsed body is an org package listing.
+ *
+ * Every value must be an npm permission, so an error body such as
+ * `{"error":"Scope not found"}` is not mistaken for a package named `error`.
+ *
+ * @param value - Parsed JSON body
+ * @returns Whether the body maps package names to permissions
+ */
+export function isOrgPackagesResponse(
+  value: unknown,
+): value is OrgPackagesResponse {
+  return (
+    isRecord(value) &&
+    Object.values(value).every(
+      (permission) => permission === 'read-only' || permission === 'read-write',
+    )
+  );
+}
+
+/**
+ * Checks whether a parsed body is a user document.
+ *
+ * @param value - Parsed JSON body
+ * @returns Whether the body has a user name
+ */
+export function isUserDocumentResponse(
+  value: unknown,
+): value is UserDocumentResponse {
+  return isRecord(value) && typeof value.name === 'string';
+}
+
+/**
+ * Checks whether a parsed body is a package document.
+ *
+ * @param value - Parsed JSON body
+ * @returns Whether the body has a package name and, if present, a description, dist-tags and publish times
+ */
+export function isPackumentResponse(
+  value: unknown,
+): value is PackumentResponse {
+  return (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    (value.description === undefined ||
+      typeof value.description === 'string') &&
+    (value['dist-tags'] === undefined || isRecord(value['dist-tags'])) &&
+    (value.time === undefined || isRecord(value.time))
+  );
+}
@@ -0,0 +1,228 @@
+import { ProxyError, RegistryHttpError } from './errors';
+import {
+  getRetryDelay,
+  isRetryableError,
+  RetryError,
+  withRetry,
+} from './retry';
+
+const createHttpError = (status: number, retryAfterMs: number | null = null) =>
+  new RegistryHttpError({
+    status,
+    statusText: 'Error',
+    url: 'https://registry.npmjs.com/-/v1/search',
+    endpoint: 'user-search',
+    retryAfterMs,
+  });
+
+describe('isRetryableError', () => {
+  it.each([408, 429, 500, 502, 503, 504])(
+    'should retry HTTP %i responses',
+    (status) => {
+      expect(isRetryableError(createHttpError(status))).toBe(true);
+    },
+  );
+
+  it.each([400, 403, 404])('should not retry HTTP %i responses', (status) => {
+    expect(isRetryableError(createHttpError(status))).toBe(false);
+  });
+
+  it('should retry network, proxy and timeout errors', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(
+      isRetryableError(new ProxyError('corsmirror', new Error('Network'))),
+    ).toBe(true);
+    expect(
+      isRetryableError(new DOMException('Request timeout', 'AbortError')),
+    ).toBe(true);
+    expect(
+      isRetryableError(new DOMException('Request timeout', 'TimeoutError')),
+    ).toBe(true);
+  });
+
+  it('should not retry invalid responses or unknown errors', () => {
+    expect(isRetryableError(new SyntaxError('Unexpected token'))).toBe(false);
+    expect(isRetryableError(new Error('Unknown error occurred'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const noJitter = { jitter: 0 };
+
+  it('should grow the delay exponentially', () => {
+    const error = new TypeError('Failed to fetch');
+
+    expect(getRetryDelay(1, error, noJitter)).toBe(500);
+    expect(getRetryDelay(2, error, noJitter)).toBe(1000);
+    expect(getRetryDelay(3, error, noJitter)).toBe(2000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    const error = new TypeError('Failed to fetch');
+
+    expect(getRetryDelay(10, error, { ...noJitter, maxDelayMs: 3000 })).toBe(
+      3000,
+    );
+  });
+
+  it('should randomize the delay with jitter', () => {
+    const error = new TypeError('Failed to fetch');
+
+    expect(getRetryDelay(1, error, { jitter: 0.5, random: () => 0 })).toBe(500);
+    expect(getRetryDelay(1, error, { jitter: 0.5, random: () => 0.5 })).toBe(
+      375,
+    );
+    expect(getRetryDelay(1, error, { jitter: 1, random: () => 0.99 })).toBe(5);
+  });
+
+  it('should use custom base delay and factor', () => {
+    const error = new TypeError('Failed to fetch');
+
+    expect(
+      getRetryDelay(3, error, { ...noJitter, baseDelayMs: 100, factor: 3 }),
+    ).toBe(900);
+  });
+
+  it('should honor Retry-After on rate limited responses', () => {
+    expect(getRetryDelay(1, createHttpError(429, 4000), noJitter)).toBe(4000);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve without retrying when the operation succeeds', async () => {
+    const operation = vi.fn().mockResolvedValueOnce('ok');
+
+    await expect(withRetry(operation)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(operation).toHaveBeenCalledWith(1);
+  });
+
+  it('should retry transient failures after the backoff delay', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(503))
+      .mockResolvedValueOnce('ok');
+
+    const promise = withRetry(operation, { jitter: 0 });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(operation).toHaveBeenLastCalledWith(2);
+  });
+
+  it('should give up after maxAttempts with the attempt count', async () => {
+    const lastError = new TypeError('Failed to fetch');
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(lastError);
+
+    const promise = withRetry(operation, { maxAttempts: 2, jitter: 0 });
+    const assertion = expect(promise).rejects.toMatchObject({
+      name: 'RetryError',
+      message: 'Failed to fetch',
+      attempts: 2,
+      cause: lastError,
+    });
+
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(createHttpError(404));
+
+    const error: unknown = await withRetry(operation).catch(
+      (reason: unknown) => reason,
+    );
+
+    expect(error).toBeInstanceOf(RetryError);
+    expect((error as RetryError).attempts).toBe(1);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After before retrying rate limited requests', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(429, 2000))
+      .mockResolvedValueOnce('ok');
+
+    const promise = withRetry(operation);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe('ok');
+  });
+
+  it('should give up when Retry-After exceeds maxDelayMs', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(429, 60000));
+
+    await expect(withRetry(operation)).rejects.toMatchObject({
+      attempts: 1,
+    });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(() => {
+      controller.abort();
+      return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    });
+
+    await expect(
+      withRetry(operation, { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the backoff delay when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(createHttpError(503));
+
+    const error = withRetry(operation, { signal: controller.signal }).catch(
+      (reason: unknown) => reason,
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await expect(error).resolves.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should keep the signal listener only while waiting', async () => {
+    const controller = new AbortController();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(createHttpError(503))
+      .mockResolvedValueOnce('ok');
+
+    const promise = withRetry(operation, {
+      jitter: 0,
+      signal: controller.signal,
+    });
+    await vi.runAllTimersAsync();
+    await expect(promise).resolves.toBe('ok');
+
+    controller.abort();
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,159 @@
+import { ProxyError, RegistryHttpError } from './errors';
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+export interface RetryOptions {
+  /** Maximum number of attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 8000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Fraction of each delay that is randomized, from 0 to 1 (default: 0.5) */
+  jitter?: number;
+  /** Random number source in [0, 1) used for jitter (default: Math.random) */
+  random?: () => number;
+  /** Signal that stops further attempts and cancels the pending delay */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when an operation still fails after its last attempt.
+ *
+ * The error of the last attempt is kept as `cause`.
+ */
+export class RetryError extends Error {
+  /** Number of attempts made before giving up */
+  readonly attempts: number;
+
+  constructor(cause: Error, attempts: number) {
+    super(cause.message, { cause });
+    this.name = 'RetryError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Checks whether an error is transient and the request may be retried.
+ *
+ * Retryable errors are timeouts, network and proxy failures, and HTTP
+ * 408/429/5xx responses. Other HTTP errors and invalid responses are not.
+ *
+ * @param error - Error thrown by the operation
+ * @returns Whether the operation should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RegistryHttpError) {
+    return RETRYABLE_STATUS_CODES.includes(error.status);
+  }
+
+  return (
+    error instanceof ProxyError ||
+    error instanceof TypeError ||
+    (error instanceof DOMException &&
+      (error.name === 'TimeoutError' || error.name === 'AbortError'))
+  );
+}
+
+/**
+ * Calculates the delay before the next attempt.
+ *
+ * Uses exponential backoff with jitter, or the registry's Retry-After delay
+ * when one was sent.
+ *
+ * @param attempt - Number of the attempt that just failed (starting at 1)
+ * @param error - Error thrown by that attempt
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: RetryOptions = {},
+): number {
+  const {
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    factor = 2,
+    jitter = 0.5,
+    random = Math.random,
+  } = options;
+
+  if (error instanceof RegistryHttpError && error.retryAfterMs !== null) {
+    return error.retryAfterMs;
+  }
+
+  const delay = Math.min(baseDelayMs * factor ** (attempt - 1), maxDelayMs);
+  return Math.round(delay * (1 - jitter * random()));
+}
+
+/**
+ * Waits for the given delay unless the signal is aborted first.
+ *
+ * @param delay - Delay in milliseconds
+ * @param signal - Signal that cancels the delay
+ * @returns Promise that resolves after the delay
+ * @throws The abort reason when the signal is aborted
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason as Error);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an idempotent operation, retrying transient failures with backoff.
+ *
+ * Gives up immediately on non-retryable errors and when the registry asks
+ * to wait longer than `maxDelayMs` via Retry-After. Once `signal` is
+ * aborted, the abort reason is thrown as-is instead of retrying.
+ *
+ * @example
+ * ```typescript
+ * const exists = await withRetry(() => checkUserExists('some-user'), {
+ *   maxAttempts: 4,
+ * });
+ * ```
+ *
+ * @param operation - Operation to run, called with the attempt number
+ * @param options - Retry options
+ * @returns Promise that resolves to the operation result
+ * @throws RetryError wrapping the last error with the number of attempts
+ * @throws The abort reason when `signal` is aborted
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const { maxAttempts = 3, maxDelayMs = 8000, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      signal?.throwIfAborted();
+
+      const delay = getRetryDelay(attempt, error, options);
+
+      if (
+        attempt >= maxAttempts ||
+        !isRetryableError(error) ||
+        delay > maxDelayMs
+      ) {
+        throw new RetryError(error as Error, attempt);
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -1,6 +1,11 @@
+import type { ValidationRule } from 'src/types';
 import { ValidationErrorType } from 'src/types';
 
-import { validateOrganizationName } from './validation';
+import {
+  normalizeOrganizationName,
+  npmNamingRules,
+  validateOrganizationName,
+} from './validation';
 
 describe('validateOrganizationName', () => {
   it('should validate a correct organization name', () => {
@@ -43,7 +48,7 @@ describe('validateOrganizationName', () => {
   });
 
   it('should reject names that are too long', () => {
-    const longName = 'a'.repeat(215);
+    const longName = 'a'.repeat(212);
     const result = validateOrganizationName(longName);
 
     expect(result.isValid).toBe(false);
@@ -52,8 +57,8 @@ describe('validateOrganizationName', () => {
     ).toBe(true);
   });
 
-  it('should reject names starting with a number', () => {
-    const result = validateOrganizationName('1org');
+  it('should reject names starting with a dot', () => {
+    const result = validateOrganizationName('.org');
 
     expect(result.isValid).toBe(false);
     expect(
@@ -61,8 +66,8 @@ describe('validateOrganizationName', () => {
     ).toBe(true);
   });
 
-  it('should reject names starting with a hyphen', () => {
-    const result = validateOrganizationName('-org');
+  it('should reject names starting with an underscore', () => {
+    const result = validateOrganizationName('_org');
 
     expect(result.isValid).toBe(false);
     expect(
@@ -70,26 +75,26 @@ describe('validateOrganizationName', () => {
     ).toBe(true);
   });
 
-  it('should reject names ending with a hyphen', () => {
-    const result = validateOrganizationName('org-');
-
-    expect(result.isValid).toBe(false);
-    expect(
-      result.errors.some((e) => e.type === ValidationErrorType.INVALID_END),
-    ).toBe(true);
-  });
-
-  it('should reject names with consecutive hyphens', () => {
-    const result = validateOrganizationName('org--name');
+  it('should reject names with URL-unsafe characters', () => {
+    const result = validateOrganizationName('my org');
 
     expect(result.isValid).toBe(false);
     expect(
       result.errors.some(
-        (e) => e.type === ValidationErrorType.CONSECUTIVE_HYPHENS,
+        (e) => e.type === ValidationErrorType.INVALID_CHARACTERS,
       ),
     ).toBe(true);
   });
 
+  it('should accept leading digits, dots and repeated hyphens like npm', () => {
+    for (const name of ['1org', 'my.org', 'org--name', '-org-']) {
+      expect(validateOrganizationName(name)).toMatchObject({
+        isValid: true,
+        errors: [],
+      });
+    }
+  });
+
   it('should reject names with uppercase letters', () => {
     const result = validateOrganizationName('MyOrg');
 
@@ -101,6 +106,15 @@ describe('validateOrganizationName', () => {
     ).toBe(true);
   });
 
+  it('should flag rules npm only enforces for new names as legacy', () => {
+    const result = validateOrganizationName('MyOrg!');
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ legacy: true }),
+      expect.objectContaining({ legacy: true }),
+    ]);
+  });
+
   it('should reject reserved words', () => {
     const reservedWords = ['npm', 'node', 'package', 'module'];
 
@@ -135,7 +149,7 @@ describe('validateOrganizationName', () => {
   });
 
   it('should accept maximum length valid names', () => {
-    const validName = 'a' + 'b'.repeat(212) + 'c'; // 214 characters
+    const validName = 'a' + 'b'.repeat(209) + 'c'; // 211 characters, 214 as @name/x
     const result = validateOrganizationName(validName);
 
     expect(result.isValid).toBe(true);
@@ -160,19 +174,19 @@ describe('validateOrganizationName', () => {
     });
   });
 
-  it('should reject invalid scope names with consecutive hyphens', () => {
-    const result = validateOrganizationName('scope--name');
+  it('should reject scope names containing a slash', () => {
+    const result = validateOrganizationName('scope/name');
 
     expect(result.isValid).toBe(false);
     expect(
       result.errors.some(
-        (e) => e.type === ValidationErrorType.CONSECUTIVE_HYPHENS,
+        (e) => e.type === ValidationErrorType.INVALID_CHARACTERS,
       ),
     ).toBe(true);
   });
 
-  it('should reject scope names starting with hyphen', () => {
-    const result = validateOrganizationName('-scope');
+  it('should reject scope names starting with a dot', () => {
+    const result = validateOrganizationName('.scope');
 
     expect(result.isValid).toBe(false);
     expect(
@@ -180,15 +194,6 @@ describe('validateOrganizationName', () => {
     ).toBe(true);
   });
 
-  it('should reject scope names ending with hyphen', () => {
-    const result = validateOrganizationName('scope-');
-
-    expect(result.isValid).toBe(false);
-    expect(
-      result.errors.some((e) => e.type === ValidationErrorType.INVALID_END),
-    ).toBe(true);
-  });
-
   it('should reject scope names with uppercase letters', () => {
     const result = validateOrganizationName('MyScope');
 
@@ -257,8 +262,8 @@ describe('Unified Name Validation (User Story 1)', () => {
       });
     });
 
-    it('should reject names starting with numbers', () => {
-      const invalidNames = ['123org', '123scope', '1test'];
+    it('should reject names starting with a dot or an underscore', () => {
+      const invalidNames = ['.org', '_scope', '.1test'];
 
       invalidNames.forEach((name) => {
         const result = validateOrganizationName(name);
@@ -298,22 +303,342 @@ describe('Unified Name Validation (User Story 1)', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
-    it('should handle names with consecutive hyphens', () => {
-      const result = validateOrganizationName('org--name');
+    it('should handle names with inner whitespace', () => {
+      const result = validateOrganizationName('my\torg');
       expect(result.isValid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
-    it('should handle names starting with hyphen', () => {
-      const result = validateOrganizationName('-org');
+    it('should handle names with a scope prefix', () => {
+      const result = validateOrganizationName('@my-org');
       expect(result.isValid).toBe(false);
       expect(result.errors.length).toBeGreaterThan(0);
     });
+  });
+});
 
-    it('should handle names ending with hyphen', () => {
-      const result = validateOrganizationName('org-');
-      expect(result.isValid).toBe(false);
-      expect(result.errors.length).toBeGreaterThan(0);
+// Conformance corpus derived from npm's package and user name rules
+// (validate-npm-package-name, npm-user-validate), applied to the scope part
+// of `@name/package`
+describe('npm naming conformance', () => {
+  const {
+    EMPTY,
+    INVALID_CHARACTERS,
+    INVALID_START,
+    RESERVED_WORD,
+    TOO_LONG,
+    TOO_SHORT,
+  } = ValidationErrorType;
+
+  const validNames = [
+    'a',
+    'z',
+    '0',
+    '7',
+    '1org',
+    '123',
+    '0-0',
+    'my-org',
+    'my_org',
+    'my.org',
+    'example.com',
+    'period.js',
+    'under_score',
+    'org-',
+    'org_',
+    'org.',
+    '-org',
+    '-',
+    'a--b',
+    'a__b',
+    'a..b',
+    '1.2.3',
+    'x'.repeat(211),
+    'types',
+    'babel',
+    'angular',
+    'nodejs',
+    'node-fetch',
+    'npm-utils',
+    'packages',
+    'modules',
+    'favicon',
+    'node_module',
+    '  padded  ',
+  ];
+
+  it.each(validNames)('should accept %j', (name) => {
+    expect(validateOrganizationName(name)).toMatchObject({
+      isValid: true,
+      errors: [],
     });
   });
+
+  const invalidNames: [string, string[]][] = [
+    ['', [EMPTY, TOO_SHORT]],
+    ['   ', [EMPTY, TOO_SHORT]],
+    ['\t\n', [EMPTY, TOO_SHORT]],
+    ['.', [INVALID_START]],
+    ['..', [INVALID_START]],
+    ['_', [INVALID_START]],
+    ['.org', [INVALID_START]],
+    ['_org', [INVALID_START]],
+    ['.bin', [INVALID_START]],
+    ['_private', [INVALID_START]],
+    ['my org', [INVALID_CHARACTERS]],
+    ['my\torg', [INVALID_CHARACTERS]],
+    ['my\norg', [INVALID_CHARACTERS]],
+    ['my/org', [INVALID_CHARACTERS]],
+    ['my\\org', [INVALID_CHARACTERS]],
+    ['@my-org', [INVALID_CHARACTERS]],
+    ['my@org', [INVALID_CHARACTERS]],
+    ['my:org', [INVALID_CHARACTERS]],
+    ['my#org', [INVALID_CHARACTERS]],
+    ['my?org', [INVALID_CHARACTERS]],
+    ['my%20org', [INVALID_CHARACTERS]],
+    ['my&org', [INVALID_CHARACTERS]],
+    ['my+org', [INVALID_CHARACTERS]],
+    ['my=org', [INVALID_CHARACTERS]],
+    ['my,org', [INVALID_CHARACTERS]],
+    ['my;org', [INVALID_CHARACTERS]],
+    ['my$org', [INVALID_CHARACTERS]],
+    ['my"org', [INVALID_CHARACTERS]],
+    ['<script>', [INVALID_CHARACTERS]],
+    ['my[org]', [INVALID_CHARACTERS]],
+    ['my{org}', [INVALID_CHARACTERS]],
+    ['my|org', [INVALID_CHARACTERS]],
+    ['my^org', [INVALID_CHARACTERS]],
+    ['my`org', [INVALID_CHARACTERS]],
+    ['ünïcödé', [INVALID_CHARACTERS]],
+    ['org-🚀', [INVALID_CHARACTERS]],
+    ['my\u0000org', [INVALID_CHARACTERS]],
+    ['.my org', [INVALID_START, INVALID_CHARACTERS]],
+    ['_My/Org', [INVALID_START, INVALID_CHARACTERS, INVALID_CHARACTERS]],
+    ['npm', [RESERVED_WORD]],
+    ['node', [RESERVED_WORD]],
+    ['package', [RESERVED_WORD]],
+    ['module', [RESERVED_WORD]],
+    ['node_modules', [RESERVED_WORD]],
+    ['favicon.ico', [RESERVED_WORD]],
+    [' npm ', [RESERVED_WORD]],
+    ['NPM', [INVALID_CHARACTERS, RESERVED_WORD]],
+    ['Node_Modules', [INVALID_CHARACTERS, RESERVED_WORD]],
+    ['x'.repeat(212), [TOO_LONG]],
+    ['x'.repeat(214), [TOO_LONG]],
+    ['x'.repeat(215), [TOO_LONG]],
+    ['X'.repeat(300), [TOO_LONG, INVALID_CHARACTERS]],
+    ['MyOrg', [INVALID_CHARACTERS]],
+    ['ORG', [INVALID_CHARACTERS]],
+    ['crazy!', [INVALID_CHARACTERS]],
+    ["o'reilly", [INVALID_CHARACTERS]],
+    ['tilde~', [INVALID_CHARACTERS]],
+    ['(parens)', [INVALID_CHARACTERS]],
+    ['star*', [INVALID_CHARACTERS]],
+    ['Crazy!', [INVALID_CHARACTERS, INVALID_CHARACTERS]],
+  ];
+
+  it.each(invalidNames)('should reject %j with %j', (name, types) => {
+    const result = validateOrganizationName(name);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map((error) => error.type)).toEqual(types);
+  });
+
+  // Names npm accepted before it enforced lowercase, special characters and length
+  const legacyNames = [
+    'MyOrg',
+    'ORG',
+    'crazy!',
+    "o'reilly",
+    'tilde~',
+    '(parens)',
+    'star*',
+    'Crazy!',
+    'x'.repeat(212),
+    'X'.repeat(300),
+  ];
+
+  it.each(legacyNames)('should flag every error of %j as legacy', (name) => {
+    const { errors } = validateOrganizationName(name);
+
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((error) => error.legacy)).toBe(true);
+  });
+
+  it.each(['my org', '.org', 'npm', '@my-org'])(
+    'should not flag errors of %j as legacy',
+    (name) => {
+      const { errors } = validateOrganizationName(name);
+
+      expect(errors.some((error) => error.legacy)).toBe(false);
+    },
+  );
+});
+
+describe('validation rules', () => {
+  const noDigits: ValidationRule = {
+    id: 'custom/no-digits',
+    severity: 'error',
+    type: ValidationErrorType.INVALID_CHARACTERS,
+    check: (name) => !/\d/.test(name),
+    message: (name) => `"${name}" cannot contain digits`,
+  };
+
+  it('should give every built-in rule a unique id', () => {
+    const ids = npmNamingRules.map((rule) => rule.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should report the id of the failed rule', () => {
+    expect(validateOrganizationName('.org').errors).toEqual([
+      {
+        type: ValidationErrorType.INVALID_START,
+        message: 'Name cannot start with a dot or an underscore',
+        ruleId: 'npm/leading-character',
+      },
+    ]);
+  });
+
+  it('should only check the given rules', () => {
+    const result = validateOrganizationName(' org1 ', [noDigits]);
+
+    expect(result).toEqual({
+      isValid: false,
+      errors: [
+        {
+          type: ValidationErrorType.INVALID_CHARACTERS,
+          message: '"org1" cannot contain digits',
+          ruleId: 'custom/no-digits',
+        },
+      ],
+      warnings: [],
+    });
+    expect(validateOrganizationName('NPM', [noDigits]).isValid).toBe(true);
+  });
+
+  it('should report failed warning rules without invalidating the name', () => {
+    const result = validateOrganizationName('org1', [
+      ...npmNamingRules,
+      { ...noDigits, severity: 'warning' },
+    ]);
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map((warning) => warning.ruleId)).toEqual([
+      'npm/confusable',
+      'custom/no-digits',
+    ]);
+  });
+
+  it('should only check empty names with rules that check empty names', () => {
+    const result = validateOrganizationName('', [
+      noDigits,
+      {
+        ...noDigits,
+        id: 'custom/empty',
+        checksEmpty: true,
+        check: () => false,
+      },
+    ]);
+
+    expect(result.errors.map((error) => error.ruleId)).toEqual([
+      'custom/empty',
+    ]);
+  });
+});
+
+describe('naming advice', () => {
+  const { CONFUSABLE_CHARACTERS, CORE_MODULE_NAME, LONG_NAME, UNDERSCORE } =
+    ValidationErrorType;
+
+  it.each([
+    ['my-org', []],
+    ['x'.repeat(40), []],
+    ['x'.repeat(41), [LONG_NAME]],
+    ['my_org', [UNDERSCORE]],
+    ['modern', [CONFUSABLE_CHARACTERS]],
+    ['savvy', [CONFUSABLE_CHARACTERS]],
+    ['pay1', [CONFUSABLE_CHARACTERS]],
+    ['f0o', [CONFUSABLE_CHARACTERS]],
+    ['web-3', []],
+    ['2024', []],
+    ['http', [CORE_MODULE_NAME]],
+    ['child_process', [UNDERSCORE, CORE_MODULE_NAME]],
+    ['http-utils', []],
+    ['x_'.repeat(25), [LONG_NAME, UNDERSCORE]],
+  ])('should advise on %j with %j', (name, types) => {
+    const result = validateOrganizationName(name);
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map((warning) => warning.type)).toEqual(types);
+  });
+
+  it('should name every confusable sequence', () => {
+    expect(validateOrganizationName('rnodern-vv1').warnings).toEqual([
+      {
+        type: CONFUSABLE_CHARACTERS,
+        message:
+          'Parts of the name are easy to misread: "rn" looks like "m", "vv" looks like "w", "1" looks like "l"',
+        ruleId: 'npm/confusable',
+      },
+    ]);
+  });
+
+  it('should name the core module', () => {
+    expect(validateOrganizationName('crypto').warnings).toEqual([
+      {
+        type: CORE_MODULE_NAME,
+        message:
+          '"crypto" is a Node.js core module name and may be confused with it',
+        ruleId: 'npm/core-module',
+      },
+    ]);
+  });
+
+  it('should advise on invalid names as well', () => {
+    const result = validateOrganizationName('_my org');
+
+    expect(result.isValid).toBe(false);
+    expect(result.warnings.map((warning) => warning.type)).toEqual([
+      UNDERSCORE,
+    ]);
+  });
+});
+
+describe('normalizeOrganizationName', () => {
+  it.each([
+    ['My Org', 'my-org'],
+    ['@my-org', 'my-org'],
+    [' acme ', 'acme'],
+    ['Acme_Inc', 'acme_inc'],
+    ['my--org', 'my-org'],
+    ['my - org', 'my-org'],
+    ['my\torg\n', 'my-org'],
+    ['my-org-', 'my-org'],
+    ['my-org._', 'my-org'],
+    ['._my-org', 'my-org'],
+    ['@ My Org!', 'my-org!'],
+    ['my-org', 'my-org'],
+    ['@', ''],
+    ['', ''],
+  ])('should normalize %j to %j', (name, expected) => {
+    expect(normalizeOrganizationName(name)).toBe(expected);
+  });
+
+  it('should turn common typing mistakes into valid names', () => {
+    for (const name of ['My Org', '@my-org', ' acme ', 'Acme_Inc']) {
+      expect(validateOrganizationName(normalizeOrganizationName(name))).toEqual(
+        expect.objectContaining({ isValid: true }),
+      );
+    }
+  });
+
+  it('should be idempotent', () => {
+    for (const name of ['My  Org--', '@_Acme Inc.', 'a - b']) {
+      const normalized = normalizeOrganizationName(name);
+
+      expect(normalizeOrganizationName(normalized)).toBe(normalized);
+    }
+  });
 });
@@ -1,13 +1,215 @@
-import type { ValidationError } from 'src/types';
-import { ValidationErrorType, type ValidationResult } from 'src/types';
+import type {
+  ValidationError,
+  ValidationResult,
+  ValidationRule,
+} from 'src/types';
+import { ValidationErrorType } from 'src/types';
 
 const MIN_LENGTH = 1;
-const MAX_LENGTH = 214;
-const ORG_NAME_PATTERN = /^[a-z][a-z0-9-_]*[a-z0-9]$/;
-const RESERVED_WORDS = ['npm', 'node', 'package', 'module'];
+// npm limits full package names, so `@<name>/<package>` must fit as well
+const MAX_PACKAGE_NAME_LENGTH = 214;
+const MAX_LENGTH = MAX_PACKAGE_NAME_LENGTH - '@/x'.length;
+// npm-owned names, plus names npm blocks for every package
+const RESERVED_WORDS = [
+  'npm',
+  'node',
+  'package',
+  'module',
+  'node_modules',
+  'favicon.ico',
+];
+// URL-safe characters npm no longer allows in new names
+const SPECIAL_CHARACTERS = /[~'!()*]/;
+// Characters npm rejects at the start of a name
+const INVALID_LEADING_CHARACTERS = /^[._]+/;
+// Punctuation that only ends up at the end of a name by accident
+const TRAILING_PUNCTUATION = /[-_.]+$/;
+// Names longer than this are hard to type and read
+const ADVISED_MAX_LENGTH = 40;
+// Sequences that read like other characters, e.g. "rn" for "m" or "1" for "l"
+const CONFUSABLES: { pattern: RegExp; sequence: string; lookalike: string }[] =
+  [
+    { pattern: /rn/, sequence: 'rn', lookalike: 'm' },
+    { pattern: /vv/, sequence: 'vv', lookalike: 'w' },
+    { pattern: /[a-z]1|1[a-z]/, sequence: '1', lookalike: 'l' },
+    { pattern: /[a-z]0|0[a-z]/, sequence: '0', lookalike: 'o' },
+  ];
+// Node.js core modules (`module` is already reserved)
+const NODE_CORE_MODULES = [
+  'assert',
+  'async_hooks',
+  'buffer',
+  'child_process',
+  'cluster',
+  'console',
+  'constants',
+  'crypto',
+  'dgram',
+  'diagnostics_channel',
+  'dns',
+  'domain',
+  'events',
+  'fs',
+  'http',
+  'http2',
+  'https',
+  'inspector',
+  'net',
+  'os',
+  'path',
+  'perf_hooks',
+  'process',
+  'punycode',
+  'querystring',
+  'readline',
+  'repl',
+  'stream',
+  'string_decoder',
+  'sys',
+  'test',
+  'timers',
+  'tls',
+  'trace_events',
+  'tty',
+  'url',
+  'util',
+  'v8',
+  'vm',
+  'wasi',
+  'worker_threads',
+  'zlib',
+];
+
+const findConfusables = (name: string) =>
+  CONFUSABLES.filter(({ pattern }) => pattern.test(name.toLowerCase()));
+
+/**
+ * npm's naming rules for user, scope and organization names.
+ *
+ * Rules (mirroring npm's package and user name rules):
+ * - Length: Must be at least 1 character, and `@name/x` must fit npm's
+ *   214-character package name limit (at most 211 characters)
+ * - Start: Cannot start with a dot or an underscore
+ * - Characters: Must be URL-safe, i.e. unchanged by `encodeURIComponent`
+ *   (letters, digits, `-`, `.` and `_`)
+ * - Legacy: Capital letters, the special characters `~'!()*` and overlong
+ *   names only exist from before npm enforced these rules; such rules are
+ *   flagged with `legacy`
+ * - Reserved: Cannot use npm reserved names (npm, node, node_modules, ...)
+ *
+ * Leading digits and hyphens, dots after the first character, and repeated
+ * or trailing hyphens are allowed, as on npm.
+ *
+ * Advice (warnings that don't block the name):
+ * - Names over 40 characters are hard to type and read
+ * - Underscores are discouraged in URLs; hyphens read better
+ * - Confusable sequences such as `rn` (m), `vv` (w), `1` (l) and `0` (o)
+ * - Node.js core module names (e.g. `http`) are easily mistaken for Node APIs
+ */
+export const npmNamingRules: readonly ValidationRule[] = [
+  {
+    id: 'npm/required',
+    severity: 'error',
+    type: ValidationErrorType.EMPTY,
+    checksEmpty: true,
+    check: (name) => name !== '',
+    message: 'Name is required',
+  },
+  {
+    id: 'npm/min-length',
+    severity: 'error',
+    type: ValidationErrorType.TOO_SHORT,
+    checksEmpty: true,
+    check: (name) => name.length >= MIN_LENGTH,
+    message: `Name must be at least ${MIN_LENGTH.toString()} character long`,
+  },
+  {
+    id: 'npm/max-length',
+    severity: 'error',
+    type: ValidationErrorType.TOO_LONG,
+    legacy: true,
+    check: (name) => name.length <= MAX_LENGTH,
+    message: `Name cannot exceed ${MAX_LENGTH.toString()} characters, as npm limits @name/package to ${MAX_PACKAGE_NAME_LENGTH.toString()}`,
+  },
+  {
+    id: 'npm/leading-character',
+    severity: 'error',
+    type: ValidationErrorType.INVALID_START,
+    check: (name) => !/^[._]/.test(name),
+    message: 'Name cannot start with a dot or an underscore',
+  },
+  {
+    id: 'npm/url-safe',
+    severity: 'error',
+    type: ValidationErrorType.INVALID_CHARACTERS,
+    check: (name) => encodeURIComponent(name) === name,
+    message:
+      'Name can only contain URL-safe characters (letters, numbers, hyphens, dots, and underscores)',
+  },
+  {
+    id: 'npm/lowercase',
+    severity: 'error',
+    type: ValidationErrorType.INVALID_CHARACTERS,
+    legacy: true,
+    check: (name) => name === name.toLowerCase(),
+    message: 'Name can no longer contain capital letters',
+  },
+  {
+    id: 'npm/special-characters',
+    severity: 'error',
+    type: ValidationErrorType.INVALID_CHARACTERS,
+    legacy: true,
+    check: (name) => !SPECIAL_CHARACTERS.test(name),
+    message: `Name can no longer contain special characters ("~'!()*")`,
+  },
+  {
+    id: 'npm/reserved',
+    severity: 'error',
+    type: ValidationErrorType.RESERVED_WORD,
+    check: (name) => !RESERVED_WORDS.includes(name.toLowerCase()),
+    message: (name) =>
+      `"${name}" is a reserved word and cannot be used as a name`,
+  },
+  {
+    id: 'npm/long-name',
+    severity: 'warning',
+    type: ValidationErrorType.LONG_NAME,
+    check: (name) => name.length <= ADVISED_MAX_LENGTH,
+    message: `Names over ${ADVISED_MAX_LENGTH.toString()} characters are hard to type and read`,
+  },
+  {
+    id: 'npm/underscore',
+    severity: 'warning',
+    type: ValidationErrorType.UNDERSCORE,
+    check: (name) => !name.includes('_'),
+    message:
+      'npm discourages underscores in names, as they are hard to see in URLs; consider hyphens',
+  },
+  {
+    id: 'npm/confusable',
+    severity: 'warning',
+    type: ValidationErrorType.CONFUSABLE_CHARACTERS,
+    check: (name) => findConfusables(name).length === 0,
+    message: (name) =>
+      `Parts of the name are easy to misread: ${findConfusables(name)
+        .map(
+          ({ sequence, lookalike }) =>
+            `"${sequence}" looks like "${lookalike}"`,
+        )
+        .join(', ')}`,
+  },
+  {
+    id: 'npm/core-module',
+    severity: 'warning',
+    type: ValidationErrorType.CORE_MODULE_NAME,
+    check: (name) => !NODE_CORE_MODULES.includes(name.toLowerCase()),
+    message: (name) =>
+      `"${name}" is a Node.js core module name and may be confused with it`,
+  },
+];
 
 /**
- * Validates a unified name according to npm's naming rules.
+ * Validates a unified name against a set of validation rules.
  *
  * This function provides comprehensive validation for all npm name types:
  * 1. User names (e.g., "username")
@@ -15,13 +217,14 @@ const RESERVED_WORDS = ['npm', 'node', 'package', 'module'];
  * 3. Organization names (e.g., "my-org")
  *
  * The same validation rules apply to all name types - no format detection needed.
+ * By default the name is checked against {@link npmNamingRules}; pass your
+ * own rules to add team policies (see `createPolicyRules`).
  *
- * Validation Rules:
- * - Length: Must be between 1-214 characters
- * - Pattern: Must start with lowercase letter, contain only lowercase letters, numbers, hyphens, and underscores
- * - Hyphens: No consecutive hyphens allowed
- * - Endings: Must end with lowercase letter or number (not hyphen)
- * - Reserved: Cannot use npm reserved words (npm, node, package, module)
+ * Rule Evaluation:
+ * - Every rule checks the trimmed name, in order
+ * - An empty name is only checked by rules with `checksEmpty`
+ * - Failed error rules make the name invalid; failed warning rules only
+ *   report a warning
  *
  * The function returns a ValidationResult containing:
  * - isValid: Boolean indicating if name passes all validation
@@ -30,12 +233,15 @@ const RESERVED_WORDS = ['npm', 'node', 'package', 'module'];
  *
  * @example
  * ```typescript
- * import { validateOrganizationName } from './validation';
+ * import { npmNamingRules, validateOrganizationName } from './validation';
  *
  * // Works for all name types - organizations, scopes, and users
  * const userResult = validateOrganizationName('username');
  * const scopeResult = validateOrganizationName('angular');
- * const orgResult = validateOrganizationName('my-org');
+ * const orgResult = validateOrganizationName('my-org', [
+ *   ...npmNamingRules,
+ *   ...createPolicyRules({ requiredPrefixes: ['acme-'] }),
+ * ]);
  *
  * if (orgResult.isValid) {
  *   console.log('Organization name is valid!');
@@ -45,89 +251,74 @@ const RESERVED_WORDS = ['npm', 'node', 'package', 'module'];
  * ```
  *
  * @param name - The name to validate (works for users, scopes, or organizations)
+ * @param rules - Rules to check (default: npm's naming rules)
  * @returns ValidationResult with validation status and detailed error information
  */
-export function validateOrganizationName(name: string): ValidationResult {
+export function validateOrganizationName(
+  name: string,
+  rules: readonly ValidationRule[] = npmNamingRules,
+): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
-
-  // Check if empty
-  if (!name || name.trim() === '') {
-    errors.push({
-      type: ValidationErrorType.EMPTY,
-      message: 'Name is required',
-    });
-    errors.push({
-      type: ValidationErrorType.TOO_SHORT,
-      message: `Name must be at least ${MIN_LENGTH.toString()} character long`,
-    });
-    return { isValid: false, errors, warnings };
-  }
-
   const trimmedName = name.trim();
 
-  // Check length
-  /* v8 ignore start */
-  if (trimmedName.length < MIN_LENGTH) {
-    errors.push({
-      type: ValidationErrorType.TOO_SHORT,
-      message: `Name must be at least ${MIN_LENGTH.toString()} character long`,
-    });
-  }
-  /* v8 ignore end */
-
-  if (trimmedName.length > MAX_LENGTH) {
-    errors.push({
-      type: ValidationErrorType.TOO_LONG,
-      message: `Name cannot exceed ${MAX_LENGTH.toString()} characters`,
-    });
-  }
-
-  // Check consecutive hyphens (separate from pattern check for better error messages)
-  if (trimmedName.includes('--')) {
-    errors.push({
-      type: ValidationErrorType.CONSECUTIVE_HYPHENS,
-      message: 'Name cannot contain consecutive hyphens',
-    });
-  }
-
-  // Check pattern
-  if (!ORG_NAME_PATTERN.test(trimmedName)) {
-    // Check specific pattern violations for better error messages
-    if (!/^[a-z]/.test(trimmedName)) {
-      errors.push({
-        type: ValidationErrorType.INVALID_START,
-        message: 'Name must start with a lowercase letter',
-      });
+  for (const rule of rules) {
+    if ((trimmedName === '' && !rule.checksEmpty) || rule.check(trimmedName)) {
+      continue;
     }
 
-    if (!/[a-z0-9]$/.test(trimmedName)) {
-      errors.push({
-        type: ValidationErrorType.INVALID_END,
-        message: 'Name must end with a lowercase letter or number',
-      });
-    }
+    const error: ValidationError = {
+      type: rule.type,
+      message:
+        typeof rule.message === 'string'
+          ? rule.message
+          : rule.message(trimmedName),
+      ruleId: rule.id,
+      ...(rule.legacy && { legacy: true }),
+    };
 
-    if (/[A-Z]/.test(trimmedName) || /[^a-z0-9-_]/.test(trimmedName)) {
-      errors.push({
-        type: ValidationErrorType.INVALID_CHARACTERS,
-        message:
-          'Name can only contain lowercase letters, numbers, hyphens, and underscores',
-      });
+    if (rule.severity === 'error') {
+      errors.push(error);
+    } else {
+      warnings.push(error);
     }
   }
 
-  // Check reserved words
-  if (RESERVED_WORDS.some((word) => word === trimmedName)) {
-    errors.push({
-      type: ValidationErrorType.RESERVED_WORD,
-      message: `"${trimmedName}" is a reserved word and cannot be used as a name`,
-    });
-  }
-
   return {
     isValid: errors.length === 0,
     errors,
     warnings,
   };
 }
+
+/**
+ * Proposes a corrected version of a name that was typed loosely.
+ *
+ * Corrections:
+ * - Lowercases the name and removes `@` (e.g. a pasted `@scope`)
+ * - Trims surrounding whitespace and replaces inner whitespace with hyphens
+ * - Collapses repeated hyphens
+ * - Removes a leading dot or underscore and trailing punctuation
+ *
+ * The result is not guaranteed to be valid; validate it before offering it.
+ *
+ * @example
+ * ```typescript
+ * normalizeOrganizationName('My Org'); // 'my-org'
+ * normalizeOrganizationName('@my-org'); // 'my-org'
+ * normalizeOrganizationName('Acme_Inc'); // 'acme_inc'
+ * ```
+ *
+ * @param name - The name as typed
+ * @returns The corrected name (empty when nothing is left)
+ */
+export function normalizeOrganizationName(name: string): string {
+  return name
+    .toLowerCase()
+    .replaceAll('@', '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(INVALID_LEADING_CHARACTERS, '')
+    .replace(TRAILING_PUNCTUATION, '');
+}